@@ -6,31 +6,64 @@ import CalendarView from './components/CalendarView';
 import AuthForm from './components/AuthForm';
 import OnboardingWizard from './components/OnboardingWizard';
 import RoomManager from './components/RoomManager';
+import TodaysRoute from './components/TodaysRoute';
 import HouseholdSetup from './components/HouseholdSetup';
 import HouseholdSettings from './components/HouseholdSettings';
 import BulkScheduler from './components/BulkScheduler';
-import { Task, Frequency, RoomType } from './types';
+import SchedulePreview from './components/SchedulePreview';
+import MigrationStatus from './components/MigrationStatus';
+import { Task, Frequency, RoomType, CompletionEvent } from './types';
 import { FALLBACK_TASKS } from './constants';
 import { generateSmartSchedule } from './services/geminiService';
+import { TaskChange } from './services/repository';
 import { useTasks } from './hooks/useTasks';
+import { useMigrations } from './hooks/useMigrations';
+import { useRepository } from './contexts/RepositoryContext';
 import { useAuth } from './contexts/AuthContext';
 import { useHousehold } from './contexts/HouseholdContext';
 import { RoomsProvider } from './contexts/RoomsContext';
-import { isTaskDueOnDate, isOccurrenceCompleted, getNextOccurrence, getToday } from './utils/recurrence';
-import { optimizeWeeklySchedule } from './utils/scheduler';
-import { Sparkles, Info, Loader2 } from 'lucide-react';
+import { isTaskDueOnDate, isOccurrenceCompleted, getNextOccurrence, getToday, isFloating, getFloatingDueDate, getOverdueInfo, addDays, skipOccurrences, restoreOccurrence, moveOccurrence, plannedDayFields, getOccurrenceAssignee } from './utils/recurrence';
+import { optimizeWeeklySchedule, optimizeMemberSchedule, optimizeMonthlySchedule, applyAssignments, applyRoomLocks, getMemberShares, getFairnessLedger, getFairnessWindow, getBudgetedDays, getDayBudgets, diffSchedule, withScheduleOf, getScheduleUpdate, BalanceMode, ScheduleChange } from './utils/scheduler';
+import { Sparkles, Info, Loader2, Undo2, X } from 'lucide-react';
+
+// What the task form edits; the rest of a stored task is kept up by the
+// completion, claim and occurrence handlers
+const EDITABLE_FIELDS: (keyof Task)[] = [
+  'description', 'roomId', 'room', 'roomType', 'frequency', 'estimatedMinutes', 'priority',
+  'scheduledDay', 'scheduledDays', 'anchorDate', 'assignedTo', 'rotation', 'recurrence',
+  'recurrenceMode', 'floatingIntervalDays', 'suggestedDay', 'missedPolicy', 'activeFrom',
+  'activeUntil', 'activeMonths', 'timeSlot', 'startTime', 'locked', 'tags', 'phase', 'after',
+];
 
 const App: React.FC = () => {
   const { user, loading: authLoading, signOut } = useAuth();
-  const { household, members, loading: householdLoading } = useHousehold();
-  const { tasks: firestoreTasks, loading: firestoreLoading, needsOnboarding, updateTask, saveTask, deleteTask, completeOnboarding, addRoom, renameRoom, deleteRoom } = useTasks(household?.id || null);
+  const { household, members, scheduleSettings, loading: householdLoading } = useHousehold();
+  const repository = useRepository();
+  const migrations = useMigrations(household);
+  const { tasks: firestoreTasks, loading: firestoreLoading, needsOnboarding, updateTask, updateTaskWith, updateTasks, saveTask, applyTaskChanges, deleteTask, recordCompletion, removeCompletion, rebuildCompletedDates, claimTask, releaseClaim, getCompletions, completeOnboarding, addRoom, renameRoom, deleteRoom } = useTasks(household?.id || null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'rooms' | 'calendar'>('rooms');
+  const [viewMode, setViewMode] = useState<'rooms' | 'calendar' | 'route'>('rooms');
   const [showRoomManager, setShowRoomManager] = useState(false);
   const [showHouseholdSettings, setShowHouseholdSettings] = useState(false);
   const [showBulkScheduler, setShowBulkScheduler] = useState(false);
+  // A proposed schedule waiting for review, and the last one applied (kept so it can be reverted)
+  const [schedulePreview, setSchedulePreview] = useState<{ title: string; changes: ScheduleChange[]; note?: string; warnings?: string[] } | null>(null);
+  const [lastApplied, setLastApplied] = useState<ScheduleChange[] | null>(null);
+  const [recentCompletions, setRecentCompletions] = useState<CompletionEvent[]>([]);
+  // Household date, re-checked every minute so an open app rolls over at the household's dayEndsAt
+  const [today, setToday] = useState(getToday);
+
+  useEffect(() => {
+    const timer = setInterval(() => setToday(getToday()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // A new timezone or rollover hour can change the date immediately
+  useEffect(() => {
+    setToday(getToday());
+  }, [scheduleSettings]);
 
   // Debug: Log user and household state
   useEffect(() => {
@@ -50,10 +83,11 @@ const App: React.FC = () => {
     });
   }, [household, members]);
 
-  // Daily reset: prune old completedDates, recompute isCompleted
+  // Daily reset: rebuild each task's completedDates cache from the last 30 days of
+  // completion events, prune occurrence exceptions, recompute isCompleted. Each
+  // task is rewritten in its own transaction, like a toggle.
   useEffect(() => {
     const checkAndResetDaily = async () => {
-      const today = getToday();
       const savedResetDate = localStorage.getItem('tidyhome_last_reset');
 
       if (savedResetDate !== today && firestoreTasks.length > 0) {
@@ -62,47 +96,82 @@ const App: React.FC = () => {
         // Set the flag BEFORE updating to prevent re-entry
         localStorage.setItem('tidyhome_last_reset', today);
 
-        for (const task of firestoreTasks) {
-          const completedDates = task.completedDates ?? [];
-          // Prune entries older than 30 days
-          const cutoff = new Date();
-          cutoff.setDate(cutoff.getDate() - 30);
-          const cutoffStr = cutoff.toISOString().split('T')[0];
-          const pruned = completedDates.filter(d => d >= cutoffStr);
+        const cutoffStr = addDays(today, -30);
+        let events;
+        try {
+          events = await getCompletions({ from: cutoffStr, to: addDays(today, 366) });
+        } catch (error) {
+          console.error('Failed to load completion history', error);
+          return;
+        }
+        const datesByTask = new Map<string, string[]>();
+        for (const event of events) {
+          if (event.date < cutoffStr) continue;
+          datesByTask.set(event.taskId, [...(datesByTask.get(event.taskId) ?? []), event.date]);
+        }
 
-          const isCompletedToday = pruned.includes(today);
+        // Worked out again from the stored task inside each rebuild, so a toggle or
+        // skip made since these were read isn't lost
+        const pruneExceptions = (task: Task): Required<Pick<Task, 'skippedDates' | 'movedDates'>> => ({
+          skippedDates: (task.skippedDates ?? []).filter(d => d >= cutoffStr),
+          movedDates: Object.fromEntries(Object.entries(task.movedDates ?? {}).filter(([from, to]) => from >= cutoffStr || to >= cutoffStr)),
+        });
+        const derive = (stored: Task): Partial<Task> => ({
+          isCompleted: (stored.completedDates ?? []).includes(today),
+          ...pruneExceptions(stored),
+          nextDueDate: getNextOccurrence(stored, today),
+        });
+
+        const stale = firestoreTasks.filter(task => {
+          const completedDates = task.completedDates ?? [];
+          const pruned = [...new Set(datesByTask.get(task.id) ?? [])];
+          const cacheChanged = pruned.length !== completedDates.length || pruned.some(d => !completedDates.includes(d));
+          const { skippedDates, movedDates } = pruneExceptions(task);
 
           // Only update if something changed
-          if (pruned.length !== completedDates.length || task.isCompleted !== isCompletedToday) {
-            await updateTask(task.id, {
-              completedDates: pruned,
-              isCompleted: isCompletedToday,
-              nextDueDate: getNextOccurrence(task, today),
-            });
-          }
-        }
+          return cacheChanged || task.isCompleted !== pruned.includes(today)
+            || skippedDates.length !== (task.skippedDates ?? []).length
+            || Object.keys(movedDates).length !== Object.keys(task.movedDates ?? {}).length;
+        });
+        await Promise.all(stale.map(task =>
+          rebuildCompletedDates(task.id, cutoffStr, datesByTask.get(task.id) ?? [], derive)
+            .catch(error => console.error(`Failed to reset task ${task.id}`, error))
+        ));
       }
     };
 
-    if (!firestoreLoading) {
+    // Tasks still being migrated don't have their completion events yet
+    if (!firestoreLoading && !migrations.pending) {
       checkAndResetDaily();
     }
-  }, [firestoreLoading, firestoreTasks, updateTask]);
+  }, [firestoreLoading, migrations.pending, firestoreTasks, rebuildCompletedDates, getCompletions, today]);
 
-  // Sync Firestore tasks to local state and refresh isDue status
+  // Completions over the fairness window, for the ledger in stats and the bulk
+  // scheduler; reloaded with the tasks, which every completion toggle rewrites
+  useEffect(() => {
+    if (firestoreLoading || migrations.pending) return;
+    let active = true;
+    getCompletions(getFairnessWindow(today))
+      .then(events => { if (active) setRecentCompletions(events); })
+      .catch(error => console.error('Failed to load completion history', error));
+    return () => { active = false; };
+  }, [firestoreLoading, migrations.pending, firestoreTasks, today]);
+
+  // Sync Firestore tasks to local state and refresh isDue / overdue status
+  // (pauses and away periods in scheduleSettings change what is due)
   useEffect(() => {
     if (!firestoreLoading && firestoreTasks.length > 0) {
-      const today = getToday();
       const refreshedTasks = firestoreTasks.map(task => ({
         ...task,
         isDue: isTaskDueOnDate(task, today),
         isCompleted: isOccurrenceCompleted(task, today),
+        ...getOverdueInfo(task, today),
       }));
       setTasks(refreshedTasks);
 
       // Debug: Log current user's assigned tasks
       if (user) {
-        const myTasks = refreshedTasks.filter(t => t.assignedTo === user.uid);
+        const myTasks = refreshedTasks.filter(t => getOccurrenceAssignee(t, today) === user.uid);
         console.log('[App] Current user assigned tasks:', {
           userId: user.uid,
           totalTasks: refreshedTasks.length,
@@ -118,7 +187,7 @@ const App: React.FC = () => {
         });
       }
     }
-  }, [firestoreTasks, firestoreLoading, user]);
+  }, [firestoreTasks, firestoreLoading, user, scheduleSettings, today]);
 
   // Load AI analysis from localStorage
   useEffect(() => {
@@ -135,10 +204,7 @@ const App: React.FC = () => {
     setIsLoading(true);
     try {
       const { tasks: newTasks, analysis } = await generateSmartSchedule();
-      for (const task of newTasks) {
-        await saveTask(task);
-      }
-      setAiAnalysis(analysis);
+      setSchedulePreview({ title: 'AI Schedule', changes: diffSchedule(tasks, newTasks), note: analysis });
     } catch (error) {
       console.error("Failed to generate schedule", error);
       alert("Failed to generate optimized schedule. Please check your API Key configuration or try again.");
@@ -147,22 +213,29 @@ const App: React.FC = () => {
     }
   };
 
-  const handleBalanceSchedule = async () => {
+  const handleBalanceSchedule = async (mode: BalanceMode = 'days') => {
     setIsLoading(true);
     try {
-      const assignments = optimizeWeeklySchedule(tasks);
-      const today = getToday();
-
-      for (const { taskId, scheduledDay } of assignments) {
-        const task = tasks.find(t => t.id === taskId);
-        if (task) {
-          const updatedTask = { ...task, scheduledDay };
-          await updateTask(taskId, {
-            scheduledDay,
-            nextDueDate: getNextOccurrence(updatedTask, today),
-          });
-        }
-      }
+      const days = getBudgetedDays(scheduleSettings);
+      const dayBudgets = getDayBudgets(scheduleSettings);
+      // Tasks in locked rooms stay put along with the individually locked ones
+      const rooms = household ? await repository.rooms.getRooms(household.id) : [];
+      const lockedTasks = applyRoomLocks(tasks, rooms);
+      const events = await getCompletions(getFairnessWindow(getToday()));
+      const ledger = getFairnessLedger(tasks, events, getMemberShares(members, scheduleSettings), getToday());
+      const weekly = mode === 'members'
+        ? optimizeMemberSchedule(lockedTasks, getMemberShares(members, scheduleSettings, ledger), days)
+        : optimizeWeeklySchedule(lockedTasks, days, undefined, dayBudgets);
+      // Month days are placed around the freshly balanced weekly load
+      const monthly = optimizeMonthlySchedule(applyAssignments(lockedTasks, weekly), getToday(), dayBudgets);
+      const assignments = [...weekly, ...monthly];
+      const unfit = assignments.filter(a => a.overBudget).map(a => tasks.find(t => t.id === a.taskId)?.description ?? '');
+
+      setSchedulePreview({
+        title: mode === 'members' ? 'Balance Members' : 'Balance Schedule',
+        changes: diffSchedule(tasks, applyAssignments(tasks, assignments), assignments),
+        warnings: unfit,
+      });
     } catch (error) {
       console.error("Failed to balance schedule", error);
       alert("Failed to balance schedule. Please try again.");
@@ -171,43 +244,148 @@ const App: React.FC = () => {
     }
   };
 
+  // Only a task's schedule is written over the stored task, so completions, claims and
+  // edits made since the preview opened are kept
+  const toScheduleChange = (task: Task, today: string): TaskChange => {
+    const { updates, clear } = getScheduleUpdate(task);
+    return {
+      taskId: task.id,
+      updates: { ...updates, nextDueDate: getNextOccurrence(task, today), isDue: isTaskDueOnDate(task, today) },
+      clear,
+    };
+  };
+
+  // Saves the accepted changes of a previewed schedule in one batch. The analysis of an
+  // AI schedule is only shown once it's been applied.
+  const handleApplySchedule = async (accepted: ScheduleChange[]) => {
+    const today = getToday();
+    try {
+      const saves: Task[] = [];
+      const changes: TaskChange[] = [];
+      for (const { taskId, before, after } of accepted) {
+        const current = firestoreTasks.find(t => t.id === taskId);
+        if (!before) {
+          // Added tasks are saved whole
+          saves.push({ ...after, nextDueDate: getNextOccurrence(after, today), isDue: isTaskDueOnDate(after, today) });
+        } else if (current) {
+          changes.push(toScheduleChange(withScheduleOf(current, after), today));
+        }
+      }
+      await applyTaskChanges(saves, changes);
+      if (schedulePreview?.note && accepted.some(c => !c.before)) setAiAnalysis(schedulePreview.note);
+      setLastApplied(accepted);
+      setSchedulePreview(null);
+    } catch (error) {
+      console.error("Failed to apply schedule", error);
+      alert("Failed to apply schedule. Please try again.");
+    }
+  };
+
+  // Puts the last applied schedule back: moved tasks get their old days and assignee, added tasks go
+  const handleRevertSchedule = async () => {
+    if (!lastApplied) return;
+    const today = getToday();
+    try {
+      const changes: TaskChange[] = [];
+      for (const { taskId, before } of lastApplied) {
+        const current = firestoreTasks.find(t => t.id === taskId);
+        if (!before || !current) continue;
+        changes.push(toScheduleChange(withScheduleOf(current, before), today));
+      }
+      await applyTaskChanges([], changes, lastApplied.filter(c => !c.before).map(c => c.taskId));
+      setLastApplied(null);
+    } catch (error) {
+      console.error("Failed to revert schedule", error);
+      alert("Failed to revert schedule. Please try again.");
+    }
+  };
+
   const handleToggleTask = async (taskId: string, date?: string) => {
     const today = getToday();
     const targetDate = date ?? today;
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
 
-    const completedDates = task.completedDates ?? [];
-    const isCurrentlyCompleted = completedDates.includes(targetDate);
+    const isCurrentlyCompleted = (task.completedDates ?? []).includes(targetDate);
 
-    try {
-      let updatedDates: string[];
-      const updates: Partial<Task> = {};
+    // Worked out again from the stored task, so a toggle made at the same moment
+    // by someone else isn't lost
+    const derive = (stored: Task): Partial<Task> => ({
+      isCompleted: (stored.completedDates ?? []).includes(today),
+      // Floating tasks are due again a fixed number of days after the latest completion
+      ...(isFloating(stored) ? { nextDueDate: getFloatingDueDate(stored) } : {}),
+    });
 
+    try {
+      // The completion event is the record; completedDates is updated with it as a cache
       if (isCurrentlyCompleted) {
-        // Uncomplete: remove this date
-        updatedDates = completedDates.filter(d => d !== targetDate);
-        updates.completedDates = updatedDates;
-        updates.isCompleted = updatedDates.includes(today);
+        await removeCompletion(taskId, targetDate, derive);
       } else {
-        // Complete: add this date
-        updatedDates = [...completedDates, targetDate];
-        updates.completedDates = updatedDates;
-        updates.lastCompleted = new Date().toISOString();
-        updates.isCompleted = updatedDates.includes(today);
+        await recordCompletion(
+          { taskId, roomId: task.roomId, date: targetDate, completedBy: user?.uid, completedAt: new Date().toISOString() },
+          derive
+        );
       }
+    } catch (error) {
+      console.error("Failed to update task", error);
+      alert("Failed to update task. Please try again.");
+    }
+  };
+
+  // Claims: mark a task as started so the rest of the household sees it in progress
+  const handleClaimTask = async (taskId: string) => {
+    if (!user) return;
+    try {
+      const claimed = await claimTask(taskId, { uid: user.uid, date: getToday(), claimedAt: new Date().toISOString() });
+      if (!claimed) alert("Someone else has already started this task.");
+    } catch (error) {
+      console.error("Failed to claim task", error);
+      alert("Failed to start task. Please try again.");
+    }
+  };
 
+  const handleReleaseClaim = async (taskId: string) => {
+    if (!user) return;
+    try {
+      await releaseClaim(taskId, user.uid);
+    } catch (error) {
+      console.error("Failed to release claim", error);
+      alert("Failed to update task. Please try again.");
+    }
+  };
+
+  // Occurrence exceptions: persist the change and refresh the stored next due date
+  const applyOccurrenceChange = async (taskId: string, change: (task: Task) => Partial<Task>) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    try {
+      const updates = change(task);
+      updates.nextDueDate = getNextOccurrence({ ...task, ...updates }, getToday());
       await updateTask(taskId, updates);
     } catch (error) {
-      console.error("Failed to update task", error);
+      console.error("Failed to update occurrence", error);
       alert("Failed to update task. Please try again.");
     }
   };
 
+  const handleSkipOccurrence = (taskId: string, dates: string[]) =>
+    applyOccurrenceChange(taskId, task => skipOccurrences(task, dates));
+
+  const handleRestoreOccurrence = (taskId: string, date: string) =>
+    applyOccurrenceChange(taskId, task => restoreOccurrence(task, date));
+
+  const handleMoveOccurrence = (taskId: string, date: string, newDate: string) =>
+    applyOccurrenceChange(taskId, task => moveOccurrence(task, date, newDate));
+
   const handleSaveTask = async (taskData: Partial<Task>) => {
     try {
       const today = getToday();
       const frequency = taskData.frequency || Frequency.Weekly;
+      const existing = taskData.id ? tasks.find(t => t.id === taskData.id) : undefined;
+      const floating = taskData.recurrenceMode === 'floating';
+      const windowed = taskData.recurrenceMode === 'window';
+      const phased = frequency === Frequency.BiWeekly || frequency === Frequency.Quarterly;
 
       const taskToSave: any = {
         id: taskData.id || `task-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
@@ -218,21 +396,54 @@ const App: React.FC = () => {
         frequency,
         estimatedMinutes: taskData.estimatedMinutes || 15,
         priority: taskData.priority || 'Medium',
-        isCompleted: false,
-        completedDates: [],
+        isCompleted: existing ? isOccurrenceCompleted(existing, today) : false,
+        // Keep completion history when editing; floating tasks are scheduled from it
+        completedDates: existing?.completedDates ?? [],
         scheduledDay: taskData.scheduledDay,
-        anchorDate: taskData.anchorDate,
+        scheduledDays: taskData.scheduledDays,
+        // Floating tasks start from it; every-other-week and quarterly tasks (windows
+        // or not) are phased from it
+        anchorDate: taskData.anchorDate ?? (floating || windowed || phased ? existing?.anchorDate ?? today : undefined),
         assignedTo: taskData.assignedTo,
+        rotation: taskData.rotation,
+        recurrence: taskData.recurrence,
+        recurrenceMode: taskData.recurrenceMode,
+        floatingIntervalDays: taskData.floatingIntervalDays,
+        suggestedDay: windowed ? taskData.suggestedDay ?? existing?.suggestedDay : undefined,
+        missedPolicy: taskData.missedPolicy,
+        activeFrom: taskData.activeFrom,
+        activeUntil: taskData.activeUntil,
+        activeMonths: taskData.activeMonths,
+        timeSlot: taskData.timeSlot,
+        startTime: taskData.startTime,
+        locked: taskData.locked,
+        tags: taskData.tags,
+        phase: taskData.phase,
+        after: taskData.after ?? existing?.after,
+        skippedDates: existing?.skippedDates ?? [],
+        movedDates: existing?.movedDates ?? {},
+        lastCompleted: taskData.lastCompleted ?? existing?.lastCompleted,
+        createdAt: existing?.createdAt ?? taskData.createdAt ?? new Date().toISOString(),
       };
 
+      if (existing) {
+        // Only the fields the form changed are written, over the stored task, so a
+        // completion or claim made meanwhile is kept
+        const changed = EDITABLE_FIELDS.filter(field => JSON.stringify(taskToSave[field]) !== JSON.stringify(existing[field]));
+        const updates: Partial<Task> = Object.fromEntries(changed.map(field => [field, taskToSave[field]]));
+        const clear = changed.filter(field => taskToSave[field] === undefined);
+        await updateTaskWith(existing.id, stored => {
+          const edited: Task = { ...stored, ...updates };
+          for (const field of clear) delete edited[field];
+          return { ...updates, nextDueDate: getNextOccurrence(edited, today) };
+        }, clear);
+        return;
+      }
+
       // Compute nextDueDate and isDue from recurrence
       taskToSave.nextDueDate = getNextOccurrence(taskToSave as Task, today);
       taskToSave.isDue = isTaskDueOnDate(taskToSave as Task, today);
 
-      if (taskData.lastCompleted) {
-        taskToSave.lastCompleted = taskData.lastCompleted;
-      }
-
       await saveTask(taskToSave as Task);
     } catch (error) {
       console.error("Failed to save task", error);
@@ -240,26 +451,43 @@ const App: React.FC = () => {
     }
   };
 
-  const handleBulkSchedulerSave = async (updates: Map<string, { scheduledDay?: number; assignedTo?: string }>) => {
+  // Only the flag is written, so nothing else about the task is overwritten
+  const handleToggleLock = async (taskId: string, locked: boolean) => {
+    try {
+      await updateTask(taskId, { locked });
+    } catch (error) {
+      console.error("Failed to lock task", error);
+      alert("Failed to update task. Please try again.");
+    }
+  };
+
+  const handleBulkSchedulerSave = async (updates: Map<string, { scheduledDays?: number[]; anchorDate?: string; assignedTo?: string; locked?: boolean }>) => {
     try {
       const today = getToday();
 
-      // Apply all updates
+      // Apply all updates in one batch
+      const changes: { taskId: string; updates: Partial<Task> }[] = [];
       for (const [taskId, update] of updates.entries()) {
         const task = tasks.find(t => t.id === taskId);
         if (task) {
           const updatedTask = {
             ...task,
-            scheduledDay: update.scheduledDay !== undefined ? update.scheduledDay : task.scheduledDay,
+            ...(update.scheduledDays !== undefined ? plannedDayFields(task, update.scheduledDays) : {}),
+            anchorDate: update.anchorDate ?? task.anchorDate,
             assignedTo: update.assignedTo !== undefined ? update.assignedTo : task.assignedTo,
           };
-          await updateTask(taskId, {
+          changes.push({ taskId, updates: {
             scheduledDay: updatedTask.scheduledDay,
+            scheduledDays: updatedTask.scheduledDays,
+            suggestedDay: updatedTask.suggestedDay,
+            anchorDate: updatedTask.anchorDate,
+            ...(update.locked !== undefined ? { locked: update.locked } : {}),
             assignedTo: updatedTask.assignedTo || undefined,
             nextDueDate: getNextOccurrence(updatedTask, today),
-          });
+          } });
         }
       }
+      await updateTasks(changes);
     } catch (error) {
       console.error("Failed to apply bulk changes", error);
       throw error;
@@ -300,11 +528,15 @@ const App: React.FC = () => {
     return <HouseholdSetup />;
   }
 
+  // Bring older household data up to date before anything reads or writes it
+  if (migrations.pending) {
+    return <MigrationStatus progress={migrations.progress} onRetry={migrations.retry} />;
+  }
+
   // Show onboarding wizard for first-time households
   if (needsOnboarding && household?.id) {
     return (
       <OnboardingWizard
-        householdId={household.id}
         onComplete={completeOnboarding}
       />
     );
@@ -352,6 +584,23 @@ const App: React.FC = () => {
                 }
               </p>
 
+              {lastApplied && (
+                  <div className="mt-4 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-3 flex items-center justify-between animate-fade-in">
+                      <p className="text-sm text-slate-700 dark:text-slate-300">
+                          Schedule updated: {lastApplied.length} {lastApplied.length === 1 ? 'change' : 'changes'} applied.
+                      </p>
+                      <div className="flex items-center gap-3 text-sm">
+                          <button onClick={handleRevertSchedule} className="flex items-center gap-1 font-medium text-teal-600 hover:text-teal-700">
+                              <Undo2 size={14} />
+                              Revert
+                          </button>
+                          <button onClick={() => setLastApplied(null)} className="text-slate-400 hover:text-slate-600" title="Dismiss">
+                              <X size={16} />
+                          </button>
+                      </div>
+                  </div>
+              )}
+
               {aiAnalysis && (
                   <div className="mt-4 bg-teal-50 dark:bg-teal-900/30 border border-teal-100 dark:border-teal-800 rounded-lg p-4 flex items-start animate-fade-in">
                       <Sparkles className="text-teal-600 dark:text-teal-400 mt-0.5 mr-3 flex-shrink-0" size={18} />
@@ -364,13 +613,34 @@ const App: React.FC = () => {
           </div>
 
           {/* Dashboard Stats */}
-          {viewMode === 'rooms' && <StatsOverview tasks={tasks} members={members} />}
+          {viewMode === 'rooms' && <StatsOverview tasks={tasks} completions={recentCompletions} members={members} />}
 
           {/* Views */}
           {viewMode === 'rooms' ? (
-               <TaskList tasks={tasks} onToggleTask={handleToggleTask} onSaveTask={handleSaveTask} onDeleteTask={deleteTask} />
+               <TaskList
+                 tasks={tasks}
+                 onToggleTask={handleToggleTask}
+                 onSaveTask={handleSaveTask}
+                 onToggleLock={handleToggleLock}
+                 onDeleteTask={deleteTask}
+                 onSkipOccurrence={handleSkipOccurrence}
+                 onMoveOccurrence={handleMoveOccurrence}
+               />
+          ) : viewMode === 'calendar' ? (
+               <CalendarView
+                 tasks={tasks}
+                 onToggleTask={handleToggleTask}
+                 onSkipOccurrence={handleSkipOccurrence}
+                 onRestoreOccurrence={handleRestoreOccurrence}
+                 onMoveOccurrence={handleMoveOccurrence}
+               />
           ) : (
-               <CalendarView tasks={tasks} onToggleTask={handleToggleTask} />
+               <TodaysRoute
+                 tasks={tasks}
+                 onToggleTask={handleToggleTask}
+                 onClaimTask={handleClaimTask}
+                 onReleaseClaim={handleReleaseClaim}
+               />
           )}
 
 
@@ -403,8 +673,20 @@ const App: React.FC = () => {
           isOpen={showBulkScheduler}
           onClose={() => setShowBulkScheduler(false)}
           tasks={tasks}
+          completions={recentCompletions}
           onSaveBulkChanges={handleBulkSchedulerSave}
         />
+
+        <SchedulePreview
+          isOpen={!!schedulePreview}
+          title={schedulePreview?.title ?? ''}
+          note={schedulePreview?.note}
+          warnings={schedulePreview?.warnings}
+          tasks={tasks}
+          changes={schedulePreview?.changes ?? []}
+          onApply={handleApplySchedule}
+          onClose={() => setSchedulePreview(null)}
+        />
       </div>
     </RoomsProvider>
   );
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { householdService } from '../services/householdService';
+import { useRepository } from '../contexts/RepositoryContext';
 import { Loader2, AlertCircle, Users } from 'lucide-react';
 import TidyHomeLogo from './TidyHomeLogo';
 
 const AuthForm: React.FC = () => {
   const { signUp, signIn, signInWithGoogle } = useAuth();
+  const repository = useRepository();
   const [mode, setMode] = useState<'signin' | 'signup'>('signin');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -25,7 +26,7 @@ const AuthForm: React.FC = () => {
       setMode('signup'); // Default to signup for invite links
 
       // Look up household name
-      householdService.findHouseholdByInviteCode(upperCode)
+      repository.households.findHouseholdByInviteCode(upperCode)
         .then(household => {
           if (household) {
             setInviteHouseholdName(household.name);
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { PausePeriod, AwayPeriod } from '../types';
+import { getToday, addDays } from '../utils/recurrence';
+import { X, Check, PauseCircle, Plane, Trash2 } from 'lucide-react';
+
+type DraftKind = 'pause' | 'away';
+
+interface Draft {
+  start: string;
+  end: string;
+  label: string;
+  memberUid: string;
+  coverUid: string;
+}
+
+const inputClass = 'px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500';
+
+const formatRange = (start: string, end: string) => {
+  const format = (date: string) =>
+    new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return start === end ? format(start) : `${format(start)} – ${format(end)}`;
+};
+
+const newPeriodId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Household pauses (vacations) and member away periods. Pauses suppress every
+ * task; while a member is away their tasks are skipped or handed to someone else.
+ */
+const AwaySettings: React.FC = () => {
+  const { members, scheduleSettings, saveScheduleSettings, getMemberByUid } = useHousehold();
+  const [adding, setAdding] = useState<DraftKind | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const today = getToday();
+  // Periods that have ended no longer affect anything, so they're hidden and pruned on save
+  const pauses = scheduleSettings.pauses.filter(p => p.end >= today);
+  const awayPeriods = scheduleSettings.awayPeriods.filter(a => a.end >= today);
+
+  const startAdding = (kind: DraftKind) => {
+    setAdding(kind);
+    setDraft({ start: today, end: addDays(today, 6), label: '', memberUid: members[0]?.uid ?? '', coverUid: '' });
+  };
+
+  const cancelAdding = () => {
+    setAdding(null);
+    setDraft(null);
+  };
+
+  const save = async (changes: { pauses?: PausePeriod[]; awayPeriods?: AwayPeriod[] }) => {
+    setLoading(true);
+    try {
+      await saveScheduleSettings(changes);
+      cancelAdding();
+    } catch (err) {
+      console.error('Failed to save away periods:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!draft || !draft.start || !draft.end || draft.end < draft.start) return;
+    if (adding === 'pause') {
+      const pause: PausePeriod = { id: newPeriodId('pause'), start: draft.start, end: draft.end };
+      if (draft.label.trim()) pause.label = draft.label.trim();
+      save({ pauses: [...pauses, pause].sort((a, b) => a.start.localeCompare(b.start)) });
+    } else if (adding === 'away' && draft.memberUid) {
+      const away: AwayPeriod = { id: newPeriodId('away'), memberUid: draft.memberUid, start: draft.start, end: draft.end };
+      // Firestore rejects undefined fields, so coverUid is only set when someone covers
+      if (draft.coverUid) away.coverUid = draft.coverUid;
+      save({ awayPeriods: [...awayPeriods, away].sort((a, b) => a.start.localeCompare(b.start)) });
+    }
+  };
+
+  const isDraftValid = !!draft && !!draft.start && !!draft.end && draft.end >= draft.start && (adding === 'pause' || !!draft.memberUid);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wide">Vacation & Away</h3>
+        {!adding && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => startAdding('pause')}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-teal-600 hover:text-teal-700 bg-teal-50 hover:bg-teal-100 rounded-lg transition-colors"
+            >
+              <PauseCircle size={14} />
+              Pause
+            </button>
+            {members.length > 1 && (
+              <button
+                onClick={() => startAdding('away')}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-teal-600 hover:text-teal-700 bg-teal-50 hover:bg-teal-100 rounded-lg transition-colors"
+              >
+                <Plane size={14} />
+                Member Away
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Add Form */}
+      {adding && draft && (
+        <div className="mb-3 p-3 bg-teal-50 dark:bg-teal-900/20 border border-teal-200 dark:border-teal-800 rounded-lg space-y-2">
+          {adding === 'away' && (
+            <select
+              value={draft.memberUid}
+              onChange={(e) => setDraft({ ...draft, memberUid: e.target.value, coverUid: draft.coverUid === e.target.value ? '' : draft.coverUid })}
+              className={`${inputClass} w-full`}
+            >
+              {members.map(m => (
+                <option key={m.uid} value={m.uid}>{m.displayName}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={draft.start}
+              onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+              className={`${inputClass} flex-1`}
+            />
+            <input
+              type="date"
+              value={draft.end}
+              min={draft.start}
+              onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+              className={`${inputClass} flex-1`}
+            />
+          </div>
+          {adding === 'pause' ? (
+            <input
+              type="text"
+              value={draft.label}
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              placeholder="Label (e.g. Summer trip)"
+              className={`${inputClass} w-full`}
+            />
+          ) : (
+            <select
+              value={draft.coverUid}
+              onChange={(e) => setDraft({ ...draft, coverUid: e.target.value })}
+              className={`${inputClass} w-full`}
+            >
+              <option value="">While away: skip their tasks</option>
+              {members.filter(m => m.uid !== draft.memberUid).map(m => (
+                <option key={m.uid} value={m.uid}>While away: hand to {m.displayName}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={handleAdd}
+              disabled={!isDraftValid || loading}
+              className="px-3 py-1.5 bg-teal-600 text-white text-sm rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check size={16} />
+            </button>
+            <button
+              onClick={cancelAdding}
+              className="px-3 py-1.5 border border-slate-300 text-slate-600 text-sm rounded-lg hover:bg-slate-100 transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            {adding === 'pause'
+              ? 'No tasks are scheduled while the household is paused, and nothing carries over.'
+              : 'Their tasks are skipped for these days, or show up on the other member\'s list.'}
+          </p>
+        </div>
+      )}
+
+      {pauses.length === 0 && awayPeriods.length === 0 ? (
+        !adding && <p className="text-sm text-slate-400 dark:text-slate-500 italic">No upcoming pauses or away periods.</p>
+      ) : (
+        <div className="space-y-2">
+          {pauses.map(pause => (
+            <div key={pause.id} className="flex items-center justify-between p-3 bg-white dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg">
+              <div className="flex items-center gap-3 min-w-0">
+                <PauseCircle size={18} className="text-slate-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{pause.label || 'Household paused'}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{formatRange(pause.start, pause.end)}</p>
+                </div>
+              </div>
+              <button
+                onClick={() => save({ pauses: pauses.filter(p => p.id !== pause.id) })}
+                disabled={loading}
+                className="p-1.5 text-slate-400 hover:text-red-500 transition-colors"
+                title="Remove pause"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          {awayPeriods.map(away => {
+            const cover = away.coverUid ? getMemberByUid(away.coverUid) : undefined;
+            return (
+              <div key={away.id} className="flex items-center justify-between p-3 bg-white dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Plane size={18} className="text-slate-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">
+                      {getMemberByUid(away.memberUid)?.displayName ?? 'Former member'} away
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {formatRange(away.start, away.end)} · {cover ? `${cover.displayName} covers` : 'tasks skipped'}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => save({ awayPeriods: awayPeriods.filter(a => a.id !== away.id) })}
+                  disabled={loading}
+                  className="p-1.5 text-slate-400 hover:text-red-500 transition-colors"
+                  title="Remove away period"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AwaySettings;
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { Check, Clock } from 'lucide-react';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Starting point when budgets are switched on: weekday evenings plus a longer Saturday
+const DEFAULT_DAY_BUDGETS = [0, 45, 45, 45, 45, 45, 120];
+
+const inputClass = 'w-full px-1 py-1 text-sm text-center border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-60';
+
+const toMinutes = (value: string) => Math.max(0, parseInt(value) || 0);
+
+// A row of zeros would leave no day to schedule on
+const hasTime = (values: string[]) => values.some(value => toMinutes(value) > 0);
+
+/**
+ * Minutes of chores the household (and optionally each member) has per weekday.
+ * Balancing fills days up to these budgets; a day with 0 minutes gets no tasks.
+ */
+const BudgetSettings: React.FC = () => {
+  const { members, isAdmin, scheduleSettings, saveScheduleSettings } = useHousehold();
+  const [dayBudgets, setDayBudgets] = useState<string[]>([]);
+  const [memberBudgets, setMemberBudgets] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(false);
+
+  // Reset the drafts whenever the saved settings change
+  useEffect(() => {
+    setDayBudgets((scheduleSettings.dayBudgets ?? []).map(String));
+    const drafts: Record<string, string[]> = {};
+    for (const [uid, budgets] of Object.entries(scheduleSettings.memberBudgets ?? {})) {
+      if (budgets.length > 0) drafts[uid] = budgets.map(String);
+    }
+    setMemberBudgets(drafts);
+  }, [scheduleSettings.dayBudgets, scheduleSettings.memberBudgets]);
+
+  const enabled = dayBudgets.length > 0;
+  const emptyRow = !hasTime(dayBudgets) || Object.values(memberBudgets).some(values => !hasTime(values));
+
+  const toggleEnabled = () => {
+    // Switching off takes effect right away; switching on starts a draft to save
+    if (enabled) save([], {});
+    else setDayBudgets(DEFAULT_DAY_BUDGETS.map(String));
+  };
+
+  const toggleMember = (uid: string) => {
+    const next = { ...memberBudgets };
+    if (next[uid]) delete next[uid];
+    else next[uid] = [...dayBudgets];
+    setMemberBudgets(next);
+  };
+
+  const save = async (days: string[], byMember: Record<string, string[]>) => {
+    setLoading(true);
+    try {
+      // Cleared budgets are saved as empty lists: merged settings can't drop a key
+      const savedMembers: Record<string, number[]> = {};
+      for (const uid of Object.keys(scheduleSettings.memberBudgets ?? {})) savedMembers[uid] = [];
+      for (const [uid, budgets] of Object.entries(byMember)) savedMembers[uid] = budgets.map(toMinutes);
+      await saveScheduleSettings({ dayBudgets: days.map(toMinutes), memberBudgets: savedMembers });
+    } catch (err) {
+      console.error('Failed to save time budgets:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderRow = (values: string[], onChange: (values: string[]) => void) => (
+    <div className="grid grid-cols-7 gap-1">
+      {DAY_NAMES.map((name, day) => (
+        <input
+          key={name}
+          type="number"
+          min="0"
+          step="5"
+          value={values[day] ?? ''}
+          onChange={(e) => onChange(values.map((v, i) => (i === day ? e.target.value : v)))}
+          disabled={!isAdmin || loading}
+          className={inputClass}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wide">Time Budgets</h3>
+        {isAdmin && (
+          <button
+            onClick={toggleEnabled}
+            disabled={loading}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-teal-600 hover:text-teal-700 bg-teal-50 hover:bg-teal-100 rounded-lg transition-colors"
+          >
+            <Clock size={14} />
+            {enabled ? 'No Limit' : 'Limit Time per Day'}
+          </button>
+        )}
+      </div>
+
+      {!enabled ? (
+        <p className="text-sm text-slate-400 dark:text-slate-500 italic">
+          No daily limit. Balancing spreads tasks evenly across Monday to Saturday.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-7 gap-1 text-xs font-medium text-slate-500 dark:text-slate-400 text-center">
+            {DAY_NAMES.map(name => <span key={name}>{name}</span>)}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Household (minutes)</label>
+            {renderRow(dayBudgets, setDayBudgets)}
+          </div>
+
+          {members.length > 1 && members.map(member => (
+            <div key={member.uid}>
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">
+                <input
+                  type="checkbox"
+                  checked={!!memberBudgets[member.uid]}
+                  onChange={() => toggleMember(member.uid)}
+                  disabled={!isAdmin || loading}
+                />
+                {member.displayName}'s own limit
+              </label>
+              {memberBudgets[member.uid] && renderRow(memberBudgets[member.uid], values => setMemberBudgets({ ...memberBudgets, [member.uid]: values }))}
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between gap-3">
+            {emptyRow ? (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                Every limit needs some minutes on at least one day. Switch it off instead for no limit.
+              </p>
+            ) : (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Balancing fills each day up to its budget and splits rooms across days when needed.
+                Days with 0 minutes get no tasks.
+              </p>
+            )}
+            {isAdmin && (
+              <button
+                onClick={() => save(dayBudgets, memberBudgets)}
+                disabled={loading || emptyRow}
+                className="flex-shrink-0 px-3 py-1.5 bg-teal-600 text-white text-sm rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetSettings;
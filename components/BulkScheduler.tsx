@@ -1,18 +1,24 @@
 import React, { useState, useMemo } from 'react';
-import { Task, Frequency, Room } from '../types';
-import { X, Calendar, Users, Save, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { Task, Frequency, Room, Rotation, CompletionEvent } from '../types';
+import { X, Calendar, Users, Save, RefreshCw, ChevronDown, ChevronRight, Scale, AlertTriangle, Lock, Unlock, Repeat } from 'lucide-react';
 import { useHousehold } from '../contexts/HouseholdContext';
 import { useRooms } from '../contexts/RoomsContext';
+import RotationEditor from './RotationEditor';
+import { canDoTask, describeIneligibility } from '../utils/eligibility';
+import { isFloating, isWindowed, getPlannedDays, plannedDayFields, getToday, dayOfMonth, dayOfWeek } from '../utils/recurrence';
+import { optimizeWeeklySchedule, optimizeMemberSchedule, optimizeMonthlySchedule, applyAssignments, applyRoomLocks, getMemberShares, getFairnessLedger, getBudgetedDays, getDayBudgets, getDailyLoad, getMonthlyHorizon, describeAssignmentReason, MONTHLY_HORIZON, BalanceMode, AssignmentReason } from '../utils/scheduler';
 
 interface BulkSchedulerProps {
   isOpen: boolean;
   onClose: () => void;
   tasks: Task[];
-  onSaveBulkChanges: (updates: Map<string, { scheduledDay?: number; assignedTo?: string }>) => Promise<void>;
+  completions: CompletionEvent[]; // Over the fairness window, for balancing members
+  onSaveBulkChanges: (updates: Map<string, { scheduledDays?: number[]; anchorDate?: string; assignedTo?: string; locked?: boolean }>) => Promise<void>;
 }
 
 const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 const DAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
 interface RoomSchedule {
   roomId: string;
@@ -26,13 +32,17 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
   isOpen,
   onClose,
   tasks,
+  completions,
   onSaveBulkChanges,
 }) => {
-  const { members } = useHousehold();
-  const { rooms, getRoomById } = useRooms();
-  const [pendingChanges, setPendingChanges] = useState<Map<string, { scheduledDay?: number; assignedTo?: string }>>(new Map());
+  const { members, scheduleSettings } = useHousehold();
+  const { rooms, getRoomById, updateRoom } = useRooms();
+  const [pendingChanges, setPendingChanges] = useState<Map<string, { scheduledDays?: number[]; anchorDate?: string; assignedTo?: string; locked?: boolean }>>(new Map());
   const [expandedRooms, setExpandedRooms] = useState<Set<string>>(new Set());
   const [isSaving, setIsSaving] = useState(false);
+  const [unfitTasks, setUnfitTasks] = useState<Task[]>([]);
+  const [assignmentReasons, setAssignmentReasons] = useState<Map<string, AssignmentReason>>(new Map());
+  const [rotationDraft, setRotationDraft] = useState<{ roomId: string; rotation: Rotation } | null>(null);
 
   // Group tasks by room
   const roomSchedules = useMemo((): RoomSchedule[] => {
@@ -51,11 +61,11 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
       const roomName = room?.name || roomTasks[0]?.room || 'General';
 
       const weeklyTasks = roomTasks.filter(t =>
-        t.frequency === Frequency.Weekly || t.frequency === Frequency.BiWeekly
+        (t.frequency === Frequency.Weekly || t.frequency === Frequency.BiWeekly) && !isFloating(t)
       );
 
       const monthlyTasks = roomTasks.filter(t =>
-        t.frequency === Frequency.Monthly || t.frequency === Frequency.Quarterly
+        (t.frequency === Frequency.Monthly || t.frequency === Frequency.Quarterly) && !isFloating(t)
       );
 
       return {
@@ -68,6 +78,21 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
     }).sort((a, b) => a.roomName.localeCompare(b.roomName));
   }, [tasks, getRoomById]);
 
+  const getTaskScheduledDays = (task: Task): number[] => {
+    const change = pendingChanges.get(task.id);
+    return change?.scheduledDays ?? getPlannedDays(task);
+  };
+
+  const getTaskAssignee = (task: Task): string => {
+    const change = pendingChanges.get(task.id);
+    return change?.assignedTo ?? task.assignedTo ?? '';
+  };
+
+  const getTaskLocked = (task: Task): boolean => {
+    const change = pendingChanges.get(task.id);
+    return change?.locked ?? !!task.locked;
+  };
+
   // Calculate workload by day
   const workloadByDay = useMemo(() => {
     const workload = new Map<number, { minutes: number; tasks: number; rooms: Set<string> }>();
@@ -77,10 +102,9 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
     }
 
     tasks.forEach(task => {
-      const change = pendingChanges.get(task.id);
-      const scheduledDay = change?.scheduledDay ?? task.scheduledDay;
+      if ((task.frequency !== Frequency.Weekly && task.frequency !== Frequency.BiWeekly) || isFloating(task)) return;
 
-      if (scheduledDay !== undefined && (task.frequency === Frequency.Weekly || task.frequency === Frequency.BiWeekly)) {
+      for (const scheduledDay of getTaskScheduledDays(task)) {
         const day = workload.get(scheduledDay)!;
         day.minutes += task.estimatedMinutes;
         day.tasks += 1;
@@ -91,7 +115,67 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
     return workload;
   }, [tasks, pendingChanges, getRoomById]);
 
-  const maxWorkload = Math.max(...Array.from(workloadByDay.values()).map(w => w.minutes), 1);
+  const dayBudgets = getDayBudgets(scheduleSettings);
+  // Bars share one scale with the budget lines so both can be compared at a glance
+  const maxWorkload = Math.max(...Array.from(workloadByDay.values()).map(w => w.minutes), ...(dayBudgets ?? []), 1);
+
+  // The tasks as they'll be once the pending changes are saved
+  const editedTasks = useMemo(() => tasks.map(task => {
+    const change = pendingChanges.get(task.id);
+    if (!change) return task;
+    return {
+      ...task,
+      ...(change.scheduledDays ? plannedDayFields(task, change.scheduledDays) : {}),
+      ...(change.anchorDate ? { anchorDate: change.anchorDate } : {}),
+      ...('assignedTo' in change ? { assignedTo: change.assignedTo } : {}),
+      ...(change.locked !== undefined ? { locked: change.locked } : {}),
+    };
+  }), [tasks, pendingChanges]);
+
+  // Busiest date for each day of the month over the monthly horizon, and the month-day tasks on it
+  const workloadByMonthDay = useMemo(() => {
+    const { start, end } = getMonthlyHorizon(getToday());
+    const load = getDailyLoad(editedTasks, start, end);
+    const peaks = Array.from({ length: 31 }, (_, i) => ({ day: i + 1, minutes: 0, date: '', overBudget: false, tasks: [] as Task[] }));
+    for (const [date, minutes] of load) {
+      const peak = peaks[dayOfMonth(date) - 1];
+      if (minutes > peak.minutes) {
+        peak.minutes = minutes;
+        peak.date = date;
+      }
+      const budget = dayBudgets?.[dayOfWeek(date)];
+      if (budget !== undefined && minutes > budget) peak.overBudget = true;
+    }
+    editedTasks.forEach(task => {
+      if ((task.frequency !== Frequency.Monthly && task.frequency !== Frequency.Quarterly) || isFloating(task)) return;
+      for (const day of getPlannedDays(task)) peaks[day - 1]?.tasks.push(task);
+    });
+    return peaks;
+  }, [editedTasks, dayBudgets]);
+
+  const maxMonthDayLoad = Math.max(...workloadByMonthDay.map(d => d.minutes), 1);
+
+  // Weekly minutes per member against their share of the household's weekly work
+  const workloadByMember = useMemo(() => {
+    const shares = getMemberShares(members, scheduleSettings);
+    const totalShare = shares.reduce((sum, m) => sum + m.share, 0);
+    let totalMinutes = 0;
+    const minutesByMember = new Map<string, number>();
+
+    tasks.forEach(task => {
+      if ((task.frequency !== Frequency.Weekly && task.frequency !== Frequency.BiWeekly) || isFloating(task)) return;
+      const minutes = task.estimatedMinutes * getTaskScheduledDays(task).length;
+      totalMinutes += minutes;
+      const assignee = getTaskAssignee(task);
+      if (assignee) minutesByMember.set(assignee, (minutesByMember.get(assignee) ?? 0) + minutes);
+    });
+
+    return members.map((member, i) => ({
+      member,
+      minutes: minutesByMember.get(member.uid) ?? 0,
+      target: totalShare > 0 ? Math.round((totalMinutes * shares[i].share) / totalShare) : 0,
+    }));
+  }, [tasks, pendingChanges, members, scheduleSettings]);
 
   const toggleRoomExpanded = (roomId: string) => {
     const newExpanded = new Set(expandedRooms);
@@ -103,23 +187,55 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
     setExpandedRooms(newExpanded);
   };
 
-  const getTaskScheduledDay = (task: Task): number | undefined => {
-    const change = pendingChanges.get(task.id);
-    return change?.scheduledDay ?? task.scheduledDay;
+  const updateTaskSchedule = (taskId: string, scheduledDays: number[]) => {
+    if (scheduledDays.length === 0) return; // A scheduled task keeps at least one day
+    const newChanges = new Map(pendingChanges);
+    const existing = newChanges.get(taskId) || {};
+    newChanges.set(taskId, { ...existing, scheduledDays: [...scheduledDays].sort((a, b) => a - b) });
+    setPendingChanges(newChanges);
   };
 
-  const getTaskAssignee = (task: Task): string => {
-    const change = pendingChanges.get(task.id);
-    return change?.assignedTo ?? task.assignedTo ?? '';
+  // A window task only has the one suggested day
+  const toggleTaskDay = (task: Task, dayIndex: number) => {
+    if (isWindowed(task)) return updateTaskSchedule(task.id, [dayIndex]);
+    const days = getTaskScheduledDays(task);
+    updateTaskSchedule(task.id, days.includes(dayIndex) ? days.filter(d => d !== dayIndex) : [...days, dayIndex]);
   };
 
-  const updateTaskSchedule = (taskId: string, scheduledDay: number | undefined) => {
+  // Month days are typed as a list, e.g. "1, 15"
+  const parseMonthDays = (value: string): number[] =>
+    Array.from(new Set(
+      value.split(/[\s,/]+/).map(v => parseInt(v)).filter(d => d >= 1 && d <= 31)
+    ));
+
+  const toggleTaskLock = (task: Task) => {
     const newChanges = new Map(pendingChanges);
-    const existing = newChanges.get(taskId) || {};
-    newChanges.set(taskId, { ...existing, scheduledDay });
+    const existing = newChanges.get(task.id) || {};
+    newChanges.set(task.id, { ...existing, locked: !getTaskLocked(task) });
     setPendingChanges(newChanges);
   };
 
+  // Room locks aren't part of the pending changes: they're saved on the room right away
+  const toggleRoomLock = async (room: Room) => {
+    try {
+      await updateRoom(room.id, { locked: !room.locked });
+    } catch (error) {
+      console.error('Failed to update room lock:', error);
+      alert('Failed to update room. Please try again.');
+    }
+  };
+
+  // Room rotations are saved on the room right away too; null removes a saved one
+  const saveRoomRotation = async (room: Room, rotation: Rotation | null) => {
+    try {
+      await updateRoom(room.id, { rotation });
+      setRotationDraft(null);
+    } catch (error) {
+      console.error('Failed to update room rotation:', error);
+      alert('Failed to update room. Please try again.');
+    }
+  };
+
   const updateTaskAssignee = (taskId: string, assignedTo: string) => {
     const newChanges = new Map(pendingChanges);
     const existing = newChanges.get(taskId) || {};
@@ -130,19 +246,58 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
   const bulkAssignRoomToDay = (roomSchedule: RoomSchedule, dayIndex: number) => {
     const newChanges = new Map(pendingChanges);
     roomSchedule.weeklyTasks.forEach(task => {
+      // Tasks done several days a week keep their other days
       const existing = newChanges.get(task.id) || {};
-      newChanges.set(task.id, { ...existing, scheduledDay: dayIndex });
+      const days = getTaskScheduledDays(task);
+      const scheduledDays = days.length > 1 ? Array.from(new Set([dayIndex, ...days.slice(1)])).sort((a, b) => a - b) : [dayIndex];
+      newChanges.set(task.id, { ...existing, scheduledDays });
     });
     setPendingChanges(newChanges);
   };
 
+  // Tasks the member isn't allowed are left as they are
   const bulkAssignRoomToMember = (roomSchedule: RoomSchedule, memberUid: string) => {
+    const member = members.find(m => m.uid === memberUid);
     const newChanges = new Map(pendingChanges);
+    const skipped: Task[] = [];
     roomSchedule.tasks.forEach(task => {
+      if (member && !canDoTask(task, member)) {
+        skipped.push(task);
+        return;
+      }
       const existing = newChanges.get(task.id) || {};
       newChanges.set(task.id, { ...existing, assignedTo: memberUid || undefined });
     });
     setPendingChanges(newChanges);
+    if (member && skipped.length > 0) {
+      alert(`${member.displayName} isn't allowed these, so they weren't reassigned:\n${skipped.map(t => `• ${t.description} (${describeIneligibility(t, member)})`).join('\n')}`);
+    }
+  };
+
+  // Runs the optimizers over the tasks as currently edited and stages their result as pending changes
+  const handleAutoBalance = (mode: BalanceMode) => {
+    const days = getBudgetedDays(scheduleSettings);
+    const current = applyRoomLocks(editedTasks, rooms);
+    const ledger = getFairnessLedger(tasks, completions, getMemberShares(members, scheduleSettings), getToday());
+    const weekly = mode === 'members'
+      ? optimizeMemberSchedule(current, getMemberShares(members, scheduleSettings, ledger), days)
+      : optimizeWeeklySchedule(current, days, undefined, dayBudgets);
+    const monthly = optimizeMonthlySchedule(applyAssignments(current, weekly), getToday(), dayBudgets);
+    const assignments = [...weekly, ...monthly];
+
+    const newChanges = new Map(pendingChanges);
+    for (const { taskId, scheduledDay, scheduledDays, anchorDate, assignedTo } of assignments) {
+      const existing = newChanges.get(taskId) || {};
+      newChanges.set(taskId, {
+        ...existing,
+        scheduledDays: scheduledDays ?? [scheduledDay],
+        ...(anchorDate ? { anchorDate } : {}),
+        ...(assignedTo ? { assignedTo } : {}),
+      });
+    }
+    setPendingChanges(newChanges);
+    setUnfitTasks(assignments.filter(a => a.overBudget).map(a => editedTasks.find(t => t.id === a.taskId)!).filter(Boolean));
+    setAssignmentReasons(new Map(assignments.filter(a => a.reason).map(a => [a.taskId, a.reason!])));
   };
 
   const handleSave = async () => {
@@ -161,6 +316,8 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
 
   const handleReset = () => {
     setPendingChanges(new Map());
+    setUnfitTasks([]);
+    setAssignmentReasons(new Map());
   };
 
   if (!isOpen) return null;
@@ -216,6 +373,7 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
 
               {roomSchedules.map(roomSchedule => {
                 const isExpanded = expandedRooms.has(roomSchedule.roomId);
+                const room = getRoomById(roomSchedule.roomId);
 
                 return (
                   <div
@@ -241,6 +399,20 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
                             {roomSchedule.tasks.length} tasks
                           </span>
                         </button>
+                        {room && (
+                          <button
+                            onClick={() => toggleRoomLock(room)}
+                            className={`flex items-center gap-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+                              room.locked
+                                ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+                                : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+                            }`}
+                            title={room.locked ? 'Room locked: balancing leaves its tasks alone' : 'Lock room so balancing leaves its tasks alone'}
+                          >
+                            {room.locked ? <Lock size={14} /> : <Unlock size={14} />}
+                            {room.locked && 'Locked'}
+                          </button>
+                        )}
                       </div>
 
                       {/* Quick Room Actions */}
@@ -275,6 +447,49 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
                               {member.displayName}
                             </button>
                           ))}
+                          {room && (
+                            <button
+                              onClick={() => setRotationDraft(rotationDraft?.roomId === room.id ? null : {
+                                roomId: room.id,
+                                rotation: room.rotation ?? { memberUids: members.map(m => m.uid), every: 1, unit: 'weeks', startDate: getToday() },
+                              })}
+                              className={`flex items-center gap-1 px-3 py-1 text-xs font-medium border rounded transition-colors ${
+                                room.rotation
+                                  ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-400'
+                                  : 'bg-white dark:bg-slate-700 border-slate-300 dark:border-slate-600 hover:border-indigo-500 hover:text-indigo-700'
+                              }`}
+                              title="Members take turns at this room's unassigned tasks"
+                            >
+                              <Repeat size={12} />
+                              {room.rotation ? 'Taking turns' : 'Take turns'}
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {room && rotationDraft?.roomId === room.id && (
+                        <div className="mt-3 p-3 bg-white dark:bg-slate-800 border border-indigo-200 dark:border-indigo-800 rounded-lg space-y-3">
+                          <RotationEditor
+                            value={rotationDraft.rotation}
+                            onChange={rotation => setRotationDraft({ roomId: room.id, rotation })}
+                          />
+                          <div className="flex justify-end gap-2">
+                            {room.rotation && (
+                              <button
+                                onClick={() => saveRoomRotation(room, null)}
+                                className="px-3 py-1.5 text-xs text-red-600 hover:text-red-700"
+                              >
+                                Stop Rotating
+                              </button>
+                            )}
+                            <button
+                              onClick={() => saveRoomRotation(room, rotationDraft.rotation)}
+                              disabled={rotationDraft.rotation.memberUids.length === 0}
+                              className="px-3 py-1.5 text-xs font-medium bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Save Rotation
+                            </button>
+                          </div>
                         </div>
                       )}
                     </div>
@@ -283,10 +498,11 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
                     {isExpanded && (
                       <div className="p-4 space-y-2">
                         {roomSchedule.tasks.map(task => {
-                          const scheduledDay = getTaskScheduledDay(task);
+                          const scheduledDays = getTaskScheduledDays(task);
                           const assignee = getTaskAssignee(task);
-                          const isWeeklyOrBiWeekly = task.frequency === Frequency.Weekly || task.frequency === Frequency.BiWeekly;
-                          const isMonthlyOrQuarterly = task.frequency === Frequency.Monthly || task.frequency === Frequency.Quarterly;
+                          const isWeeklyOrBiWeekly = (task.frequency === Frequency.Weekly || task.frequency === Frequency.BiWeekly) && !isFloating(task);
+                          const isMonthlyOrQuarterly = (task.frequency === Frequency.Monthly || task.frequency === Frequency.Quarterly) && !isFloating(task);
+                          const isLocked = getTaskLocked(task);
 
                           return (
                             <div
@@ -298,56 +514,87 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
                                   {task.description}
                                 </p>
                                 <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-                                  {task.frequency} • {task.estimatedMinutes}min
+                                  {task.frequency} • {task.estimatedMinutes}min{isWindowed(task) && ' • anytime, day is a suggestion'}
                                 </p>
                               </div>
 
+                              {/* Lock Toggle */}
+                              {(isWeeklyOrBiWeekly || isMonthlyOrQuarterly) && (
+                                <button
+                                  type="button"
+                                  onClick={() => toggleTaskLock(task)}
+                                  disabled={room?.locked}
+                                  className={`flex-shrink-0 p-1.5 rounded transition-colors disabled:opacity-50 ${
+                                    isLocked || room?.locked
+                                      ? 'text-amber-600 bg-amber-50 dark:bg-amber-900/30'
+                                      : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+                                  }`}
+                                  title={room?.locked ? 'Locked with its room' : isLocked ? 'Locked: balancing leaves it alone' : 'Lock so balancing leaves it alone'}
+                                >
+                                  {isLocked || room?.locked ? <Lock size={14} /> : <Unlock size={14} />}
+                                </button>
+                              )}
+
                               {/* Day Selector */}
                               {isWeeklyOrBiWeekly && (
-                                <div className="flex-shrink-0">
-                                  <select
-                                    value={scheduledDay ?? ''}
-                                    onChange={(e) => updateTaskSchedule(task.id, e.target.value ? parseInt(e.target.value) : undefined)}
-                                    className="text-sm px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white dark:bg-slate-700 dark:text-slate-200"
-                                  >
-                                    <option value="">No day set</option>
-                                    {DAY_NAMES.map((day, idx) => (
-                                      <option key={idx} value={idx}>
-                                        {day}
-                                      </option>
-                                    ))}
-                                  </select>
+                                <div className="flex-shrink-0 flex gap-0.5">
+                                  {DAY_LETTERS.map((letter, idx) => (
+                                    <button
+                                      key={idx}
+                                      type="button"
+                                      onClick={() => toggleTaskDay(task, idx)}
+                                      title={DAY_NAMES[idx]}
+                                      className={`w-7 h-7 text-xs font-medium rounded transition-colors ${
+                                        scheduledDays.includes(idx)
+                                          ? 'bg-teal-600 text-white'
+                                          : 'bg-white dark:bg-slate-700 text-slate-500 dark:text-slate-300 border border-slate-300 dark:border-slate-600 hover:border-teal-500'
+                                      }`}
+                                    >
+                                      {letter}
+                                    </button>
+                                  ))}
                                 </div>
                               )}
 
                               {isMonthlyOrQuarterly && (
                                 <div className="flex-shrink-0">
                                   <input
-                                    type="number"
-                                    min="1"
-                                    max="31"
-                                    value={scheduledDay ?? ''}
-                                    onChange={(e) => updateTaskSchedule(task.id, e.target.value ? parseInt(e.target.value) : undefined)}
-                                    placeholder="Day"
-                                    className="w-20 text-sm px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                                    key={scheduledDays.join(',')}
+                                    type="text"
+                                    defaultValue={scheduledDays.join(', ')}
+                                    onBlur={(e) => updateTaskSchedule(task.id, parseMonthDays(e.target.value))}
+                                    placeholder="Days, e.g. 1, 15"
+                                    title="Days of the month, separated by commas"
+                                    className="w-28 text-sm px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
                                   />
                                 </div>
                               )}
 
                               {/* Member Selector */}
-                              {members.length > 1 && (
+                              {members.length > 1 && task.rotation?.memberUids.length ? (
+                                <span className="flex-shrink-0 flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400" title="Edit the task to change its rotation">
+                                  <Repeat size={12} />
+                                  Takes turns
+                                </span>
+                              ) : members.length > 1 && (
                                 <div className="flex-shrink-0">
                                   <select
                                     value={assignee}
                                     onChange={(e) => updateTaskAssignee(task.id, e.target.value)}
+                                    title={assignmentReasons.has(task.id) && assignee
+                                      ? describeAssignmentReason(assignmentReasons.get(task.id)!, members.find(m => m.uid === assignee)?.displayName ?? 'Former member')
+                                      : undefined}
                                     className="text-sm px-3 py-1.5 border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
                                   >
-                                    <option value="">Everyone</option>
-                                    {members.map(member => (
-                                      <option key={member.uid} value={member.uid}>
-                                        {member.displayName}
-                                      </option>
-                                    ))}
+                                    <option value="">{room?.rotation ? 'Room rotation' : 'Everyone'}</option>
+                                    {members.map(member => {
+                                      const ineligible = describeIneligibility(task, member);
+                                      return (
+                                        <option key={member.uid} value={member.uid} disabled={!!ineligible && member.uid !== assignee}>
+                                          {member.displayName}{ineligible ? ` (${ineligible})` : ''}
+                                        </option>
+                                      );
+                                    })}
                                   </select>
                                 </div>
                               )}
@@ -364,13 +611,75 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
             {/* Right: Weekly workload visualization */}
             <div className="lg:col-span-1">
               <div className="sticky top-0">
-                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
-                  Weekly Workload
-                </h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                    Weekly Workload
+                  </h3>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleAutoBalance('days')}
+                      className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 rounded transition-colors"
+                      title="Spread weekly tasks evenly across days"
+                    >
+                      <Scale size={12} />
+                      Days
+                    </button>
+                    {members.length > 1 && (
+                      <button
+                        onClick={() => handleAutoBalance('members')}
+                        className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 rounded transition-colors"
+                        title="Share weekly tasks out between members, by day"
+                      >
+                        <Users size={12} />
+                        Members
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Per-member load vs. share */}
+                {members.length > 1 && (
+                  <div className="mb-4 p-3 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 space-y-2">
+                    {workloadByMember.map(({ member, minutes, target }) => (
+                      <div key={member.uid}>
+                        <div className="flex items-center justify-between text-xs mb-1">
+                          <span className="font-medium text-slate-700 dark:text-slate-300 truncate">{member.displayName}</span>
+                          <span className={minutes > target * 1.2 ? 'text-amber-600 font-medium' : 'text-slate-500'}>
+                            {minutes} / {target}min
+                          </span>
+                        </div>
+                        <div className="w-full bg-slate-100 dark:bg-slate-700 rounded-full h-1.5">
+                          <div
+                            className="bg-indigo-500 h-1.5 rounded-full transition-all duration-300"
+                            style={{ width: `${target > 0 ? Math.min(100, (minutes / target) * 100) : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Tasks the last auto-balance couldn't fit in the budgets */}
+                {unfitTasks.length > 0 && (
+                  <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+                    <p className="flex items-center gap-1.5 text-xs font-semibold text-amber-800 dark:text-amber-300 mb-1">
+                      <AlertTriangle size={12} />
+                      Didn't fit in the time budgets
+                    </p>
+                    <ul className="text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+                      {unfitTasks.map(task => (
+                        <li key={task.id}>{task.description} · {task.estimatedMinutes}min</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="space-y-3">
                   {Array.from(workloadByDay.entries()).map(([dayIndex, workload]) => {
                     const barHeight = (workload.minutes / maxWorkload) * 100;
                     const rooms = Array.from(workload.rooms);
+                    const budget = dayBudgets?.[dayIndex];
+                    const isOver = budget !== undefined && workload.minutes > budget;
 
                     return (
                       <div key={dayIndex} className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-3">
@@ -378,18 +687,28 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
                           <span className="text-sm font-semibold text-slate-900 dark:text-slate-100">
                             {DAY_NAMES[dayIndex]}
                           </span>
-                          <span className="text-xs text-slate-600 font-medium">
-                            {workload.minutes}min
+                          <span className={`text-xs font-medium ${isOver ? 'text-red-600' : 'text-slate-600'}`}>
+                            {budget !== undefined ? `${workload.minutes} / ${budget}min` : `${workload.minutes}min`}
                           </span>
                         </div>
 
-                        {/* Progress Bar */}
-                        <div className="w-full bg-slate-100 dark:bg-slate-700 rounded-full h-2 mb-2">
+                        {/* Progress Bar, with the day's budget as a marker */}
+                        <div className="relative w-full bg-slate-100 dark:bg-slate-700 rounded-full h-2 mb-2">
                           <div
-                            className="bg-teal-500 h-2 rounded-full transition-all duration-300"
+                            className={`${isOver ? 'bg-red-500' : 'bg-teal-500'} h-2 rounded-full transition-all duration-300`}
                             style={{ width: `${barHeight}%` }}
                           />
+                          {budget !== undefined && (
+                            <div
+                              className="absolute -top-0.5 h-3 w-0.5 bg-slate-700 dark:bg-slate-300"
+                              style={{ left: `${(budget / maxWorkload) * 100}%` }}
+                              title={`Budget: ${budget}min`}
+                            />
+                          )}
                         </div>
+                        {isOver && (
+                          <p className="text-[10px] text-red-600 font-medium mb-1">{workload.minutes - budget!}min over budget</p>
+                        )}
 
                         <div className="text-xs text-slate-600">
                           {workload.tasks} {workload.tasks === 1 ? 'task' : 'tasks'}
@@ -405,6 +724,35 @@ const BulkScheduler: React.FC<BulkSchedulerProps> = ({
                   })}
                 </div>
 
+                {/* Monthly workload: busiest date per day of the month */}
+                <div className="mt-4 p-3 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700">
+                  <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                    Monthly Workload
+                  </h4>
+                  <p className="text-[10px] text-slate-500 dark:text-slate-400 mb-2">
+                    Busiest date for each day of the month, next {MONTHLY_HORIZON} months. Dots mark monthly and quarterly tasks.
+                  </p>
+                  <div className="grid grid-cols-7 gap-1">
+                    {workloadByMonthDay.map(({ day, minutes, date, overBudget, tasks: dayTasks }) => (
+                      <div
+                        key={day}
+                        title={[
+                          date ? `${minutes}min on ${new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}` : 'Nothing scheduled',
+                          ...dayTasks.map(t => `• ${t.description} (${t.frequency})`),
+                        ].join('\n')}
+                        className={`relative rounded p-1 text-center ${overBudget ? 'ring-1 ring-red-500' : ''}`}
+                        style={{ backgroundColor: `rgba(20, 184, 166, ${0.1 + 0.6 * (minutes / maxMonthDayLoad)})` }}
+                      >
+                        <div className="text-[10px] text-slate-500 dark:text-slate-300">{day}</div>
+                        <div className="text-[10px] font-semibold text-slate-800 dark:text-slate-100">{minutes}</div>
+                        {dayTasks.length > 0 && (
+                          <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-indigo-500" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Summary */}
                 <div className="mt-4 p-4 bg-teal-50 dark:bg-teal-900/30 border border-teal-200 dark:border-teal-800 rounded-lg">
                   <h4 className="text-sm font-semibold text-teal-900 dark:text-teal-300 mb-2">
@@ -1,18 +1,38 @@
 import React, { useMemo, useState } from 'react';
-import { Task } from '../types';
-import { isTaskDueOnDate, isOccurrenceCompleted, getToday, addDays } from '../utils/recurrence';
-import { Calendar, Clock, CheckCircle2, Circle, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { Task, TimeSlot, Frequency } from '../types';
+import { getOccurrencesByDate, isOccurrenceCompleted, getToday, addDays, isFloating, getFloatingIntervalDays, getOriginalDate, getSnoozeDate, getOccurrenceAssignee, getPauseOn, isWindowed, getTaskWindow, getWindowCompletion, isTaskDueOnDate } from '../utils/recurrence';
+import { Calendar, Clock, CheckCircle2, Circle, AlertCircle, AlertTriangle, ChevronDown, ChevronRight, RotateCcw, SkipForward, AlarmClock, CalendarClock, CalendarRange, Undo2, Check, X } from 'lucide-react';
+import { TIME_SLOTS, getTaskSlot, compareBySlot, formatTaskSlot } from '../utils/scheduler';
 import { useHousehold } from '../contexts/HouseholdContext';
 import { useRooms } from '../contexts/RoomsContext';
+import { compareRoomsByRoute, sequenceRoomTasks } from '../utils/route';
 
 interface CalendarViewProps {
   tasks: Task[];
   onToggleTask: (taskId: string, date: string) => void;
+  onSkipOccurrence: (taskId: string, dates: string[]) => void;
+  onRestoreOccurrence: (taskId: string, date: string) => void;
+  onMoveOccurrence: (taskId: string, date: string, newDate: string) => void;
 }
 
-const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onToggleTask }) => {
+// Position of a slot through the day; tasks without a slot come last
+const slotOrder = (slot?: TimeSlot) => {
+  const index = TIME_SLOTS.findIndex(s => s.value === slot);
+  return index === -1 ? TIME_SLOTS.length : index;
+};
+
+const DAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// "Wed" for weekly windows, "the 12th" for monthly ones
+const formatSuggestedDay = (task: Task, day: number) => {
+  if (task.frequency === Frequency.Weekly || task.frequency === Frequency.BiWeekly) return DAY_SHORT[day];
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `the ${day}${suffix}`;
+};
+
+const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onToggleTask, onSkipOccurrence, onRestoreOccurrence, onMoveOccurrence }) => {
   const { members, getMemberByUid } = useHousehold();
-  const { getRoomById } = useRooms();
+  const { rooms, getRoomById } = useRooms();
   const showAssignees = members.length > 1;
   const today = getToday();
 
@@ -25,8 +45,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onToggleTask }) => {
     return task.room || 'General';
   };
 
-  // Track collapsed groups: "YYYY-MM-DD::RoomName"
+  // Track collapsed groups: "YYYY-MM-DD::RoomName" (or "YYYY-MM-DD::slot::RoomName")
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  // Occurrence being moved to another day
+  const [moving, setMoving] = useState<{ taskId: string; date: string; newDate: string } | null>(null);
 
   const toggleGroup = (date: string, room: string) => {
     const key = `${date}::${room}`;
@@ -39,20 +61,54 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onToggleTask }) => {
     setCollapsedGroups(newSet);
   };
 
-  // Generate task instances for each day using the recurrence engine
+  // Generate task instances for each day using the recurrence engine. Window tasks
+  // are due every day until done, so they go in the tray instead of on the days.
   const calendarDays = useMemo(() => {
-    const days: { date: string; tasks: Task[] }[] = [];
+    const days: { date: string; tasks: Task[]; skipped: Task[] }[] = [];
+    // Expand each task's rule once over the whole window
+    const occurrences = getOccurrencesByDate(tasks.filter(t => !isWindowed(t)), today, addDays(today, 6));
 
     for (let i = 0; i < 7; i++) {
-      const dateStr = addDays(today, i);
-      // Find all tasks that have an occurrence on this date
-      const dayTasks = tasks.filter(task => isTaskDueOnDate(task, dateStr));
-      days.push({ date: dateStr, tasks: dayTasks });
+      const date = addDays(today, i);
+      days.push({ date, tasks: occurrences.get(date) ?? [], skipped: [] });
+    }
+
+    for (const task of tasks) {
+      for (const date of task.skippedDates ?? []) {
+        days.find(d => d.date === date)?.skipped.push(task);
+      }
     }
 
     return days;
   }, [tasks, today]);
 
+  // Window tasks whose window is open today: still due, or already done in it
+  const windowTray = useMemo(() => tasks
+    .filter(isWindowed)
+    .map(task => ({ task, window: getTaskWindow(task, today), doneOn: getWindowCompletion(task, today) }))
+    .filter(({ task, doneOn }) => doneOn || isTaskDueOnDate(task, today))
+    .sort((a, b) => a.window.end.localeCompare(b.window.end) || a.task.description.localeCompare(b.task.description)),
+  [tasks, today]);
+
+  // Missed occurrences carried into today. Stacked misses each get a row; a collapsed
+  // miss merges into today's occurrence when the task is also scheduled today.
+  const carriedOver = useMemo(() => {
+    const scheduledToday = new Set([...calendarDays[0].tasks, ...windowTray.map(w => w.task)].map(t => t.id));
+    const items: { task: Task; date: string }[] = [];
+    for (const task of tasks) {
+      if (!task.isOverdue) continue;
+      if (task.missedPolicy === 'stack' && !isFloating(task)) {
+        task.missedDates?.forEach(date => items.push({ task, date }));
+      } else if (!scheduledToday.has(task.id)) {
+        items.push({ task, date: today });
+      }
+    }
+    return items.sort((a, b) => a.date.localeCompare(b.date));
+  }, [tasks, calendarDays, windowTray, today]);
+
+  const formatShortDate = (dateStr: string) =>
+    new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
   const formatDate = (dateStr: string) => {
     const d = new Date(dateStr + 'T00:00:00');
     const dayName = d.toLocaleDateString('en-US', { weekday: 'long' });
@@ -68,18 +124,97 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onToggleTask }) => {
 
   return (
     <div className="space-y-8">
-        {calendarDays.map(({ date, tasks: dayTasks }) => {
-            const totalMinutes = dayTasks.reduce((sum, t) => sum + t.estimatedMinutes, 0);
-
-            // Group tasks by Room for this specific date
-            const tasksByRoom = dayTasks.reduce((acc, task) => {
-                const roomName = getRoomName(task);
-                if (!acc[roomName]) acc[roomName] = [];
-                acc[roomName].push(task);
-                return acc;
-            }, {} as Record<string, Task[]>);
+        {windowTray.length > 0 && (
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-teal-200 dark:border-teal-900 overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-teal-100 dark:border-teal-900/50 bg-teal-50 dark:bg-teal-900/20">
+                    <div className="flex items-center">
+                        <CalendarRange size={16} className="text-teal-600 mr-2" />
+                        <h4 className="font-semibold text-sm text-teal-800 dark:text-teal-300">This Week</h4>
+                        <span className="ml-2 text-xs text-teal-600 bg-teal-100 dark:bg-teal-900/40 px-2 py-0.5 rounded-full">
+                            {windowTray.filter(w => !w.doneOn).length} to do
+                        </span>
+                    </div>
+                    <span className="text-xs text-teal-700 dark:text-teal-400">Any day before they're due</span>
+                </div>
+                {windowTray.map(({ task, window, doneOn }, index) => (
+                    <div
+                        key={task.id}
+                        className={`group flex items-center px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors ${
+                            index !== windowTray.length - 1 ? 'border-b border-slate-50 dark:border-slate-700' : ''
+                        }`}
+                    >
+                        <button
+                            onClick={() => onToggleTask(task.id, doneOn ?? today)}
+                            className={`flex-shrink-0 mr-3 transition-colors ${doneOn ? 'text-teal-500' : 'text-slate-300 hover:text-teal-500'}`}
+                        >
+                            {doneOn ? <CheckCircle2 size={20} /> : <Circle size={20} strokeWidth={2} />}
+                        </button>
+                        <div className="flex-1">
+                            <p className={`text-sm ${doneOn ? 'text-slate-400 line-through decoration-slate-300' : 'text-slate-700 dark:text-slate-200 font-medium'}`}>
+                                {task.description}
+                            </p>
+                            <div className="flex items-center mt-1 space-x-3 text-xs text-slate-400 dark:text-slate-500">
+                                <span>{getRoomName(task)}</span>
+                                <span className="flex items-center">
+                                    <Clock size={12} className="mr-1" />
+                                    {task.estimatedMinutes}m
+                                </span>
+                                {doneOn ? (
+                                    <span>Done {formatShortDate(doneOn)}</span>
+                                ) : (
+                                    <>
+                                        <span>By {formatShortDate(window.end)}</span>
+                                        {task.suggestedDay !== undefined && (
+                                            <span className="text-teal-600 dark:text-teal-400">Suggested: {formatSuggestedDay(task, task.suggestedDay)}</span>
+                                        )}
+                                    </>
+                                )}
+                                {showAssignees && (() => {
+                                    const assignee = getOccurrenceAssignee(task, today);
+                                    return assignee ? <span>{getMemberByUid(assignee)?.displayName}</span> : null;
+                                })()}
+                                {task.isOverdue && !doneOn && task.missedPolicy !== 'stack' && (
+                                    <span className="flex items-center text-red-500 font-medium" title={`Missed: ${task.missedDates?.join(', ')}`}>
+                                        <AlertTriangle size={12} className="mr-1" />
+                                        Missed last time
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                        {!doneOn && (
+                            <button
+                                onClick={() => onSkipOccurrence(task.id, [today])}
+                                className="flex-shrink-0 ml-3 text-slate-400 hover:text-amber-500 transition-colors opacity-0 group-hover:opacity-100"
+                                title={`Skip until ${formatShortDate(addDays(window.end, 1))}`}
+                            >
+                                <SkipForward size={16} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+        )}
+        {calendarDays.map(({ date, tasks: dayTasks, skipped: skippedTasks }) => {
+            const dayCarriedOver = date === today ? carriedOver : [];
+            const totalMinutes = [...dayTasks, ...dayCarriedOver.map(c => c.task)].reduce((sum, t) => sum + t.estimatedMinutes, 0);
 
-            const sortedRooms = Object.keys(tasksByRoom).sort();
+            // Group tasks by time slot (when any task has one), then Room, for this specific date
+            const showSlots = dayTasks.some(t => getTaskSlot(t));
+            const roomGroups: { slot?: TimeSlot; room: string; tasks: Task[] }[] = [];
+            for (const task of [...dayTasks].sort(compareBySlot)) {
+                const slot = showSlots ? getTaskSlot(task) : undefined;
+                const room = getRoomName(task);
+                let group = roomGroups.find(g => g.slot === slot && g.room === room);
+                if (!group) {
+                    group = { slot, room, tasks: [] };
+                    roomGroups.push(group);
+                }
+                group.tasks.push(task);
+            }
+            // Rooms in route order (top floor down), each room's tasks in the order to do them
+            const compareRooms = compareRoomsByRoute(rooms);
+            roomGroups.sort((a, b) => slotOrder(a.slot) - slotOrder(b.slot) || compareRooms(a.tasks[0].roomId, b.tasks[0].roomId) || a.room.localeCompare(b.room));
+            for (const group of roomGroups) group.tasks = sequenceRoomTasks(group.tasks);
 
             return (
                 <div key={date} className="animate-fade-in">
@@ -89,7 +224,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onToggleTask }) => {
                             <Calendar size={20} className="text-teal-600 dark:text-teal-400 mr-2" />
                             <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">{formatDate(date)}</h3>
                         </div>
-                        {dayTasks.length > 0 && (
+                        {(dayTasks.length > 0 || dayCarriedOver.length > 0) && (
                             <span className={`text-xs font-medium px-2 py-1 rounded-full border ${
                                 totalMinutes > 60 ? 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-800' : 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-300 dark:border-slate-600'
                             }`}>
@@ -99,115 +234,273 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onToggleTask }) => {
                     </div>
 
                     <div className="space-y-3">
-                        {dayTasks.length === 0 ? (
-                            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-8 text-center">
-                                <p className="text-slate-400 dark:text-slate-500 italic">No tasks scheduled. Enjoy your day!</p>
+                        {dayCarriedOver.length > 0 && (
+                            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-red-200 dark:border-red-900 overflow-hidden">
+                                <div className="flex items-center justify-between px-4 py-3 border-b border-red-100 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20">
+                                    <div className="flex items-center">
+                                        <AlertTriangle size={16} className="text-red-500 mr-2" />
+                                        <h4 className="font-semibold text-sm text-red-700 dark:text-red-400">Carried Over</h4>
+                                        <span className="ml-2 text-xs text-red-500 bg-red-100 dark:bg-red-900/40 px-2 py-0.5 rounded-full">
+                                            {dayCarriedOver.length}
+                                        </span>
+                                    </div>
+                                </div>
+                                {dayCarriedOver.map(({ task, date: carryDate }, index) => (
+                                    <div
+                                        key={`${task.id}-${carryDate}`}
+                                        className={`flex items-center px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors ${
+                                            index !== dayCarriedOver.length - 1 ? 'border-b border-slate-50 dark:border-slate-700' : ''
+                                        }`}
+                                    >
+                                        <button
+                                            onClick={() => onToggleTask(task.id, carryDate)}
+                                            className="flex-shrink-0 mr-3 text-slate-300 hover:text-teal-500 transition-colors"
+                                        >
+                                            <Circle size={20} strokeWidth={2} />
+                                        </button>
+                                        <div className="flex-1">
+                                            <p className="text-sm text-slate-700 dark:text-slate-200 font-medium">{task.description}</p>
+                                            <div className="flex items-center mt-1 space-x-3 text-xs text-slate-400 dark:text-slate-500">
+                                                <span>{getRoomName(task)}</span>
+                                                <span className="flex items-center">
+                                                    <Clock size={12} className="mr-1" />
+                                                    {task.estimatedMinutes}m
+                                                </span>
+                                                <span className="text-red-500 font-medium">
+                                                    {carryDate === today
+                                                        ? `Missed since ${formatShortDate(task.missedDates![0])}${task.missedDates!.length > 1 ? ` (${task.missedDates!.length}×)` : ''}`
+                                                        : `From ${formatShortDate(carryDate)}`}
+                                                </span>
+                                            </div>
+                                        </div>
+                                        {!isFloating(task) && (
+                                            <button
+                                                onClick={() => onSkipOccurrence(task.id, carryDate === today ? task.missedDates ?? [] : [carryDate])}
+                                                className="flex-shrink-0 ml-3 text-slate-400 hover:text-amber-500 transition-colors"
+                                                title="Skip: don't carry this over"
+                                            >
+                                                <SkipForward size={16} />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
                             </div>
+                        )}
+                        {dayTasks.length === 0 ? (
+                            dayCarriedOver.length === 0 && (
+                                <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-8 text-center">
+                                    <p className="text-slate-400 dark:text-slate-500 italic">
+                                        {(() => {
+                                            const pause = getPauseOn(date);
+                                            if (!pause) return 'No tasks scheduled. Enjoy your day!';
+                                            return pause.label ? `Household paused: ${pause.label}` : 'Household paused';
+                                        })()}
+                                    </p>
+                                </div>
+                            )
                         ) : (
-                            sortedRooms.map(room => {
-                                const roomTasks = tasksByRoom[room];
-                                const isCollapsed = collapsedGroups.has(`${date}::${room}`);
+                            roomGroups.map(({ slot, room, tasks: roomTasks }, groupIndex) => {
+                                const groupKey = slot ? `${slot}::${room}` : room;
+                                const isCollapsed = collapsedGroups.has(`${date}::${groupKey}`);
                                 const roomTotalMinutes = roomTasks.reduce((acc, t) => acc + t.estimatedMinutes, 0);
                                 const completedCount = roomTasks.filter(t => isOccurrenceCompleted(t, date)).length;
                                 const isAllDone = completedCount === roomTasks.length;
 
+                                const startsSlot = showSlots && (groupIndex === 0 || roomGroups[groupIndex - 1].slot !== slot);
+
                                 return (
-                                    <div
-                                        key={`${date}-${room}`}
-                                        className={`bg-white dark:bg-slate-800 rounded-lg shadow-sm border overflow-hidden transition-all duration-200 ${
-                                            isAllDone ? 'border-slate-100 dark:border-slate-700' : 'border-slate-200 dark:border-slate-700'
-                                        }`}
-                                    >
-                                        {/* Collapsible Header */}
-                                        <button
-                                            onClick={() => toggleGroup(date, room)}
-                                            className={`w-full flex items-center justify-between px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors ${
-                                                isCollapsed ? '' : 'border-b border-slate-100 dark:border-slate-700'
+                                    <React.Fragment key={`${date}-${groupKey}`}>
+                                        {startsSlot && (
+                                            <h4 className="pt-1 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wide">
+                                                {TIME_SLOTS.find(s => s.value === slot)?.label ?? 'Any Time'}
+                                            </h4>
+                                        )}
+                                        <div
+                                            className={`bg-white dark:bg-slate-800 rounded-lg shadow-sm border overflow-hidden transition-all duration-200 ${
+                                                isAllDone ? 'border-slate-100 dark:border-slate-700' : 'border-slate-200 dark:border-slate-700'
                                             }`}
                                         >
-                                            <div className="flex items-center">
-                                                {isCollapsed ? <ChevronRight size={18} className="text-slate-400 mr-2" /> : <ChevronDown size={18} className="text-slate-400 mr-2" />}
-                                                <h4 className={`font-semibold text-sm ${isAllDone ? 'text-slate-500 dark:text-slate-400 line-through' : 'text-slate-800 dark:text-slate-200'}`}>
-                                                    {room}
-                                                </h4>
-                                                <span className="ml-2 text-xs text-slate-400 bg-slate-100 dark:bg-slate-700 px-2 py-0.5 rounded-full">
-                                                    {roomTasks.length}
-                                                </span>
-                                            </div>
-                                            <div className="text-xs text-slate-400">
-                                                {roomTotalMinutes} min
-                                            </div>
-                                        </button>
+                                            {/* Collapsible Header */}
+                                            <button
+                                                onClick={() => toggleGroup(date, groupKey)}
+                                                className={`w-full flex items-center justify-between px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors ${
+                                                    isCollapsed ? '' : 'border-b border-slate-100 dark:border-slate-700'
+                                                }`}
+                                            >
+                                                <div className="flex items-center">
+                                                    {isCollapsed ? <ChevronRight size={18} className="text-slate-400 mr-2" /> : <ChevronDown size={18} className="text-slate-400 mr-2" />}
+                                                    <h4 className={`font-semibold text-sm ${isAllDone ? 'text-slate-500 dark:text-slate-400 line-through' : 'text-slate-800 dark:text-slate-200'}`}>
+                                                        {room}
+                                                    </h4>
+                                                    <span className="ml-2 text-xs text-slate-400 bg-slate-100 dark:bg-slate-700 px-2 py-0.5 rounded-full">
+                                                        {roomTasks.length}
+                                                    </span>
+                                                </div>
+                                                <div className="text-xs text-slate-400">
+                                                    {roomTotalMinutes} min
+                                                </div>
+                                            </button>
 
-                                        {/* Task List Body */}
-                                        {!isCollapsed && (
-                                            <div className="bg-white dark:bg-slate-800">
-                                                {roomTasks.map((task, index) => {
-                                                    const completed = isOccurrenceCompleted(task, date);
-                                                    return (
-                                                        <div
-                                                            key={task.id}
-                                                            className={`group flex items-center px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors ${
-                                                                index !== roomTasks.length - 1 ? 'border-b border-slate-50 dark:border-slate-700' : ''
-                                                            }`}
-                                                        >
-                                                            <button
-                                                                onClick={() => onToggleTask(task.id, date)}
-                                                                className={`flex-shrink-0 mr-3 transition-colors ${
-                                                                    completed ? 'text-teal-500' : 'text-slate-300 hover:text-teal-500'
+                                            {/* Task List Body */}
+                                            {!isCollapsed && (
+                                                <div className="bg-white dark:bg-slate-800">
+                                                    {roomTasks.map((task, index) => {
+                                                        const completed = isOccurrenceCompleted(task, date);
+                                                        return (
+                                                            <div
+                                                                key={task.id}
+                                                                className={`group flex items-center px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors ${
+                                                                    index !== roomTasks.length - 1 ? 'border-b border-slate-50 dark:border-slate-700' : ''
                                                                 }`}
                                                             >
-                                                                {completed ? <CheckCircle2 size={20} /> : <Circle size={20} strokeWidth={2} />}
-                                                            </button>
-
-                                                            {showAssignees && task.assignedTo && (() => {
-                                                              const member = getMemberByUid(task.assignedTo);
-                                                              if (!member) return null;
-                                                              return member.photoURL ? (
-                                                                <img
-                                                                  src={member.photoURL}
-                                                                  alt={member.displayName}
-                                                                  className="w-6 h-6 rounded-full object-cover flex-shrink-0 mr-2"
-                                                                  title={member.displayName}
-                                                                />
-                                                              ) : (
-                                                                <div
-                                                                  className="w-6 h-6 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center text-[10px] font-bold flex-shrink-0 mr-2"
-                                                                  title={member.displayName}
+                                                                <button
+                                                                    onClick={() => onToggleTask(task.id, date)}
+                                                                    className={`flex-shrink-0 mr-3 transition-colors ${
+                                                                        completed ? 'text-teal-500' : 'text-slate-300 hover:text-teal-500'
+                                                                    }`}
                                                                 >
-                                                                  {member.displayName?.[0]?.toUpperCase() || '?'}
-                                                                </div>
-                                                              );
-                                                            })()}
-
-                                                            <div className="flex-1">
-                                                                <div className="flex justify-between items-start">
-                                                                    <p className={`text-sm ${completed ? 'text-slate-400 line-through decoration-slate-300' : 'text-slate-700 dark:text-slate-200 font-medium'}`}>
-                                                                        {task.description}
-                                                                    </p>
-                                                                </div>
-                                                                <div className="flex items-center mt-1 space-x-3 text-xs text-slate-400 dark:text-slate-500">
-                                                                    <span className="flex items-center">
-                                                                        <Clock size={12} className="mr-1" />
-                                                                        {task.estimatedMinutes}m
-                                                                    </span>
-                                                                    {task.priority === 'High' && (
-                                                                        <span className="flex items-center text-amber-600 font-medium">
-                                                                            <AlertCircle size={12} className="mr-1" />
-                                                                            Priority
+                                                                    {completed ? <CheckCircle2 size={20} /> : <Circle size={20} strokeWidth={2} />}
+                                                                </button>
+
+                                                                {showAssignees && (() => {
+                                                                  const assignee = getOccurrenceAssignee(task, date);
+                                                                  const member = assignee ? getMemberByUid(assignee) : undefined;
+                                                                  if (!member) return null;
+                                                                  return member.photoURL ? (
+                                                                    <img
+                                                                      src={member.photoURL}
+                                                                      alt={member.displayName}
+                                                                      className="w-6 h-6 rounded-full object-cover flex-shrink-0 mr-2"
+                                                                      title={member.displayName}
+                                                                    />
+                                                                  ) : (
+                                                                    <div
+                                                                      className="w-6 h-6 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center text-[10px] font-bold flex-shrink-0 mr-2"
+                                                                      title={member.displayName}
+                                                                    >
+                                                                      {member.displayName?.[0]?.toUpperCase() || '?'}
+                                                                    </div>
+                                                                  );
+                                                                })()}
+
+                                                                <div className="flex-1">
+                                                                    <div className="flex justify-between items-start">
+                                                                        <p className={`text-sm ${completed ? 'text-slate-400 line-through decoration-slate-300' : 'text-slate-700 dark:text-slate-200 font-medium'}`}>
+                                                                            {task.description}
+                                                                        </p>
+                                                                    </div>
+                                                                    <div className="flex items-center mt-1 space-x-3 text-xs text-slate-400 dark:text-slate-500">
+                                                                        <span className="flex items-center">
+                                                                            <Clock size={12} className="mr-1" />
+                                                                            {task.estimatedMinutes}m
                                                                         </span>
-                                                                    )}
+                                                                        {task.startTime && <span>{formatTaskSlot(task)}</span>}
+                                                                        {task.priority === 'High' && (
+                                                                            <span className="flex items-center text-amber-600 font-medium">
+                                                                                <AlertCircle size={12} className="mr-1" />
+                                                                                Priority
+                                                                            </span>
+                                                                        )}
+                                                                        {date === today && task.isOverdue && !completed && task.missedPolicy !== 'stack' && (
+                                                                            <span className="flex items-center text-red-500 font-medium" title={`Missed: ${task.missedDates?.join(', ')}`}>
+                                                                                <AlertTriangle size={12} className="mr-1" />
+                                                                                {task.overdueDays}d overdue
+                                                                            </span>
+                                                                        )}
+                                                                        {isFloating(task) && (
+                                                                            <span className="flex items-center" title="Due date moves with the last completion">
+                                                                                <RotateCcw size={12} className="mr-1" />
+                                                                                {getFloatingIntervalDays(task)}d after done
+                                                                            </span>
+                                                                        )}
+                                                                        {getOriginalDate(task, date) !== date && (
+                                                                            <span className="flex items-center text-indigo-500">
+                                                                                <CalendarClock size={12} className="mr-1" />
+                                                                                Moved from {formatShortDate(getOriginalDate(task, date))}
+                                                                            </span>
+                                                                        )}
+                                                                    </div>
                                                                 </div>
+
+                                                                {moving?.taskId === task.id && moving.date === date ? (
+                                                                    <div className="flex-shrink-0 ml-3 flex items-center gap-1.5">
+                                                                        <input
+                                                                            type="date"
+                                                                            value={moving.newDate}
+                                                                            onChange={(e) => setMoving({ ...moving, newDate: e.target.value })}
+                                                                            className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 dark:text-slate-200"
+                                                                        />
+                                                                        <button
+                                                                            onClick={() => {
+                                                                                if (moving.newDate) onMoveOccurrence(task.id, date, moving.newDate);
+                                                                                setMoving(null);
+                                                                            }}
+                                                                            className="p-1 rounded bg-teal-100 text-teal-700 hover:bg-teal-200 transition-colors"
+                                                                            title="Confirm move"
+                                                                        >
+                                                                            <Check size={14} />
+                                                                        </button>
+                                                                        <button
+                                                                            onClick={() => setMoving(null)}
+                                                                            className="p-1 rounded bg-slate-100 text-slate-500 hover:bg-slate-200 transition-colors"
+                                                                            title="Cancel"
+                                                                        >
+                                                                            <X size={14} />
+                                                                        </button>
+                                                                    </div>
+                                                                ) : !completed && !isFloating(task) && (
+                                                                    <div className="flex-shrink-0 ml-3 flex items-center gap-2 opacity-0 group-hover:opacity-100">
+                                                                        <button
+                                                                            onClick={() => onSkipOccurrence(task.id, [date])}
+                                                                            className="text-slate-400 hover:text-amber-500 transition-colors"
+                                                                            title="Skip this time"
+                                                                        >
+                                                                            <SkipForward size={16} />
+                                                                        </button>
+                                                                        <button
+                                                                            onClick={() => onMoveOccurrence(task.id, date, getSnoozeDate(date, today))}
+                                                                            className="text-slate-400 hover:text-teal-600 transition-colors"
+                                                                            title="Snooze one day"
+                                                                        >
+                                                                            <AlarmClock size={16} />
+                                                                        </button>
+                                                                        <button
+                                                                            onClick={() => setMoving({ taskId: task.id, date, newDate: date })}
+                                                                            className="text-slate-400 hover:text-teal-600 transition-colors"
+                                                                            title="Move to another day"
+                                                                        >
+                                                                            <CalendarClock size={16} />
+                                                                        </button>
+                                                                    </div>
+                                                                )}
                                                             </div>
-                                                        </div>
-                                                    );
-                                                })}
-                                            </div>
-                                        )}
-                                    </div>
+                                                        );
+                                                    })}
+                                                </div>
+                                            )}
+                                        </div>
+                                    </React.Fragment>
                                 );
                             })
                         )}
+                        {skippedTasks.length > 0 && (
+                            <div className="px-4 py-2 space-y-1">
+                                {skippedTasks.map(task => (
+                                    <div key={`skipped-${task.id}`} className="flex items-center text-xs text-slate-400 dark:text-slate-500">
+                                        <SkipForward size={12} className="mr-2 flex-shrink-0" />
+                                        <span className="flex-1 line-through">{task.description} · {getRoomName(task)}</span>
+                                        <button
+                                            onClick={() => onRestoreOccurrence(task.id, date)}
+                                            className="flex items-center ml-3 hover:text-teal-600 transition-colors"
+                                            title="Undo skip"
+                                        >
+                                            <Undo2 size={12} className="mr-1" />
+                                            Undo
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 </div>
             );
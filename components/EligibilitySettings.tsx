@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { HouseholdMember, TaskTag, AgeBracket } from '../types';
+import { TASK_TAGS, AGE_BRACKETS, getBlockedTags } from '../utils/eligibility';
+
+const inputClass = 'px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500';
+
+/**
+ * Which kinds of task each member may be given. An age bracket blocks some tags by
+ * default; each tag can then be allowed or blocked per member.
+ */
+const EligibilitySettings: React.FC = () => {
+  const { members, isAdmin, updateMemberEligibility } = useHousehold();
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const save = async (member: HouseholdMember, changes: Pick<HouseholdMember, 'ageBracket' | 'allowedTags' | 'blockedTags'>) => {
+    setSaving(member.uid);
+    try {
+      await updateMemberEligibility(member.uid, changes);
+    } catch (err) {
+      console.error('Failed to save member eligibility:', err);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  // A new bracket starts from its own defaults
+  const changeBracket = (member: HouseholdMember, ageBracket: AgeBracket) =>
+    save(member, { ageBracket, allowedTags: [], blockedTags: [] });
+
+  // Flips a tag, overriding the age bracket only where the result differs from it
+  const toggleTag = (member: HouseholdMember, tag: TaskTag) => {
+    const bracketBlocks = !!AGE_BRACKETS.find(b => b.value === (member.ageBracket ?? 'adult'))?.blocks.includes(tag);
+    const blocked = getBlockedTags(member).includes(tag);
+    const allowedTags = (member.allowedTags ?? []).filter(t => t !== tag);
+    const blockedTags = (member.blockedTags ?? []).filter(t => t !== tag);
+    if (blocked && bracketBlocks) allowedTags.push(tag);
+    if (!blocked && !bracketBlocks) blockedTags.push(tag);
+    save(member, { ageBracket: member.ageBracket ?? 'adult', allowedTags, blockedTags });
+  };
+
+  if (members.length < 2) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wide mb-3">Who Can Do What</h3>
+      <div className="space-y-3">
+        {members.map(member => {
+          const blocked = getBlockedTags(member);
+          const disabled = !isAdmin || saving === member.uid;
+          return (
+            <div key={member.uid} className="p-3 bg-white dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{member.displayName}</p>
+                <select
+                  value={member.ageBracket ?? 'adult'}
+                  onChange={(e) => changeBracket(member, e.target.value as AgeBracket)}
+                  disabled={disabled}
+                  className={inputClass}
+                >
+                  {AGE_BRACKETS.map(b => (
+                    <option key={b.value} value={b.value}>{b.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {TASK_TAGS.map(({ value, label }) => {
+                  const isBlocked = blocked.includes(value);
+                  return (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => toggleTag(member, value)}
+                      disabled={disabled}
+                      title={isBlocked ? `Not given tasks involving ${label.toLowerCase()}` : `May be given tasks involving ${label.toLowerCase()}`}
+                      className={`px-2 py-0.5 text-xs rounded-full border transition-colors disabled:cursor-default ${
+                        isBlocked
+                          ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 line-through'
+                          : 'bg-teal-50 dark:bg-teal-900/20 border-teal-200 dark:border-teal-800 text-teal-700 dark:text-teal-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+        Crossed-out kinds of task aren't assigned to that member when balancing, and their turn in a rotation passes to the next member.
+      </p>
+    </div>
+  );
+};
+
+export default EligibilitySettings;
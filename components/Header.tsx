@@ -1,15 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Sparkles, Calendar as CalendarIcon, List, Scale, LogOut, UserCircle, Settings, Users, ClipboardList, Sun, Moon, Monitor } from 'lucide-react';
+import { Sparkles, Calendar as CalendarIcon, List, Scale, LogOut, UserCircle, Settings, Users, ClipboardList, Sun, Moon, Monitor, Footprints } from 'lucide-react';
+import { BalanceMode } from '../utils/scheduler';
 import TidyHomeLogo from './TidyHomeLogo';
 import { useTheme } from '../hooks/useTheme';
 
 interface HeaderProps {
   onGenerate: () => void;
-  onBalance: () => void;
+  onBalance: (mode: BalanceMode) => void;
   onOpenScheduler: () => void;
   isGenerating: boolean;
-  viewMode: 'rooms' | 'calendar';
-  setViewMode: (mode: 'rooms' | 'calendar') => void;
+  viewMode: 'rooms' | 'calendar' | 'route';
+  setViewMode: (mode: 'rooms' | 'calendar' | 'route') => void;
   userName: string;
   onSignOut: () => void;
   onManageRooms: () => void;
@@ -68,6 +69,12 @@ const Header: React.FC<HeaderProps> = ({ onGenerate, onBalance, onOpenScheduler,
                 >
                     <CalendarIcon size={18} />
                 </button>
+                <button
+                    onClick={() => setViewMode('route')}
+                    className={`p-2 rounded-md ${viewMode === 'route' ? 'bg-white dark:bg-slate-600 shadow text-teal-600' : 'text-slate-500 dark:text-slate-400'}`}
+                >
+                    <Footprints size={18} />
+                </button>
             </div>
           </div>
 
@@ -92,6 +99,14 @@ const Header: React.FC<HeaderProps> = ({ onGenerate, onBalance, onOpenScheduler,
                 >
                     Calendar
                 </button>
+                <button
+                    onClick={() => setViewMode('route')}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                        viewMode === 'route' ? 'bg-white dark:bg-slate-600 shadow text-slate-800 dark:text-slate-100' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                    }`}
+                >
+                    Route
+                </button>
             </div>
 
             <button
@@ -104,7 +119,7 @@ const Header: React.FC<HeaderProps> = ({ onGenerate, onBalance, onOpenScheduler,
 
             {viewMode === 'calendar' && (
                  <button
-                 onClick={onBalance}
+                 onClick={() => onBalance('days')}
                  disabled={isGenerating}
                  className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium transition-colors border focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 ${
                    isGenerating
@@ -118,6 +133,23 @@ const Header: React.FC<HeaderProps> = ({ onGenerate, onBalance, onOpenScheduler,
                </button>
             )}
 
+            {viewMode === 'calendar' && (memberCount ?? 0) > 1 && (
+                 <button
+                 onClick={() => onBalance('members')}
+                 disabled={isGenerating}
+                 title="Share weekly tasks out between members, by day"
+                 className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium transition-colors border focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 ${
+                   isGenerating
+                     ? 'bg-slate-50 dark:bg-slate-700 text-slate-400 border-slate-200 dark:border-slate-600 cursor-not-allowed'
+                     : 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-400 border-indigo-200 dark:border-indigo-700 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:border-indigo-300'
+                 }`}
+               >
+                 <Users size={16} className={`mr-2 ${isGenerating ? 'animate-pulse' : ''}`} />
+                 <span className="hidden sm:inline">Balance Members</span>
+                 <span className="sm:hidden">Members</span>
+               </button>
+            )}
+
             <button
               onClick={onGenerate}
               disabled={isGenerating}
@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
 import { useHousehold } from '../contexts/HouseholdContext';
 import { useAuth } from '../contexts/AuthContext';
+import AwaySettings from './AwaySettings';
+import BudgetSettings from './BudgetSettings';
+import EligibilitySettings from './EligibilitySettings';
+import { ScheduleSettings } from '../types';
+import { getToday } from '../utils/recurrence';
 import { X, Copy, RefreshCw, UserMinus, LogOut, Check, Shield, User, UserPlus } from 'lucide-react';
 
 interface HouseholdSettingsProps {
@@ -8,9 +13,26 @@ interface HouseholdSettingsProps {
   onClose: () => void;
 }
 
+// Rollover hours offered for "day ends at"; later than early morning isn't useful
+const DAY_END_OPTIONS = [0, 1, 2, 3, 4, 5, 6].map(hour => ({
+  value: hour,
+  label: hour === 0 ? 'Midnight' : `${hour}:00 AM`,
+}));
+
+// Relative workload shares used by member balancing
+const SHARE_OPTIONS = [
+  { value: 0, label: 'No weekly tasks' },
+  { value: 0.5, label: 'Half share' },
+  { value: 1, label: 'Full share' },
+  { value: 1.5, label: '1.5× share' },
+  { value: 2, label: 'Double share' },
+];
+
+const DEVICE_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
 const HouseholdSettings: React.FC<HouseholdSettingsProps> = ({ isOpen, onClose }) => {
   const { user } = useAuth();
-  const { household, members, isAdmin, removeMember, leaveHousehold, regenerateInviteCode, addLocalMember } = useHousehold();
+  const { household, members, isAdmin, removeMember, leaveHousehold, regenerateInviteCode, addLocalMember, scheduleSettings, saveScheduleSettings } = useHousehold();
   const [copied, setCopied] = useState(false);
   const [confirmingRemove, setConfirmingRemove] = useState<string | null>(null);
   const [confirmingLeave, setConfirmingLeave] = useState(false);
@@ -68,6 +90,17 @@ const HouseholdSettings: React.FC<HouseholdSettingsProps> = ({ isOpen, onClose }
     }
   };
 
+  const handleScheduleSettingsChange = async (changes: Partial<ScheduleSettings>) => {
+    setLoading(true);
+    try {
+      await saveScheduleSettings(changes);
+    } catch (err) {
+      console.error('Failed to save schedule settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAddMember = async () => {
     if (!newMemberName.trim()) return;
     setLoading(true);
@@ -264,6 +297,21 @@ const HouseholdSettings: React.FC<HouseholdSettingsProps> = ({ isOpen, onClose }
                       {member.email && (
                         <p className="text-xs text-slate-400">{member.email}</p>
                       )}
+                      {members.length > 1 && (
+                        <select
+                          value={scheduleSettings.memberShares?.[member.uid] ?? 1}
+                          onChange={(e) => handleScheduleSettingsChange({
+                            memberShares: { ...scheduleSettings.memberShares, [member.uid]: parseFloat(e.target.value) },
+                          })}
+                          disabled={!isAdmin || loading}
+                          title="Share of weekly tasks when balancing across members"
+                          className="mt-1 text-xs text-slate-500 dark:text-slate-400 bg-transparent border-none p-0 focus:outline-none focus:ring-0 disabled:opacity-100"
+                        >
+                          {SHARE_OPTIONS.map(o => (
+                            <option key={o.value} value={o.value}>{o.label}</option>
+                          ))}
+                        </select>
+                      )}
                     </div>
                   </div>
 
@@ -303,6 +351,52 @@ const HouseholdSettings: React.FC<HouseholdSettingsProps> = ({ isOpen, onClose }
             </div>
           </div>
 
+          {/* Household Clock Section */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wide mb-3">Household Clock</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Timezone</label>
+                <select
+                  value={scheduleSettings.timezone ?? DEVICE_TIMEZONE}
+                  onChange={(e) => handleScheduleSettingsChange({ timezone: e.target.value })}
+                  disabled={!isAdmin || loading}
+                  className="w-full px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-60"
+                >
+                  {Intl.supportedValuesOf('timeZone').map(zone => (
+                    <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Day ends at</label>
+                <select
+                  value={scheduleSettings.dayEndsAt ?? 0}
+                  onChange={(e) => handleScheduleSettingsChange({ dayEndsAt: parseInt(e.target.value), timezone: scheduleSettings.timezone ?? DEVICE_TIMEZONE })}
+                  disabled={!isAdmin || loading}
+                  className="w-full px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-60"
+                >
+                  {DAY_END_OPTIONS.map(o => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+              Everyone in the household shares this clock. It's {new Date(getToday() + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })} for the household
+              {!scheduleSettings.timezone && ' (using this device\'s timezone until one is saved)'}.
+            </p>
+          </div>
+
+          {/* Time Budgets Section */}
+          <BudgetSettings />
+
+          {/* Task Eligibility Section */}
+          <EligibilitySettings />
+
+          {/* Vacation & Away Section */}
+          <AwaySettings />
+
           {/* Leave Household */}
           {!isAdmin && (
             <div className="border-t border-slate-200 dark:border-slate-700 pt-4">
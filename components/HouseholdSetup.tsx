@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useHousehold } from '../contexts/HouseholdContext';
 import { useAuth } from '../contexts/AuthContext';
-import { householdService } from '../services/householdService';
+import { useRepository } from '../contexts/RepositoryContext';
 import { Home, Users, ArrowRight, Loader2, AlertCircle, LogOut } from 'lucide-react';
 
 const HouseholdSetup: React.FC = () => {
   const { createHousehold, joinHousehold } = useHousehold();
   const { user, signOut } = useAuth();
+  const repository = useRepository();
   const [mode, setMode] = useState<'choose' | 'create' | 'join'>('choose');
   const [householdName, setHouseholdName] = useState('');
   const [inviteCode, setInviteCode] = useState('');
@@ -54,7 +55,7 @@ const HouseholdSetup: React.FC = () => {
     setFoundHousehold(null);
     console.log('[HouseholdSetup] Looking up invite code:', inviteCode.toUpperCase());
     try {
-      const household = await householdService.findHouseholdByInviteCode(inviteCode.toUpperCase());
+      const household = await repository.households.findHouseholdByInviteCode(inviteCode.toUpperCase());
       console.log('[HouseholdSetup] Lookup result:', household);
       if (household) {
         setFoundHousehold({ id: household.id, name: household.name });
@@ -0,0 +1,54 @@
+import React from 'react';
+import { MigrationProgress } from '../services/migrations';
+import { Loader2, AlertTriangle, RefreshCw } from 'lucide-react';
+
+interface MigrationStatusProps {
+  progress: MigrationProgress | null;
+  onRetry: () => void;
+}
+
+/**
+ * Full-screen status while the household's data is migrated: the step being run,
+ * another device doing it, or the step that failed with a way to try again.
+ */
+const MigrationStatus: React.FC<MigrationStatusProps> = ({ progress, onRetry }) => {
+  if (progress?.status === 'failed') {
+    return (
+      <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 text-center">
+          <AlertTriangle className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-2">Couldn't update your household data</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">{progress.description} failed:</p>
+          <p className="text-sm text-red-600 dark:text-red-400 mb-6 break-words">{progress.error}</p>
+          <button
+            onClick={onRetry}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors font-medium"
+          >
+            <RefreshCw size={16} />
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const message = progress?.status === 'waiting'
+    ? 'Another device is updating your household data...'
+    : progress?.status === 'done' ? 'Finishing up...' : 'Updating your household data...';
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center">
+      <div className="text-center">
+        <Loader2 className="w-12 h-12 text-teal-600 animate-spin mx-auto mb-4" />
+        <p className="text-slate-600 dark:text-slate-400 text-lg">{message}</p>
+        {progress?.status === 'running' && (
+          <p className="mt-2 text-sm text-slate-500 dark:text-slate-500">
+            Step {progress.step} of {progress.total}: {progress.description}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MigrationStatus;
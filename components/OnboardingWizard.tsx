@@ -2,8 +2,9 @@ import React, { useState, useMemo } from 'react';
 import { Task, Frequency, RoomType, RoomTaskTemplate, Room } from '../types';
 import { ROOM_TASK_CATALOG, FALLBACK_TASKS } from '../constants';
 import { getNextOccurrence, isTaskDueOnDate, getToday } from '../utils/recurrence';
-import { optimizeWeeklySchedule } from '../utils/scheduler';
-import { roomService } from '../services/roomService';
+import { scheduleNewTasks, getDayBudgets } from '../utils/scheduler';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { NewRoom, newRoomId } from '../services/repository';
 import {
   ChefHat, UtensilsCrossed, Sofa, Monitor, DoorOpen, Bath, Bed,
   ArrowRightLeft, ArrowDownToLine, Home, Plus, Minus, X, ChevronDown, ChevronRight,
@@ -40,8 +41,7 @@ interface SelectedRoom {
 }
 
 interface OnboardingWizardProps {
-  householdId: string;
-  onComplete: (tasks: Task[]) => Promise<void>;
+  onComplete: (rooms: NewRoom[], tasks: Task[]) => Promise<void>;
 }
 
 // Counter component for bedrooms/bathrooms
@@ -84,7 +84,8 @@ const ToggleSwitch: React.FC<{ enabled: boolean; onChange: (v: boolean) => void
   </button>
 );
 
-const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComplete }) => {
+const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onComplete }) => {
+  const { scheduleSettings } = useHousehold();
   const [step, setStep] = useState(1);
 
   // Floor-based configuration (Step 1)
@@ -409,6 +410,7 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
 
   const buildTasks = (roomIdMap: Map<string, string>): Task[] => {
     const today = getToday();
+    const createdAt = new Date().toISOString();
     const tasks: Task[] = [];
     let counter = 0;
 
@@ -437,11 +439,8 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
 
         counter++;
         const id = `task-${Date.now()}-${counter}-${Math.random().toString(36).substring(2, 9)}`;
-        const scheduledDay = tmpl.frequency === Frequency.Monthly || tmpl.frequency === Frequency.Quarterly
-          ? ((counter * 7) % 28) + 1
-          : undefined;
-        const anchorDate = tmpl.frequency === Frequency.BiWeekly || tmpl.frequency === Frequency.Quarterly
-          ? today : undefined;
+        // Month days and quarter phases are picked by the optimizer below
+        const anchorDate = tmpl.frequency === Frequency.BiWeekly ? today : undefined;
 
         tasks.push({
           id,
@@ -452,11 +451,15 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
           frequency: tmpl.frequency,
           estimatedMinutes: tmpl.estimatedMinutes,
           priority: tmpl.priority,
-          scheduledDay,
+          activeMonths: tmpl.activeMonths,
+          tags: tmpl.tags,
+          phase: tmpl.phase,
+          after: tmpl.after,
           anchorDate,
           completedDates: [],
           nextDueDate: today,
           isDue: false,
+          createdAt,
         });
       }
 
@@ -468,11 +471,8 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
 
         counter++;
         const id = `task-${Date.now()}-${counter}-${Math.random().toString(36).substring(2, 9)}`;
-        const scheduledDay = tmpl.frequency === Frequency.Monthly || tmpl.frequency === Frequency.Quarterly
-          ? ((counter * 7) % 28) + 1
-          : undefined;
-        const anchorDate = tmpl.frequency === Frequency.BiWeekly || tmpl.frequency === Frequency.Quarterly
-          ? today : undefined;
+        // Month days and quarter phases are picked by the optimizer below
+        const anchorDate = tmpl.frequency === Frequency.BiWeekly ? today : undefined;
 
         tasks.push({
           id,
@@ -483,35 +483,35 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
           frequency: tmpl.frequency,
           estimatedMinutes: tmpl.estimatedMinutes,
           priority: tmpl.priority,
-          scheduledDay,
+          activeMonths: tmpl.activeMonths,
+          tags: tmpl.tags,
+          phase: tmpl.phase,
+          after: tmpl.after,
           anchorDate,
           completedDates: [],
           nextDueDate: today,
           isDue: false,
+          createdAt,
         });
       }
     }
 
-    // Run optimizer for weekly/bi-weekly tasks
-    const assignments = optimizeWeeklySchedule(tasks);
-    for (const { taskId, scheduledDay } of assignments) {
-      const task = tasks.find(t => t.id === taskId);
-      if (task) task.scheduledDay = scheduledDay;
-    }
+    // Spread weekly tasks over the week and monthly ones over the month
+    const scheduled = scheduleNewTasks(tasks, [], today, getDayBudgets(scheduleSettings));
 
     // Compute nextDueDate and isDue
-    for (const task of tasks) {
+    for (const task of scheduled) {
       task.nextDueDate = getNextOccurrence(task, today);
       task.isDue = isTaskDueOnDate(task, today);
     }
 
-    return tasks;
+    return scheduled;
   };
 
   const handleComplete = async () => {
     setSaving(true);
     try {
-      // Step 1: Create all Room documents first
+      // Step 1: Pick ids for all the rooms, so their tasks can point at them
       const roomsToProcess = [...selectedRooms];
       const hasGeneral = selectedRooms.some(r => r.roomType === RoomType.General);
       if (!hasGeneral) {
@@ -519,28 +519,22 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
       }
 
       const roomIdMap = new Map<string, string>();
+      const rooms: NewRoom[] = [];
 
       for (const room of roomsToProcess) {
         const catalog = ROOM_TASK_CATALOG[room.roomType];
         if (!catalog) continue;
 
-        // Create Room document
-        const createdRoom = await roomService.createRoom(
-          householdId,
-          room.name,
-          room.roomType,
-          catalog.icon
-        );
-
-        const rKey = roomKey(room);
-        roomIdMap.set(rKey, createdRoom.id);
+        const newRoom: NewRoom = { id: newRoomId(), name: room.name, roomType: room.roomType, icon: catalog.icon };
+        rooms.push(newRoom);
+        roomIdMap.set(roomKey(room), newRoom.id);
       }
 
       // Step 2: Build tasks with proper roomIds
       const tasks = buildTasks(roomIdMap);
 
-      // Step 3: Save tasks
-      await onComplete(tasks);
+      // Step 3: Save rooms and tasks together
+      await onComplete(rooms, tasks);
     } catch (error) {
       console.error('Failed to complete onboarding:', error);
       alert('Failed to save tasks. Please try again.');
@@ -551,7 +545,7 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
   const handleSkip = async () => {
     setSaving(true);
     try {
-      // Create Room documents for FALLBACK_TASKS
+      // Rooms for FALLBACK_TASKS
       const fallbackRoomNames = new Set<string>();
       const fallbackRoomTypes = new Map<string, RoomType>();
 
@@ -563,19 +557,16 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
       }
 
       const roomIdMap = new Map<string, string>();
+      const rooms: NewRoom[] = [];
 
-      // Create Room documents
+      // Pick ids for the rooms, saved along with the tasks
       for (const roomName of fallbackRoomNames) {
         const roomType = fallbackRoomTypes.get(roomName)!;
         const catalog = ROOM_TASK_CATALOG[roomType];
 
-        const createdRoom = await roomService.createRoom(
-          householdId,
-          roomName,
-          roomType,
-          catalog?.icon || 'Home'
-        );
-        roomIdMap.set(roomName, createdRoom.id);
+        const newRoom: NewRoom = { id: newRoomId(), name: roomName, roomType, icon: catalog?.icon || 'Home' };
+        rooms.push(newRoom);
+        roomIdMap.set(roomName, newRoom.id);
       }
 
       // Update FALLBACK_TASKS with proper roomIds
@@ -584,7 +575,7 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ householdId, onComp
         roomId: roomIdMap.get(task.room) || '',
       }));
 
-      await onComplete(tasksWithRoomIds);
+      await onComplete(rooms, tasksWithRoomIds);
     } catch (error) {
       console.error('Failed to skip onboarding:', error);
       alert('Failed to set up defaults. Please try again.');
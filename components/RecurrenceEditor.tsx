@@ -0,0 +1,261 @@
+import React, { useMemo } from 'react';
+import { RecurrenceRule, RecurrenceFreq } from '../types';
+import { expandRule, describeRule, formatRRule, normalizeRule, getToday, addDays } from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  rule: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = [1, 2, 3, 4, 5].map(day => ({ day }));
+
+const UNIT_OPTIONS: { value: RecurrenceFreq; label: string }[] = [
+  { value: 'DAILY', label: 'day(s)' },
+  { value: 'WEEKLY', label: 'week(s)' },
+  { value: 'MONTHLY', label: 'month(s)' },
+  { value: 'YEARLY', label: 'year(s)' },
+];
+
+const ORDINAL_OPTIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+const inputClass = 'px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500 text-sm';
+
+const toggleButtonClass = (active: boolean) =>
+  `flex-1 py-2 text-xs font-medium rounded-lg transition-colors ${
+    active
+      ? 'bg-teal-600 text-white'
+      : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+  }`;
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ rule, onChange }) => {
+  const update = (changes: Partial<RecurrenceRule>) => onChange(normalizeRule({ ...rule, ...changes }));
+
+  const usesMonthDays = rule.freq === 'MONTHLY' || rule.freq === 'YEARLY';
+  const monthlyMode: 'day' | 'weekday' = rule.byDay?.length ? 'weekday' : 'day';
+  const isWeekdaySet = !!rule.bySetPos?.length && rule.byDay?.length === 5;
+  const ordinal = isWeekdaySet ? rule.bySetPos![0] : rule.byDay?.[0]?.ordinal ?? 1;
+  const weekdayChoice = isWeekdaySet ? 'weekday' : String(rule.byDay?.[0]?.day ?? 6);
+  const endMode: 'never' | 'until' | 'count' = rule.until ? 'until' : rule.count ? 'count' : 'never';
+
+  const preview = useMemo(() => {
+    const today = getToday();
+    return expandRule(rule, today, addDays(today, 366 * 3), 4);
+  }, [rule]);
+
+  const handleFreqChange = (freq: RecurrenceFreq) => {
+    const start = rule.dtstart ?? getToday();
+    const [, month, day] = start.split('-').map(Number);
+    const base = { freq, interval: rule.interval, count: rule.count, until: rule.until, dtstart: rule.dtstart };
+    if (freq === 'WEEKLY') {
+      onChange(normalizeRule({ ...base, byDay: [{ day: new Date(start + 'T00:00:00').getDay() }] }));
+    } else if (freq === 'MONTHLY') {
+      onChange(normalizeRule({ ...base, byMonthDay: [day] }));
+    } else if (freq === 'YEARLY') {
+      onChange(normalizeRule({ ...base, byMonth: [month], byMonthDay: [day] }));
+    } else {
+      onChange(normalizeRule(base));
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    const current = rule.byDay ?? [];
+    const exists = current.some(d => d.day === day);
+    const byDay = exists ? current.filter(d => d.day !== day) : [...current, { day }].sort((a, b) => a.day - b.day);
+    update({ byDay: byDay.length > 0 ? byDay : current });
+  };
+
+  const toggleMonth = (month: number) => {
+    const current = rule.byMonth ?? [];
+    const byMonth = current.includes(month) ? current.filter(m => m !== month) : [...current, month];
+    update({ byMonth: byMonth.length > 0 ? byMonth : current });
+  };
+
+  const setWeekdayPosition = (nextOrdinal: number, choice: string) => {
+    if (choice === 'weekday') {
+      update({ byDay: WEEKDAYS, bySetPos: [nextOrdinal], byMonthDay: undefined });
+    } else {
+      update({ byDay: [{ day: parseInt(choice), ordinal: nextOrdinal }], bySetPos: undefined, byMonthDay: undefined });
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-lg border border-slate-200 dark:border-slate-600">
+      {/* Interval */}
+      <div className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+        <span>Repeat every</span>
+        <input
+          type="number"
+          min="1"
+          value={rule.interval ?? 1}
+          onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+          className={`${inputClass} w-20`}
+        />
+        <select
+          value={rule.freq}
+          onChange={(e) => handleFreqChange(e.target.value as RecurrenceFreq)}
+          className={inputClass}
+        >
+          {UNIT_OPTIONS.map(o => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Weekly: days of week */}
+      {rule.freq === 'WEEKLY' && (
+        <div className="flex gap-1">
+          {DAY_NAMES.map((name, idx) => (
+            <button
+              key={idx}
+              type="button"
+              onClick={() => toggleWeekday(idx)}
+              className={toggleButtonClass(!!rule.byDay?.some(d => d.day === idx))}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Yearly: months */}
+      {rule.freq === 'YEARLY' && (
+        <div className="grid grid-cols-6 gap-1">
+          {MONTH_NAMES.map((name, idx) => (
+            <button
+              key={idx}
+              type="button"
+              onClick={() => toggleMonth(idx + 1)}
+              className={toggleButtonClass(!!rule.byMonth?.includes(idx + 1))}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Monthly/Yearly: day of month or nth weekday */}
+      {usesMonthDays && (
+        <div className="space-y-2 text-sm text-slate-700 dark:text-slate-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={monthlyMode === 'day'}
+              onChange={() => update({ byMonthDay: [1], byDay: undefined, bySetPos: undefined })}
+            />
+            <span>On day</span>
+            <select
+              value={rule.byMonthDay?.[0] ?? 1}
+              disabled={monthlyMode !== 'day'}
+              onChange={(e) => update({ byMonthDay: [parseInt(e.target.value)], bySetPos: undefined })}
+              className={inputClass}
+            >
+              {Array.from({ length: 31 }, (_, i) => i + 1).map(d => (
+                <option key={d} value={d}>{d}</option>
+              ))}
+              <option value={-1}>Last</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={monthlyMode === 'weekday'}
+              onChange={() => setWeekdayPosition(1, '6')}
+            />
+            <span>On the</span>
+            <select
+              value={ordinal}
+              disabled={monthlyMode !== 'weekday'}
+              onChange={(e) => setWeekdayPosition(parseInt(e.target.value), weekdayChoice)}
+              className={inputClass}
+            >
+              {ORDINAL_OPTIONS.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+            <select
+              value={weekdayChoice}
+              disabled={monthlyMode !== 'weekday'}
+              onChange={(e) => setWeekdayPosition(ordinal, e.target.value)}
+              className={inputClass}
+            >
+              {DAY_NAMES.map((name, idx) => (
+                <option key={idx} value={idx}>{name}</option>
+              ))}
+              <option value="weekday">Weekday (Mon-Fri)</option>
+            </select>
+          </label>
+        </div>
+      )}
+
+      {/* Start and end */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-slate-700 dark:text-slate-300">
+        <div>
+          <label className="block text-xs font-medium mb-1">Starts</label>
+          <input
+            type="date"
+            value={rule.dtstart ?? ''}
+            onChange={(e) => update({ dtstart: e.target.value || undefined })}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium mb-1">Ends</label>
+          <div className="flex gap-2">
+            <select
+              value={endMode}
+              onChange={(e) => {
+                const mode = e.target.value;
+                if (mode === 'until') update({ until: addDays(rule.dtstart ?? getToday(), 365), count: undefined });
+                else if (mode === 'count') update({ count: 10, until: undefined });
+                else update({ count: undefined, until: undefined });
+              }}
+              className={inputClass}
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {endMode === 'until' && (
+              <input
+                type="date"
+                value={rule.until ?? ''}
+                onChange={(e) => update({ until: e.target.value || undefined })}
+                className={`${inputClass} flex-1`}
+              />
+            )}
+            {endMode === 'count' && (
+              <input
+                type="number"
+                min="1"
+                value={rule.count ?? 1}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={`${inputClass} w-20`}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1 pt-2 border-t border-slate-200 dark:border-slate-600">
+        <p className="font-medium text-slate-700 dark:text-slate-300">{describeRule(rule)}</p>
+        <p className="font-mono break-all">RRULE:{formatRRule(rule)}</p>
+        <p>
+          Next: {preview.length > 0
+            ? preview.map(d => new Date(d + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })).join(' · ')
+            : 'no upcoming occurrences'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
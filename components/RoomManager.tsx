@@ -2,6 +2,8 @@ import React, { useState, useMemo } from 'react';
 import { Task, RoomType, RoomTaskTemplate } from '../types';
 import { ROOM_TASK_CATALOG } from '../constants';
 import { useRooms } from '../contexts/RoomsContext';
+import { describeActiveMonths } from '../utils/recurrence';
+import { FLOORS } from '../utils/route';
 import {
   ChefHat, UtensilsCrossed, Sofa, Monitor, DoorOpen, Bath, Bed,
   ArrowRightLeft, ArrowDownToLine, Home, X, Pencil, Trash2, Plus,
@@ -23,7 +25,7 @@ interface RoomManagerProps {
 }
 
 const RoomManager: React.FC<RoomManagerProps> = ({ isOpen, onClose, tasks, onAddRoom, onRenameRoom, onDeleteRoom }) => {
-  const { rooms: roomsFromContext } = useRooms();
+  const { rooms: roomsFromContext, updateRoom } = useRooms();
   const [mode, setMode] = useState<'list' | 'add'>('list');
   const [editingRoom, setEditingRoom] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
@@ -46,6 +48,7 @@ const RoomManager: React.FC<RoomManagerProps> = ({ isOpen, onClose, tasks, onAdd
         roomType: room.roomType,
         taskCount,
         icon: room.icon,
+        floor: room.floor ?? 0,
       };
     });
   }, [roomsFromContext, tasks]);
@@ -128,6 +131,16 @@ const RoomManager: React.FC<RoomManagerProps> = ({ isOpen, onClose, tasks, onAdd
     }
   };
 
+  // Floors are saved right away; today's route goes from the top floor down
+  const handleFloorChange = async (roomId: string, floor: number) => {
+    try {
+      await updateRoom(roomId, { floor });
+    } catch (error) {
+      console.error('Failed to update room floor:', error);
+      alert('Failed to update room. Please try again.');
+    }
+  };
+
   const handleDelete = async (roomId: string) => {
     setSaving(true);
     try {
@@ -201,7 +214,20 @@ const RoomManager: React.FC<RoomManagerProps> = ({ isOpen, onClose, tasks, onAdd
                             ) : (
                               <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{room.name}</p>
                             )}
-                            <p className="text-xs text-slate-400">{room.taskCount} task{room.taskCount !== 1 ? 's' : ''}</p>
+                            <div className="flex items-center gap-2 text-xs text-slate-400">
+                              <span>{room.taskCount} task{room.taskCount !== 1 ? 's' : ''}</span>
+                              <span>&middot;</span>
+                              <select
+                                value={room.floor}
+                                onChange={e => handleFloorChange(room.id, parseInt(e.target.value))}
+                                title="Floor, for today's route"
+                                className="bg-transparent border-none p-0 text-xs text-slate-400 focus:outline-none focus:ring-0"
+                              >
+                                {FLOORS.map(f => (
+                                  <option key={f.value} value={f.value}>{f.label}</option>
+                                ))}
+                              </select>
+                            </div>
                           </div>
 
                           {editingRoom !== room.id && !isDeleting && (
@@ -307,7 +333,10 @@ const RoomManager: React.FC<RoomManagerProps> = ({ isOpen, onClose, tasks, onAdd
                         className="w-4 h-4 rounded border-slate-300 text-teal-600 focus:ring-teal-500"
                       />
                       <span className="text-sm text-slate-700 dark:text-slate-300 flex-1">{tmpl.description}</span>
-                      <span className="text-xs text-slate-400 dark:text-slate-500">{tmpl.frequency} &middot; {tmpl.estimatedMinutes}m</span>
+                      <span className="text-xs text-slate-400 dark:text-slate-500">
+                        {tmpl.frequency} &middot; {tmpl.estimatedMinutes}m
+                        {tmpl.activeMonths && <> &middot; {describeActiveMonths(tmpl.activeMonths)}</>}
+                      </span>
                     </label>
                   ))}
                 </div>
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Rotation, RotationUnit, TaskTag } from '../types';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { getBlockedTags, getIneligibleTags, getTagLabel } from '../utils/eligibility';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+
+interface RotationEditorProps {
+  value: Rotation;
+  onChange: (rotation: Rotation) => void;
+  tags?: TaskTag[]; // The task's tags, to show who'll be passed over
+}
+
+const inputClass = 'px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500';
+
+/**
+ * Edits who takes turns and how long each turn lasts. Members take turns in the
+ * order listed; unchecked members are left out of the rotation, and members not
+ * allowed a task's tags are passed over for it.
+ */
+const RotationEditor: React.FC<RotationEditorProps> = ({ value, onChange, tags = [] }) => {
+  const { members, getMemberByUid } = useHousehold();
+
+  // Rotating members in order, then everyone else
+  const order = [
+    ...value.memberUids,
+    ...members.map(m => m.uid).filter(uid => !value.memberUids.includes(uid)),
+  ];
+
+  const toggleMember = (uid: string) => {
+    const memberUids = value.memberUids.includes(uid)
+      ? value.memberUids.filter(u => u !== uid)
+      : [...value.memberUids, uid];
+    onChange({ ...value, memberUids });
+  };
+
+  const moveMember = (index: number, offset: number) => {
+    const memberUids = [...value.memberUids];
+    const target = index + offset;
+    if (target < 0 || target >= memberUids.length) return;
+    [memberUids[index], memberUids[target]] = [memberUids[target], memberUids[index]];
+    onChange({ ...value, memberUids });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        {order.map(uid => {
+          const index = value.memberUids.indexOf(uid);
+          const included = index >= 0;
+          const member = getMemberByUid(uid);
+          const ineligible = member ? getIneligibleTags({ tags }, getBlockedTags(member)) : [];
+          return (
+            <div key={uid} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <label className="flex items-center gap-2 flex-1 min-w-0">
+                <input type="checkbox" checked={included} onChange={() => toggleMember(uid)} />
+                <span className="w-4 text-xs text-slate-400">{included ? index + 1 : ''}</span>
+                <span className="truncate">{member?.displayName ?? 'Former member'}</span>
+                {included && ineligible.length > 0 && (
+                  <span className="text-xs text-amber-600 whitespace-nowrap">
+                    skipped: {ineligible.map(tag => getTagLabel(tag).toLowerCase()).join(', ')}
+                  </span>
+                )}
+              </label>
+              {included && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => moveMember(index, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+                    title="Earlier turn"
+                  >
+                    <ChevronUp size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveMember(index, 1)}
+                    disabled={index === value.memberUids.length - 1}
+                    className="p-0.5 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+                    title="Later turn"
+                  >
+                    <ChevronDown size={14} />
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+        <span>Switch every</span>
+        <input
+          type="number"
+          min="1"
+          value={value.every}
+          onChange={(e) => onChange({ ...value, every: Math.max(1, parseInt(e.target.value) || 1) })}
+          className={`${inputClass} w-16`}
+        />
+        <select
+          value={value.unit}
+          onChange={(e) => onChange({ ...value, unit: e.target.value as RotationUnit })}
+          className={inputClass}
+        >
+          <option value="occurrences">{value.every === 1 ? 'time' : 'times'} it's done</option>
+          <option value="weeks">{value.every === 1 ? 'week' : 'weeks'}</option>
+        </select>
+        <span>starting</span>
+        <input
+          type="date"
+          value={value.startDate}
+          onChange={(e) => e.target.value && onChange({ ...value, startDate: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RotationEditor;
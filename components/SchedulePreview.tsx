@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Task, Frequency } from '../types';
+import { X, Check, ArrowRight, RefreshCw, AlertTriangle, Eye } from 'lucide-react';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { useRooms } from '../contexts/RoomsContext';
+import { getPlannedDays, isWindowed } from '../utils/recurrence';
+import { ScheduleChange, getScheduleSummary, getWeeklyAssignments, withScheduleOf, describeAssignmentReason } from '../utils/scheduler';
+
+interface SchedulePreviewProps {
+  isOpen: boolean;
+  title: string;
+  note?: string; // Shown above the changes, e.g. the AI's explanation
+  warnings?: string[]; // Tasks the optimizer couldn't fit in the time budgets
+  tasks: Task[];
+  changes: ScheduleChange[];
+  onApply: (accepted: ScheduleChange[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const DAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatMonth = (date: string) =>
+  new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short' });
+
+// "Mon, Thu" for weekly tasks, "Day 1, 15" for monthly ones; window tasks' days are only suggested
+const formatDays = (task: Task): string => {
+  const days = getPlannedDays(task);
+  if (days.length === 0) return 'Any day';
+  if (task.frequency === Frequency.Weekly || task.frequency === Frequency.BiWeekly) {
+    const text = days.map(d => DAY_SHORT[d]).join(', ');
+    return isWindowed(task) ? `${text} (suggested)` : text;
+  }
+  const text = `Day ${days.join(', ')}${isWindowed(task) ? ' (suggested)' : ''}`;
+  return task.frequency === Frequency.Quarterly && task.anchorDate ? `${text} · from ${formatMonth(task.anchorDate)}` : text;
+};
+
+/**
+ * Shows what a proposed schedule would change before anything is saved: the
+ * weekly load before and after, and every task that moves. Moves can be
+ * rejected one by one; the rest are applied together.
+ */
+const SchedulePreview: React.FC<SchedulePreviewProps> = ({ isOpen, title, note, warnings, tasks, changes, onApply, onClose }) => {
+  const { members, getMemberByUid } = useHousehold();
+  const { getRoomById } = useRooms();
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  // A new proposal starts with every change accepted
+  useEffect(() => {
+    setRejected(new Set());
+  }, [changes]);
+
+  const accepted = useMemo(() => changes.filter(c => !rejected.has(c.taskId)), [changes, rejected]);
+
+  // Weekly load per day now and with the accepted changes applied
+  const dayLoads = useMemo(() => {
+    const byId = new Map(accepted.map(c => [c.taskId, c]));
+    const proposed = [
+      ...tasks.map(task => {
+        const change = byId.get(task.id);
+        return change ? withScheduleOf(task, change.after) : task;
+      }),
+      ...accepted.filter(c => !c.before).map(c => c.after),
+    ];
+    const before = getScheduleSummary(tasks, getWeeklyAssignments(tasks));
+    const after = getScheduleSummary(proposed, getWeeklyAssignments(proposed));
+    return DAY_SHORT.map((_, day) => ({
+      before: before.get(day)?.totalMinutes ?? 0,
+      after: after.get(day)?.totalMinutes ?? 0,
+    }));
+  }, [tasks, accepted]);
+
+  const maxLoad = Math.max(...dayLoads.map(d => Math.max(d.before, d.after)), 1);
+
+  const toggleChange = (taskId: string) => {
+    const next = new Set(rejected);
+    if (next.has(taskId)) next.delete(taskId);
+    else next.add(taskId);
+    setRejected(next);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(accepted);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const memberName = (uid?: string) => (uid ? getMemberByUid(uid)?.displayName ?? 'Former member' : 'Everyone');
+  const roomName = (task: Task) => getRoomById(task.roomId)?.name || task.room || 'General';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100 flex items-center gap-2">
+              <Eye className="text-teal-600 dark:text-teal-400" size={28} />
+              {title}
+            </h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+              Review the changes before they're saved. Uncheck any you don't want.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {note && (
+            <p className="text-sm text-slate-700 dark:text-slate-300 p-4 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-800 rounded-lg">
+              {note}
+            </p>
+          )}
+
+          {warnings && warnings.length > 0 && (
+            <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+              <p className="flex items-center gap-1.5 text-xs font-semibold text-amber-800 dark:text-amber-300 mb-1">
+                <AlertTriangle size={12} />
+                Didn't fit in the time budgets
+              </p>
+              <p className="text-xs text-amber-700 dark:text-amber-400">{warnings.join(', ')}</p>
+            </div>
+          )}
+
+          {/* Before/after weekly load */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wide">Weekly Load</h3>
+              <div className="flex items-center gap-3 text-xs text-slate-500 dark:text-slate-400">
+                <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-slate-300 dark:bg-slate-600" />Now</span>
+                <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-teal-500" />After</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-7 gap-2">
+              {dayLoads.map(({ before, after }, day) => (
+                <div key={day} className="flex flex-col items-center">
+                  <div className="flex items-end gap-1 h-24">
+                    <div
+                      className="w-3 bg-slate-300 dark:bg-slate-600 rounded-t"
+                      style={{ height: `${(before / maxLoad) * 100}%` }}
+                      title={`Now: ${before}min`}
+                    />
+                    <div
+                      className="w-3 bg-teal-500 rounded-t transition-all duration-300"
+                      style={{ height: `${(after / maxLoad) * 100}%` }}
+                      title={`After: ${after}min`}
+                    />
+                  </div>
+                  <span className="text-xs font-medium text-slate-700 dark:text-slate-300 mt-1">{DAY_SHORT[day]}</span>
+                  <span className="text-[10px] text-slate-500 dark:text-slate-400">
+                    {before === after ? `${after}m` : `${before}→${after}m`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Changes */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wide">
+                Changes ({accepted.length} of {changes.length})
+              </h3>
+              {changes.length > 0 && (
+                <div className="flex gap-3 text-xs">
+                  <button onClick={() => setRejected(new Set())} className="text-teal-600 hover:text-teal-700">All</button>
+                  <button onClick={() => setRejected(new Set(changes.map(c => c.taskId)))} className="text-slate-500 hover:text-slate-700">None</button>
+                </div>
+              )}
+            </div>
+
+            {changes.length === 0 ? (
+              <p className="text-sm text-slate-400 dark:text-slate-500 italic">The schedule is already balanced. Nothing would change.</p>
+            ) : (
+              <div className="space-y-2">
+                {changes.map(({ taskId, before, after, reason }) => {
+                  const isAccepted = !rejected.has(taskId);
+                  const daysMoved = !before || formatDays(before) !== formatDays(after);
+                  const assigneeMoved = members.length > 1 && (before?.assignedTo ?? '') !== (after.assignedTo ?? '');
+                  return (
+                    <label
+                      key={taskId}
+                      className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                        isAccepted
+                          ? 'bg-white dark:bg-slate-700/50 border-slate-200 dark:border-slate-600'
+                          : 'bg-slate-50 dark:bg-slate-800 border-slate-100 dark:border-slate-700 opacity-60'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isAccepted}
+                        onChange={() => toggleChange(taskId)}
+                        className="mt-1"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                          {after.description}
+                          {!before && (
+                            <span className="ml-2 text-[10px] font-semibold uppercase text-indigo-600 bg-indigo-50 dark:bg-indigo-900/30 px-1.5 py-0.5 rounded">New</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          {roomName(after)} · {after.frequency} · {after.estimatedMinutes}min
+                        </p>
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-slate-700 dark:text-slate-300">
+                          {daysMoved && (
+                            <span className="flex items-center gap-1">
+                              {before && <>{formatDays(before)} <ArrowRight size={12} className="text-slate-400" /></>}
+                              <span className="font-medium text-teal-700 dark:text-teal-400">{formatDays(after)}</span>
+                            </span>
+                          )}
+                          {assigneeMoved && (
+                            <span className="flex items-center gap-1">
+                              {memberName(before?.assignedTo)} <ArrowRight size={12} className="text-slate-400" />
+                              <span className="font-medium text-indigo-700 dark:text-indigo-400">{memberName(after.assignedTo)}</span>
+                            </span>
+                          )}
+                        </div>
+                        {assigneeMoved && reason && (
+                          <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-0.5">
+                            {describeAssignmentReason(reason, memberName(after.assignedTo))}
+                          </p>
+                        )}
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer Actions */}
+        <div className="border-t border-slate-200 dark:border-slate-700 p-6 bg-slate-50 dark:bg-slate-800/50 flex justify-between items-center">
+          <button
+            onClick={onClose}
+            className="px-6 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-white dark:hover:bg-slate-700 transition-colors"
+          >
+            Discard
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={accepted.length === 0 || isApplying}
+            className="px-6 py-2.5 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {isApplying ? (
+              <>
+                <RefreshCw size={18} className="animate-spin" />
+                Applying...
+              </>
+            ) : (
+              <>
+                <Check size={18} />
+                Apply {accepted.length} {accepted.length === 1 ? 'Change' : 'Changes'}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePreview;
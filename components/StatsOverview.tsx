@@ -1,17 +1,23 @@
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie } from 'recharts';
-import { Task, RoomType, HouseholdMember } from '../types';
+import { Task, RoomType, HouseholdMember, CompletionEvent } from '../types';
 import { useRooms } from '../contexts/RoomsContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { isFloating, isWindowed, getFloatingDueDate, getLastCompletedDate, getToday, isOnTodaysList, isOccurrenceSkipped, getPauseOn, getOccurrenceAssignee, getOccurrencesByDate, isOccurrenceCompleted, addDays } from '../utils/recurrence';
+import { getFairnessLedger, getMemberShares, FAIRNESS_WINDOW_DAYS } from '../utils/scheduler';
+import { RotateCcw, AlertTriangle, SkipForward, Scale } from 'lucide-react';
 
 interface StatsOverviewProps {
   tasks: Task[];
+  completions?: CompletionEvent[]; // Over the fairness window
   members?: HouseholdMember[];
 }
 
 const COLORS = ['#0d9488', '#14b8a6', '#5eead4', '#ccfbf1', '#94a3b8'];
 
-const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, members = [] }) => {
+const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, completions = [], members = [] }) => {
   const { getRoomById } = useRooms();
+  const { scheduleSettings } = useHousehold();
 
   // Helper to get room name from task
   const getRoomName = (task: Task): string => {
@@ -22,8 +28,14 @@ const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, members = [] }) =>
     return task.room || 'General';
   };
 
-  // Focus on today's tasks only
-  const todaysTasks = tasks.filter(t => t.isDue);
+  const today = getToday();
+
+  // Focus on today's tasks only, including missed occurrences carried over into today
+  const todaysTasks = tasks.filter(isOnTodaysList);
+  const overdueTasks = todaysTasks.filter(t => t.isOverdue && !t.isCompleted);
+  const oldestOverdueDays = overdueTasks.reduce((max, t) => Math.max(max, t.overdueDays ?? 0), 0);
+  // Skipped occurrences aren't due, so they count toward neither the total nor the completed share
+  const skippedToday = tasks.filter(t => !isFloating(t) && isOccurrenceSkipped(t, today));
 
   // Calculate total minutes per room for TODAY's tasks
   const minutesByRoom = todaysTasks.reduce((acc, task) => {
@@ -53,11 +65,34 @@ const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, members = [] }) =>
 
   const totalTimeToday = todaysTasks.reduce((sum, t) => sum + t.estimatedMinutes, 0);
   const remainingTimeToday = todaysTasks.filter(t => !t.isCompleted).reduce((sum, t) => sum + t.estimatedMinutes, 0);
+  const completionPct = totalTasksToday > 0 ? Math.round((completedTasksToday / totalTasksToday) * 100) : 0;
+  const pausedToday = totalTasksToday === 0 ? getPauseOn(today) : undefined;
+
+  // Completion over the past week. Paused days have no occurrences, so they're
+  // left out of the rate instead of counting as missed; so are window tasks, which
+  // are due every day until they're done.
+  const weekStart = addDays(today, -7);
+  let weekDue = 0;
+  let weekDone = 0;
+  const pastWeek = getOccurrencesByDate(tasks.filter(t => !isFloating(t) && !isWindowed(t)), weekStart, addDays(today, -1));
+  for (const [date, dayTasks] of pastWeek) {
+    weekDue += dayTasks.length;
+    weekDone += dayTasks.filter(t => isOccurrenceCompleted(t, date)).length;
+  }
+  const pausedDaysThisWeek = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).filter(d => getPauseOn(d)).length;
+
+  // Floating tasks: due dates projected from the latest completion
+  const formatShortDate = (dateStr: string) =>
+    new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const floatingSchedule = tasks
+    .filter(isFloating)
+    .map(task => ({ task, dueDate: getFloatingDueDate(task), lastDone: getLastCompletedDate(task) }))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
 
   // Household member completion stats
   const showHouseholdActivity = members.length > 1;
   const memberStats = showHouseholdActivity ? members.map(member => {
-    const assignedTasks = todaysTasks.filter(t => t.assignedTo === member.uid);
+    const assignedTasks = todaysTasks.filter(t => getOccurrenceAssignee(t, today) === member.uid);
     const completed = assignedTasks.filter(t => t.isCompleted).length;
     return {
       uid: member.uid,
@@ -69,6 +104,10 @@ const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, members = [] }) =>
     };
   }) : [];
 
+  // Minutes each member got done over the trailing window, against their share
+  const ledger = showHouseholdActivity ? getFairnessLedger(tasks, completions, getMemberShares(members, scheduleSettings), today) : [];
+  const ledgerMax = Math.max(...ledger.map(e => Math.max(e.completedMinutes, e.fairMinutes)), 1);
+
   return (
     <div className="space-y-6 mb-8">
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -76,13 +115,13 @@ const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, members = [] }) =>
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 flex flex-col justify-center">
           <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 mb-4">Today's Progress</h3>
           <div className="flex items-end space-x-2 mb-2">
-              <span className="text-4xl font-bold text-teal-600">{totalTasksToday > 0 ? Math.round((completedTasksToday / totalTasksToday) * 100) : 0}%</span>
-              <span className="text-slate-500 dark:text-slate-400 mb-1">complete</span>
+              <span className="text-4xl font-bold text-teal-600">{pausedToday ? 'Paused' : `${completionPct}%`}</span>
+              <span className="text-slate-500 dark:text-slate-400 mb-1">{pausedToday ? pausedToday.label || 'household away' : 'complete'}</span>
           </div>
           <div className="w-full bg-slate-100 dark:bg-slate-700 rounded-full h-2.5 mb-6">
               <div
                   className="bg-teal-500 h-2.5 rounded-full transition-all duration-500"
-                  style={{ width: `${totalTasksToday > 0 ? Math.round((completedTasksToday / totalTasksToday) * 100) : 0}%` }}
+                  style={{ width: `${completionPct}%` }}
               ></div>
           </div>
           <div className="grid grid-cols-2 gap-4 text-sm">
@@ -95,6 +134,24 @@ const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, members = [] }) =>
                   <p className="font-semibold text-slate-800 dark:text-slate-200">{dueTasksToday} of {totalTasksToday}</p>
               </div>
           </div>
+          {weekDue > 0 && (
+              <p className="mt-4 text-sm text-slate-500 dark:text-slate-400">
+                  Past 7 days: <span className="font-semibold text-slate-800 dark:text-slate-200">{Math.round((weekDone / weekDue) * 100)}%</span> done
+                  {pausedDaysThisWeek > 0 && ` · ${pausedDaysThisWeek} paused day${pausedDaysThisWeek === 1 ? '' : 's'} excluded`}
+              </p>
+          )}
+          {overdueTasks.length > 0 && (
+              <p className="mt-4 flex items-center text-sm text-red-600 dark:text-red-400 font-medium">
+                  <AlertTriangle size={14} className="mr-1.5" />
+                  {overdueTasks.length} carried over · oldest {oldestOverdueDays}d overdue
+              </p>
+          )}
+          {skippedToday.length > 0 && (
+              <p className="mt-2 flex items-center text-sm text-slate-500 dark:text-slate-400">
+                  <SkipForward size={14} className="mr-1.5" />
+                  {skippedToday.length} skipped today ({skippedToday.reduce((sum, t) => sum + t.estimatedMinutes, 0)}m)
+              </p>
+          )}
         </div>
 
         {/* Time Distribution Chart */}
@@ -152,6 +209,40 @@ const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, members = [] }) =>
         </div>
       </div>
 
+      {/* Completion-based due dates */}
+      {floatingSchedule.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 mb-4 flex items-center">
+            <RotateCcw size={18} className="text-teal-600 mr-2" />
+            Due After Last Completion
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {floatingSchedule.slice(0, 9).map(({ task, dueDate, lastDone }) => {
+              const isLate = dueDate < today;
+              return (
+                <div key={task.id} className="flex items-center justify-between gap-3 p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{task.description}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                      {getRoomName(task)} · {lastDone ? `done ${formatShortDate(lastDone)}` : 'not done yet'}
+                    </p>
+                  </div>
+                  <span className={`text-xs font-medium px-2 py-1 rounded-full whitespace-nowrap ${
+                    isLate
+                      ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400'
+                      : dueDate === today
+                        ? 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+                        : 'bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400'
+                  }`}>
+                    {dueDate === today ? 'Due today' : `${isLate ? 'Was due' : 'Due'} ${formatShortDate(dueDate)}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Household Activity */}
       {showHouseholdActivity && (
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
@@ -187,6 +278,45 @@ const StatsOverview: React.FC<StatsOverviewProps> = ({ tasks, members = [] }) =>
               </div>
             ))}
           </div>
+
+          {/* Fairness ledger */}
+          <div className="mt-6">
+            <h4 className="flex items-center gap-1.5 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">
+              <Scale size={14} />
+              Fairness, last {FAIRNESS_WINDOW_DAYS / 7} weeks
+            </h4>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+              Minutes done against each member's share. Balancing members gives new tasks to whoever is behind.
+            </p>
+            <div className="space-y-2">
+              {ledger.map(entry => (
+                <div key={entry.uid} className="flex items-center gap-3 text-xs">
+                  <span className="w-24 truncate text-slate-700 dark:text-slate-300">
+                    {members.find(m => m.uid === entry.uid)?.displayName}
+                  </span>
+                  <div className="relative flex-1 bg-slate-100 dark:bg-slate-700 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${entry.balance < 0 ? 'bg-amber-400' : 'bg-teal-500'}`}
+                      style={{ width: `${(entry.completedMinutes / ledgerMax) * 100}%` }}
+                    ></div>
+                    <div
+                      className="absolute top-[-2px] w-0.5 h-3 bg-slate-500"
+                      style={{ left: `${(entry.fairMinutes / ledgerMax) * 100}%` }}
+                      title={`Fair share: ${entry.fairMinutes}min`}
+                    ></div>
+                  </div>
+                  <span className="w-40 text-right text-slate-500 whitespace-nowrap">
+                    {entry.completedMinutes}/{entry.assignedMinutes}min
+                    {entry.balance !== 0 && (
+                      <span className={entry.balance < 0 ? 'text-amber-600' : 'text-teal-600'}>
+                        {' · '}{entry.balance < 0 ? `${-entry.balance}m behind` : `${entry.balance}m ahead`}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
       )}
     </div>
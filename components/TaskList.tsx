@@ -1,19 +1,27 @@
 import React, { useState, useMemo } from 'react';
-import { Task, RoomType, Frequency } from '../types';
-import { CheckCircle2, Circle, Clock, AlertCircle, Plus, Edit2, Trash2, Check, X } from 'lucide-react';
+import { Task, RoomType, Frequency, TimeSlot } from '../types';
+import { CheckCircle2, Circle, Clock, AlertCircle, AlertTriangle, Plus, Edit2, Trash2, Check, X, SkipForward, AlarmClock, CalendarClock, Moon, ChevronDown, ChevronRight, Sunrise, Sun, Sunset, Lock, Unlock, Loader2 } from 'lucide-react';
 import TaskModal from './TaskModal';
+import { describeRule, isFloating, getFloatingIntervalDays, isOnTodaysList, getCarryOverTarget, getToday, getNextOccurrence, getSnoozeDate, addDays, getScheduledDays, isDormant, getNextActiveDate, describeActiveMonths, getOccurrenceAssignee, isWindowed, getTaskWindow, getWindowName } from '../utils/recurrence';
+import { getTaskSlot, compareBySlot, formatTaskSlot } from '../utils/scheduler';
+import { getActiveClaim } from '../utils/claims';
 import { useHousehold } from '../contexts/HouseholdContext';
 import { useRooms } from '../contexts/RoomsContext';
 import { useAuth } from '../contexts/AuthContext';
 
 interface TaskListProps {
   tasks: Task[];
-  onToggleTask: (taskId: string) => void;
+  onToggleTask: (taskId: string, date?: string) => void;
   onSaveTask: (task: Partial<Task>) => void;
+  onToggleLock: (taskId: string, locked: boolean) => void;
   onDeleteTask: (taskId: string) => void;
+  onSkipOccurrence: (taskId: string, dates: string[]) => void;
+  onMoveOccurrence: (taskId: string, date: string, newDate: string) => void;
 }
 
-const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, onDeleteTask }) => {
+const SLOT_ICONS: Record<TimeSlot, typeof Sun> = { morning: Sunrise, afternoon: Sun, evening: Sunset };
+
+const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, onToggleLock, onDeleteTask, onSkipOccurrence, onMoveOccurrence }) => {
   const { user } = useAuth();
   const { members, getMemberByUid } = useHousehold();
   const { getRoomById } = useRooms();
@@ -24,6 +32,8 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
   const [modalMode, setModalMode] = useState<'add' | 'edit'>('add');
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [moving, setMoving] = useState<{ taskId: string; date: string; newDate: string } | null>(null);
+  const [showDormant, setShowDormant] = useState(false);
 
   // Helper to get room name from task (supports both new roomId and legacy room field)
   const getRoomName = (task: Task): string => {
@@ -34,19 +44,38 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
     return task.room || 'General';
   };
 
-  // Helper to format scheduled day
+  // Only tasks on fixed days are placed by balancing, so only they can be locked
+  const isLockable = (task: Task) =>
+    !isFloating(task) && !isWindowed(task) && task.frequency !== Frequency.Daily && task.frequency !== Frequency.Custom;
+
+  const isRoomLocked = (task: Task) => !!getRoomById(task.roomId)?.locked;
+
+  // Helper to format scheduled days: "Mon" for one day, compact "M/W/F" for several.
+  // Window tasks have no day of their own, only a suggested one.
   const formatScheduledDay = (task: Task): string | null => {
-    if (task.scheduledDay === undefined) return null;
+    if (isWindowed(task)) {
+      const anytime = `Anytime this ${getWindowName(task)}`;
+      if (task.suggestedDay === undefined) return anytime;
+      const isWeekday = task.frequency === Frequency.Weekly || task.frequency === Frequency.BiWeekly;
+      return `${anytime} · try ${isWeekday ? ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][task.suggestedDay] : `day ${task.suggestedDay}`}`;
+    }
+    const scheduledDays = getScheduledDays(task);
+    if (scheduledDays.length === 0 || isFloating(task)) return null;
 
     if (task.frequency === Frequency.Weekly || task.frequency === Frequency.BiWeekly) {
-      const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-      return days[task.scheduledDay];
+      if (scheduledDays.length === 1) {
+        const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+        return days[scheduledDays[0]];
+      }
+      const letters = ['Su', 'M', 'Tu', 'W', 'Th', 'F', 'Sa'];
+      return scheduledDays.map(d => letters[d]).join('/');
     }
 
     if (task.frequency === Frequency.Monthly || task.frequency === Frequency.Quarterly) {
-      const day = task.scheduledDay;
-      const suffix = day === 1 ? 'st' : day === 2 ? 'nd' : day === 3 ? 'rd' : 'th';
-      return `${day}${suffix}`;
+      return scheduledDays.map(day => {
+        const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+        return `${day}${suffix}`;
+      }).join('/');
     }
 
     return null;
@@ -59,6 +88,8 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
     return r;
   }, [tasks]);
 
+  const today = getToday();
+
   const filteredTasks = useMemo(() => {
     return tasks.filter(task => {
       // Safety check for undefined properties
@@ -73,24 +104,30 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
       if (!matchesSearch) return false;
 
       if (activeFilter === 'All') return true;
-      if (activeFilter === 'Due') return task.isDue;
-      if (activeFilter === 'Mine') return task.assignedTo === user?.uid;
+      if (activeFilter === 'Due') return isOnTodaysList(task);
+      // Includes tasks handed to you while their assignee is away
+      if (activeFilter === 'Mine') return getOccurrenceAssignee(task, today) === user?.uid;
       return task.roomType === activeFilter;
     });
-  }, [tasks, activeFilter, search, getRoomById]);
+  }, [tasks, activeFilter, search, getRoomById, today]);
+
+  // Out-of-season and ended tasks are listed separately
+  const dormantTasks = useMemo(() => filteredTasks.filter(task => isDormant(task, today)), [filteredTasks, today]);
 
   // Group by Room specific name for display
   const groupedTasks = useMemo(() => {
     const groups: { [key: string]: Task[] } = {};
-    filteredTasks.forEach(task => {
+    filteredTasks.filter(task => !isDormant(task, today)).forEach(task => {
       const roomName = getRoomName(task);
       if (!groups[roomName]) {
         groups[roomName] = [];
       }
       groups[roomName].push(task);
     });
+    // Carried-over tasks first, oldest miss at the top; the rest in time-of-day order
+    Object.values(groups).forEach(group => group.sort((a, b) => (b.overdueDays ?? 0) - (a.overdueDays ?? 0) || compareBySlot(a, b)));
     return groups;
-  }, [filteredTasks, getRoomById]);
+  }, [filteredTasks, getRoomById, today]);
 
   const handleAddTask = () => {
     setModalMode('add');
@@ -104,6 +141,21 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
     setIsModalOpen(true);
   };
 
+  // Checking off an overdue task works off its missed occurrences; unchecking undoes today
+  const handleToggle = (task: Task) => {
+    const today = getToday();
+    onToggleTask(task.id, task.isCompleted ? today : getCarryOverTarget(task, today));
+  };
+
+  // Skip/snooze/move act on the next open occurrence: today's unless it's already done
+  const getActionDate = (task: Task): string => {
+    const today = getToday();
+    return getNextOccurrence(task, task.isCompleted ? addDays(today, 1) : today);
+  };
+
+  const formatShortDate = (dateStr: string) =>
+    new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
   const handleSaveTask = (taskData: Partial<Task>) => {
     onSaveTask(taskData);
   };
@@ -191,7 +243,7 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
 
       {/* Task List Content */}
       <div className="p-4 space-y-8">
-        {Object.keys(groupedTasks).length === 0 ? (
+        {Object.keys(groupedTasks).length === 0 && dormantTasks.length === 0 ? (
             <div className="text-center py-20 text-slate-400 dark:text-slate-500">
                 <p>No tasks found for this filter.</p>
             </div>
@@ -216,7 +268,7 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
                                 }`}
                             >
                                 <button
-                                    onClick={() => onToggleTask(task.id)}
+                                    onClick={() => handleToggle(task)}
                                     className={`flex-shrink-0 mr-4 transition-colors ${
                                         task.isCompleted ? 'text-teal-500' : 'text-slate-300 hover:text-teal-500'
                                     }`}
@@ -229,8 +281,9 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
                                       <p className={`text-sm font-medium ${task.isCompleted ? 'text-slate-500 dark:text-slate-400 line-through decoration-slate-400' : 'text-slate-800 dark:text-slate-200'}`}>
                                           {task.description || 'Untitled Task'}
                                       </p>
-                                      {showAssignees && task.assignedTo && (() => {
-                                        const member = getMemberByUid(task.assignedTo);
+                                      {showAssignees && (() => {
+                                        const assignee = getOccurrenceAssignee(task, today);
+                                        const member = assignee ? getMemberByUid(assignee) : undefined;
                                         return member ? (
                                           <span
                                             className="inline-flex items-center justify-center w-5 h-5 rounded-full bg-teal-100 text-teal-700 text-[10px] font-bold flex-shrink-0"
@@ -246,14 +299,55 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
                                             <Clock size={12} className="mr-1" />
                                             {task.estimatedMinutes || 0}m
                                         </span>
+                                        {isLockable(task) && (task.locked || isRoomLocked(task)) && (
+                                            <span className="flex items-center text-amber-600" title="Balancing leaves this task alone">
+                                                <Lock size={12} className="mr-1" />
+                                                Locked
+                                            </span>
+                                        )}
+                                        {getTaskSlot(task) && (() => {
+                                          const SlotIcon = SLOT_ICONS[getTaskSlot(task)!];
+                                          return (
+                                            <span className="flex items-center">
+                                              <SlotIcon size={12} className="mr-1" />
+                                              {formatTaskSlot(task)}
+                                            </span>
+                                          );
+                                        })()}
                                         <span className="bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded border border-slate-200 dark:border-slate-600">
-                                            {task.frequency}
+                                            {isFloating(task)
+                                                ? `${getFloatingIntervalDays(task)}d after done`
+                                                : task.frequency === Frequency.Custom && task.recurrence ? describeRule(task.recurrence) : task.frequency}
                                         </span>
                                         {formatScheduledDay(task) && (
                                             <span className="bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400 px-1.5 py-0.5 rounded border border-teal-200 dark:border-teal-800 font-medium">
                                                 {formatScheduledDay(task)}
                                             </span>
                                         )}
+                                        {!task.isCompleted && (() => {
+                                          const claim = getActiveClaim(task, today);
+                                          return claim ? (
+                                            <span className="flex items-center text-amber-600 dark:text-amber-400">
+                                              <Loader2 size={12} className="mr-1 animate-spin" />
+                                              {claim.uid === user?.uid ? 'You started this' : `${getMemberByUid(claim.uid)?.displayName || 'Someone'} is on it`}
+                                            </span>
+                                          ) : null;
+                                        })()}
+                                        {task.activeMonths && task.activeMonths.length > 0 && (
+                                            <span className="text-slate-400 dark:text-slate-500" title="In season">
+                                                {describeActiveMonths(task.activeMonths)}
+                                            </span>
+                                        )}
+                                        {task.isOverdue && !task.isCompleted && (
+                                            <span
+                                                className="flex items-center text-red-600 dark:text-red-400 font-medium"
+                                                title={`Missed: ${task.missedDates?.join(', ')}`}
+                                            >
+                                                <AlertTriangle size={12} className="mr-1" />
+                                                {task.overdueDays}d overdue
+                                                {(task.missedDates?.length ?? 0) > 1 && ` · ${task.missedDates!.length} ${task.missedPolicy === 'stack' ? 'owed' : 'missed'}`}
+                                            </span>
+                                        )}
                                         {task.priority === 'High' && (
                                             <span className="flex items-center text-amber-600 font-medium">
                                                 <AlertCircle size={12} className="mr-1" />
@@ -263,7 +357,36 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
                                     </div>
                                 </div>
 
-                                {confirmingDeleteId === task.id ? (
+                                {moving?.taskId === task.id ? (
+                                    <div className="flex-shrink-0 ml-4 flex items-center gap-1.5 animate-fade-in">
+                                        <span className="text-xs text-slate-500 dark:text-slate-400 font-medium mr-1">
+                                            Move {formatShortDate(moving.date)} to
+                                        </span>
+                                        <input
+                                            type="date"
+                                            value={moving.newDate}
+                                            onChange={(e) => setMoving({ ...moving, newDate: e.target.value })}
+                                            className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 dark:text-slate-200"
+                                        />
+                                        <button
+                                            onClick={() => {
+                                                if (moving.newDate) onMoveOccurrence(task.id, moving.date, moving.newDate);
+                                                setMoving(null);
+                                            }}
+                                            className="p-1 rounded bg-teal-100 text-teal-700 hover:bg-teal-200 transition-colors"
+                                            title="Confirm move"
+                                        >
+                                            <Check size={14} />
+                                        </button>
+                                        <button
+                                            onClick={() => setMoving(null)}
+                                            className="p-1 rounded bg-slate-100 text-slate-500 hover:bg-slate-200 transition-colors"
+                                            title="Cancel"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                ) : confirmingDeleteId === task.id ? (
                                     <div className="flex-shrink-0 ml-4 flex items-center gap-1.5 animate-fade-in">
                                         <span className="text-xs text-red-600 font-medium mr-1">Delete?</span>
                                         <button
@@ -286,6 +409,48 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
                                     </div>
                                 ) : (
                                     <div className="flex-shrink-0 ml-4 flex items-center gap-2 opacity-0 group-hover:opacity-100">
+                                        {!isFloating(task) && (() => {
+                                            const actionDate = getActionDate(task);
+                                            const label = formatShortDate(actionDate);
+                                            return (
+                                                <>
+                                                    <button
+                                                        onClick={() => onSkipOccurrence(task.id, [actionDate])}
+                                                        className="text-slate-400 hover:text-amber-500 transition-colors"
+                                                        title={isWindowed(task) ? `Skip until ${formatShortDate(addDays(getTaskWindow(task, actionDate).end, 1))}` : `Skip ${label}`}
+                                                    >
+                                                        <SkipForward size={18} />
+                                                    </button>
+                                                    {/* Window tasks have no day to snooze or move */}
+                                                    {!isWindowed(task) && (<>
+                                                    <button
+                                                        onClick={() => onMoveOccurrence(task.id, actionDate, getSnoozeDate(actionDate, getToday()))}
+                                                        className="text-slate-400 hover:text-teal-600 transition-colors"
+                                                        title={`Snooze ${label} by a day`}
+                                                    >
+                                                        <AlarmClock size={18} />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => setMoving({ taskId: task.id, date: actionDate, newDate: actionDate })}
+                                                        className="text-slate-400 hover:text-teal-600 transition-colors"
+                                                        title={`Move ${label} to another day`}
+                                                    >
+                                                        <CalendarClock size={18} />
+                                                    </button>
+                                                    </>)}
+                                                </>
+                                            );
+                                        })()}
+                                        {isLockable(task) && (
+                                            <button
+                                                onClick={() => onToggleLock(task.id, !task.locked)}
+                                                disabled={isRoomLocked(task)}
+                                                className={`transition-colors disabled:opacity-50 ${task.locked || isRoomLocked(task) ? 'text-amber-500 hover:text-amber-600' : 'text-slate-400 hover:text-teal-600'}`}
+                                                title={isRoomLocked(task) ? 'Locked with its room' : task.locked ? 'Unlock so balancing can move it' : 'Lock so balancing leaves it alone'}
+                                            >
+                                                {task.locked || isRoomLocked(task) ? <Lock size={18} /> : <Unlock size={18} />}
+                                            </button>
+                                        )}
                                         <button
                                             onClick={() => handleEditTask(task)}
                                             className="text-slate-400 hover:text-teal-600 transition-colors"
@@ -308,6 +473,55 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onToggleTask, onSaveTask, on
                 </div>
             ))
         )}
+
+        {dormantTasks.length > 0 && (
+            <div className="animate-fade-in">
+                <button
+                    onClick={() => setShowDormant(!showDormant)}
+                    className="text-sm font-semibold text-slate-500 dark:text-slate-400 flex items-center hover:text-slate-700 dark:hover:text-slate-200 transition-colors"
+                >
+                    {showDormant ? <ChevronDown size={16} className="mr-1" /> : <ChevronRight size={16} className="mr-1" />}
+                    <Moon size={16} className="mr-2" />
+                    Dormant
+                    <span className="ml-3 text-xs font-normal bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded-full">
+                        {dormantTasks.length} tasks
+                    </span>
+                </button>
+                {showDormant && (
+                    <div className="mt-3 space-y-2">
+                        {dormantTasks.map(task => {
+                            const nextActive = getNextActiveDate(task, today);
+                            return (
+                                <div
+                                    key={task.id}
+                                    className="group flex items-center p-3 rounded-lg border border-dashed border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50"
+                                >
+                                    <div className="flex-1">
+                                        <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{task.description || 'Untitled Task'}</p>
+                                        <div className="flex items-center mt-1 space-x-3 text-xs text-slate-400 dark:text-slate-500">
+                                            <span>{getRoomName(task)}</span>
+                                            {task.activeMonths && task.activeMonths.length > 0 && (
+                                                <span>In season {describeActiveMonths(task.activeMonths)}</span>
+                                            )}
+                                            <span className="font-medium">
+                                                {nextActive ? `Back ${formatShortDate(nextActive)}` : 'Ended'}
+                                            </span>
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => handleEditTask(task)}
+                                        className="flex-shrink-0 ml-4 text-slate-400 hover:text-teal-600 transition-colors opacity-0 group-hover:opacity-100"
+                                        title="Edit task"
+                                    >
+                                        <Edit2 size={18} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        )}
       </div>
     </div>
     </>
@@ -1,8 +1,14 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Task, RoomType, Frequency } from '../types';
-import { X } from 'lucide-react';
+import { Task, RoomType, Frequency, RecurrenceRule, RecurrenceMode, MissedPolicy, TimeSlot, Rotation, TaskTag, TaskPhase } from '../types';
+import { X, Lock } from 'lucide-react';
 import { useHousehold } from '../contexts/HouseholdContext';
 import { useRooms } from '../contexts/RoomsContext';
+import RecurrenceEditor from './RecurrenceEditor';
+import RotationEditor from './RotationEditor';
+import { ruleFromLegacy, getToday, getFloatingIntervalDays, getScheduledDays, scheduledDayFields, isWindowed, getWindowName, describeActiveMonths, dayOfWeek, dayOfMonth } from '../utils/recurrence';
+import { TIME_SLOTS } from '../utils/scheduler';
+import { TASK_TAGS, describeIneligibility } from '../utils/eligibility';
+import { TASK_PHASES, getTaskPhase } from '../utils/route';
 
 interface TaskModalProps {
   isOpen: boolean;
@@ -43,6 +49,10 @@ const COMMON_CLEANING_TASKS = [
 ];
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Assignee option that switches the task to a rotation
+const ROTATE = '__rotate';
 
 const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mode, existingTasks = [] }) => {
   const { members } = useHousehold();
@@ -57,8 +67,21 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
     frequency: Frequency.Weekly,
     estimatedMinutes: 15,
     priority: 'Medium' as 'High' | 'Medium' | 'Low',
-    scheduledDay: new Date().getDay() as number | undefined,
+    scheduledDays: [dayOfWeek(getToday())] as number[],
     assignedTo: '' as string,
+    rotation: undefined as Rotation | undefined,
+    recurrence: undefined as RecurrenceRule | undefined,
+    recurrenceMode: 'fixed' as RecurrenceMode,
+    floatingIntervalDays: 7,
+    missedPolicy: 'collapse' as MissedPolicy,
+    activeFrom: '',
+    activeUntil: '',
+    activeMonths: [] as number[],
+    timeSlot: '' as TimeSlot | 'time' | '',
+    startTime: '',
+    locked: false,
+    tags: [] as TaskTag[],
+    phase: '' as TaskPhase | '',
   });
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [filteredSuggestions, setFilteredSuggestions] = useState<string[]>([]);
@@ -82,8 +105,21 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
         frequency: task.frequency,
         estimatedMinutes: task.estimatedMinutes,
         priority: task.priority,
-        scheduledDay: task.scheduledDay,
+        scheduledDays: getScheduledDays(task),
         assignedTo: task.assignedTo || '',
+        rotation: task.rotation,
+        recurrence: task.recurrence,
+        recurrenceMode: task.recurrenceMode ?? 'fixed',
+        floatingIntervalDays: getFloatingIntervalDays(task),
+        missedPolicy: task.missedPolicy ?? 'collapse',
+        activeFrom: task.activeFrom ?? '',
+        activeUntil: task.activeUntil ?? '',
+        activeMonths: task.activeMonths ?? [],
+        timeSlot: task.startTime ? 'time' : task.timeSlot ?? '',
+        startTime: task.startTime ?? '',
+        locked: !!task.locked,
+        tags: task.tags ?? [],
+        phase: task.phase ?? '',
       });
     } else if (mode === 'add') {
       setFormData({
@@ -94,8 +130,21 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
         frequency: Frequency.Weekly,
         estimatedMinutes: 15,
         priority: 'Medium',
-        scheduledDay: new Date().getDay(),
+        scheduledDays: [dayOfWeek(getToday())],
         assignedTo: '',
+        rotation: undefined,
+        recurrence: undefined,
+        recurrenceMode: 'fixed',
+        floatingIntervalDays: 7,
+        missedPolicy: 'collapse',
+        activeFrom: '',
+        activeUntil: '',
+        activeMonths: [],
+        timeSlot: '',
+        startTime: '',
+        locked: false,
+        tags: [],
+        phase: '',
       });
     }
     // Reset suggestions when modal opens/closes
@@ -142,10 +191,30 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
   };
 
   // Determine whether scheduledDay picker should show, and what type
-  const needsScheduledDay = formData.frequency !== Frequency.Daily;
+  const isFloatingMode = formData.recurrenceMode === 'floating';
+  // A daily window is just a day, so daily tasks can't have one
+  const isWindowMode = formData.recurrenceMode === 'window' && formData.frequency !== Frequency.Daily;
+  const windowName = getWindowName({ frequency: formData.frequency, recurrence: formData.frequency === Frequency.Custom ? formData.recurrence : undefined });
+  const needsScheduledDay = formData.frequency !== Frequency.Daily && formData.frequency !== Frequency.Custom && !isFloatingMode && !isWindowMode;
+  const isRoomLocked = !!rooms.find(r => r.id === formData.roomId)?.locked;
+  const roomRotation = rooms.find(r => r.id === formData.roomId)?.rotation;
+  const assignedMember = members.find(m => m.uid === formData.assignedTo);
+  const assigneeIneligibility = assignedMember ? describeIneligibility(formData, assignedMember) : undefined;
+
+  const toggleTag = (tag: TaskTag) => {
+    const tags = formData.tags.includes(tag) ? formData.tags.filter(t => t !== tag) : [...formData.tags, tag];
+    setFormData({ ...formData, tags });
+  };
   const isDayOfWeek = formData.frequency === Frequency.Weekly || formData.frequency === Frequency.BiWeekly;
   const isDayOfMonth = formData.frequency === Frequency.Monthly || formData.frequency === Frequency.Quarterly;
 
+  // Toggle a weekday or month-day, always keeping at least one selected
+  const toggleScheduledDay = (day: number) => {
+    const days = formData.scheduledDays;
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b);
+    if (next.length > 0) setFormData({ ...formData, scheduledDays: next });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -157,8 +226,21 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
       frequency: formData.frequency,
       estimatedMinutes: formData.estimatedMinutes,
       priority: formData.priority,
-      scheduledDay: needsScheduledDay ? formData.scheduledDay : undefined,
-      assignedTo: formData.assignedTo || undefined,
+      ...(needsScheduledDay ? scheduledDayFields(formData.scheduledDays) : { scheduledDay: undefined, scheduledDays: undefined }),
+      assignedTo: !formData.rotation && formData.assignedTo ? formData.assignedTo : undefined,
+      rotation: formData.rotation?.memberUids.length ? formData.rotation : undefined,
+      recurrence: formData.frequency === Frequency.Custom ? formData.recurrence : undefined,
+      recurrenceMode: isFloatingMode ? 'floating' : isWindowMode ? 'window' : undefined,
+      floatingIntervalDays: isFloatingMode ? formData.floatingIntervalDays : undefined,
+      missedPolicy: !isFloatingMode && formData.missedPolicy === 'stack' ? 'stack' : undefined,
+      activeFrom: formData.activeFrom || undefined,
+      activeUntil: formData.activeUntil || undefined,
+      activeMonths: formData.activeMonths.length > 0 && formData.activeMonths.length < 12 ? formData.activeMonths : undefined,
+      timeSlot: formData.timeSlot && formData.timeSlot !== 'time' ? formData.timeSlot : undefined,
+      startTime: formData.timeSlot === 'time' && formData.startTime ? formData.startTime : undefined,
+      locked: needsScheduledDay && formData.locked ? true : undefined,
+      tags: formData.tags.length > 0 ? formData.tags : undefined,
+      phase: formData.phase || undefined,
       isDue: true,
     };
 
@@ -266,6 +348,29 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
             )}
           </div>
 
+          {/* Tags: what the task involves, for member eligibility */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Involves
+            </label>
+            <div className="flex flex-wrap gap-1.5">
+              {TASK_TAGS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => toggleTag(value)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+                    formData.tags.includes(value)
+                      ? 'bg-amber-500 text-white'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Assign To */}
           {showAssignee && (
             <div>
@@ -273,17 +378,38 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
                 Assign To
               </label>
               <select
-                value={formData.assignedTo}
-                onChange={(e) => setFormData({ ...formData, assignedTo: e.target.value })}
+                value={formData.rotation ? ROTATE : formData.assignedTo}
+                onChange={(e) => setFormData(e.target.value === ROTATE
+                  ? { ...formData, rotation: { memberUids: members.map(m => m.uid), every: 1, unit: 'occurrences', startDate: getToday() } }
+                  : { ...formData, assignedTo: e.target.value, rotation: undefined })}
                 className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
               >
-                <option value="">Everyone (unassigned)</option>
-                {members.map(m => (
-                  <option key={m.uid} value={m.uid}>
-                    {m.displayName || m.email}
-                  </option>
-                ))}
+                <option value="">{roomRotation ? 'Room rotation' : 'Everyone (unassigned)'}</option>
+                {members.map(m => {
+                  const ineligible = describeIneligibility(formData, m);
+                  return (
+                    <option key={m.uid} value={m.uid} disabled={!!ineligible && m.uid !== formData.assignedTo}>
+                      {m.displayName || m.email}{ineligible ? ` (not allowed: ${ineligible})` : ''}
+                    </option>
+                  );
+                })}
+                <option value={ROTATE}>Take turns…</option>
               </select>
+              {formData.rotation && (
+                <div className="mt-3 p-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg">
+                  <RotationEditor value={formData.rotation} onChange={rotation => setFormData({ ...formData, rotation })} tags={formData.tags} />
+                </div>
+              )}
+              {!formData.rotation && assigneeIneligibility && (
+                <p className="text-xs text-amber-600 mt-1">
+                  {assignedMember?.displayName} isn't allowed this task: it {assigneeIneligibility}.
+                </p>
+              )}
+              {!formData.rotation && roomRotation && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  This room takes turns; picking someone here overrides that for this task only.
+                </p>
+              )}
             </div>
           )}
 
@@ -298,17 +424,33 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
                 value={formData.frequency}
                 onChange={(e) => {
                   const freq = e.target.value as Frequency;
-                  let day = formData.scheduledDay;
-                  // Reset scheduledDay when switching frequency types
+                  let days = formData.scheduledDays;
+                  if (freq === Frequency.Custom) {
+                    // Seed the custom rule with the equivalent of the current preset
+                    const today = getToday();
+                    const seed = formData.recurrence ?? ruleFromLegacy({
+                      frequency: formData.frequency,
+                      ...scheduledDayFields(formData.scheduledDays),
+                      anchorDate: task?.anchorDate ?? today,
+                      nextDueDate: task?.nextDueDate ?? today,
+                    } as Task);
+                    setFormData({ ...formData, frequency: freq, recurrence: { ...seed, dtstart: seed.dtstart ?? today } });
+                    return;
+                  }
+                  // Keep the floating interval in step with the chosen frequency
+                  const floatingIntervalDays = getFloatingIntervalDays({ frequency: freq, nextDueDate: getToday() } as Task);
+                  // Reset scheduled days when switching frequency types
                   if (freq === Frequency.Daily) {
-                    day = undefined;
+                    days = [];
                   } else if (freq === Frequency.Weekly || freq === Frequency.BiWeekly) {
-                    day = (day !== undefined && day >= 0 && day <= 6) ? day : new Date().getDay();
+                    days = days.filter(d => d >= 0 && d <= 6);
+                    if (days.length === 0) days = [dayOfWeek(getToday())];
                   } else {
-                    // Monthly/Quarterly: day-of-month
-                    day = (day !== undefined && day >= 1 && day <= 31) ? day : new Date().getDate();
+                    // Monthly/Quarterly: days of month
+                    days = days.filter(d => d >= 1 && d <= 31);
+                    if (days.length === 0) days = [dayOfMonth(getToday())];
                   }
-                  setFormData({ ...formData, frequency: freq, scheduledDay: day });
+                  setFormData({ ...formData, frequency: freq, scheduledDays: days, floatingIntervalDays });
                 }}
                 className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
               >
@@ -317,6 +459,7 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
                 <option value="Bi-Weekly">Bi-Weekly</option>
                 <option value="Monthly">Monthly</option>
                 <option value="Quarterly">Quarterly</option>
+                <option value="Custom">Custom...</option>
               </select>
             </div>
 
@@ -359,16 +502,16 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
                 {isDayOfWeek ? (
                   <>
                     <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                      Scheduled Day of Week *
+                      Scheduled Days of Week *
                     </label>
                     <div className="flex gap-1">
                       {DAY_NAMES.map((name, idx) => (
                         <button
                           key={idx}
                           type="button"
-                          onClick={() => setFormData({ ...formData, scheduledDay: idx })}
+                          onClick={() => toggleScheduledDay(idx)}
                           className={`flex-1 py-2 text-xs font-medium rounded-lg transition-colors ${
-                            formData.scheduledDay === idx
+                            formData.scheduledDays.includes(idx)
                               ? 'bg-teal-600 text-white'
                               : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
                           }`}
@@ -381,23 +524,220 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, task, mo
                 ) : isDayOfMonth ? (
                   <>
                     <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                      Day of Month *
+                      Days of Month *
                     </label>
-                    <input
-                      type="number"
-                      required
-                      min="1"
-                      max="31"
-                      value={formData.scheduledDay ?? 1}
-                      onChange={(e) => setFormData({ ...formData, scheduledDay: parseInt(e.target.value) })}
-                      className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
-                    />
+                    <div className="grid grid-cols-7 gap-1">
+                      {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                        <button
+                          key={day}
+                          type="button"
+                          onClick={() => toggleScheduledDay(day)}
+                          className={`py-1 text-xs font-medium rounded transition-colors ${
+                            formData.scheduledDays.includes(day)
+                              ? 'bg-teal-600 text-white'
+                              : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+                          }`}
+                        >
+                          {day}
+                        </button>
+                      ))}
+                    </div>
+                    {formData.scheduledDays.some(d => d > 28) && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                        Days after the 28th fall on the last day in shorter months.
+                      </p>
+                    )}
                   </>
                 ) : null}
+                <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={formData.locked || isRoomLocked}
+                    disabled={isRoomLocked}
+                    onChange={(e) => setFormData({ ...formData, locked: e.target.checked })}
+                  />
+                  <Lock size={12} />
+                  {isRoomLocked ? 'Room is locked: balancing keeps these days' : 'Keep these days when balancing'}
+                </label>
               </div>
             )}
           </div>
 
+          {/* Schedule type: calendar-anchored, anytime in its period, or completion-relative */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Schedule Type
+            </label>
+            <div className="flex gap-1">
+              {([
+                ['fixed', 'Fixed dates'],
+                ['window', `Anytime that ${windowName}`],
+                ['floating', 'After last completion'],
+              ] as [RecurrenceMode, string][]).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, recurrenceMode: mode })}
+                  disabled={mode === 'window' && formData.frequency === Frequency.Daily}
+                  className={`flex-1 py-2 text-xs font-medium rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    formData.recurrenceMode === mode && (mode !== 'window' || isWindowMode)
+                      ? 'bg-teal-600 text-white'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {isFloatingMode && (
+              <div className="flex items-center gap-2 mt-3 text-sm text-slate-700 dark:text-slate-300">
+                <span>Due again</span>
+                <input
+                  type="number"
+                  required
+                  min="1"
+                  value={formData.floatingIntervalDays}
+                  onChange={(e) => setFormData({ ...formData, floatingIntervalDays: parseInt(e.target.value) })}
+                  className="w-20 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+                <span>days after it was last done</span>
+              </div>
+            )}
+            {isWindowMode && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                Due every day of the {windowName} until it's done once.
+                Balancing suggests the lightest day but never pins it.
+                {task?.suggestedDay !== undefined && isWindowed(task) && (
+                  <> Suggested: {isDayOfMonth ? `day ${task.suggestedDay}` : DAY_NAMES[task.suggestedDay]}.</>
+                )}
+              </p>
+            )}
+          </div>
+
+          {/* Custom recurrence rule */}
+          {formData.frequency === Frequency.Custom && formData.recurrence && !isFloatingMode && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Custom Schedule
+              </label>
+              <RecurrenceEditor
+                rule={formData.recurrence}
+                onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+              />
+            </div>
+          )}
+
+          {/* Missed occurrences: floating tasks only ever owe one */}
+          {!isFloatingMode && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                If Missed
+              </label>
+              <select
+                value={formData.missedPolicy}
+                onChange={(e) => setFormData({ ...formData, missedPolicy: e.target.value as MissedPolicy })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                <option value="collapse">Roll into one overdue task</option>
+                <option value="stack">Keep each missed occurrence</option>
+              </select>
+            </div>
+          )}
+
+          {/* Time of day */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Time of Day & Route Order
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={formData.timeSlot}
+                onChange={(e) => setFormData({ ...formData, timeSlot: e.target.value as TimeSlot | 'time' | '' })}
+                className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                <option value="">Any time</option>
+                {TIME_SLOTS.map(slot => (
+                  <option key={slot.value} value={slot.value}>{slot.label}</option>
+                ))}
+                <option value="time">At a specific time</option>
+              </select>
+              <select
+                value={formData.phase}
+                onChange={(e) => setFormData({ ...formData, phase: e.target.value as TaskPhase | '' })}
+                title="Where the task comes in a room's clean-through on today's route"
+                className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                <option value="">Route: {TASK_PHASES.find(p => p.value === getTaskPhase({ description: formData.description }))?.label} (guessed)</option>
+                {TASK_PHASES.map(phase => (
+                  <option key={phase.value} value={phase.value}>Route: {phase.label}</option>
+                ))}
+              </select>
+              {formData.timeSlot === 'time' && (
+                <input
+                  type="time"
+                  required
+                  value={formData.startTime}
+                  onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                  className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Active window: seasonal months and/or a date range */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Active Period
+            </label>
+            <div className="grid grid-cols-6 gap-1">
+              {MONTH_NAMES.map((name, idx) => (
+                <button
+                  key={idx}
+                  type="button"
+                  onClick={() => {
+                    const month = idx + 1;
+                    const months = formData.activeMonths;
+                    setFormData({
+                      ...formData,
+                      activeMonths: months.includes(month) ? months.filter(m => m !== month) : [...months, month].sort((a, b) => a - b),
+                    });
+                  }}
+                  className={`py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                    formData.activeMonths.includes(idx + 1)
+                      ? 'bg-teal-600 text-white'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              {formData.activeMonths.length > 0 ? `In season: ${describeActiveMonths(formData.activeMonths)}` : 'No months selected: active all year'}
+            </p>
+            <div className="grid grid-cols-2 gap-4 mt-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">From</label>
+                <input
+                  type="date"
+                  value={formData.activeFrom}
+                  onChange={(e) => setFormData({ ...formData, activeFrom: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">Until</label>
+                <input
+                  type="date"
+                  value={formData.activeUntil}
+                  min={formData.activeFrom || undefined}
+                  onChange={(e) => setFormData({ ...formData, activeUntil: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500 text-sm"
+                />
+              </div>
+            </div>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex justify-end gap-3 pt-4 border-t border-slate-200 dark:border-slate-700">
             <button
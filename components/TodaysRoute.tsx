@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { Task, TimeSlot } from '../types';
+import { isOnTodaysList, getOccurrenceAssignee, getToday } from '../utils/recurrence';
+import { TIME_SLOTS, getTaskSlot } from '../utils/scheduler';
+import { getRoute, getTaskPhase, TASK_PHASES, FLOORS } from '../utils/route';
+import { getActiveClaim } from '../utils/claims';
+import { useAuth } from '../contexts/AuthContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { useRooms } from '../contexts/RoomsContext';
+import { CheckCircle2, Circle, Clock, Footprints, MapPin, Play, Loader2 } from 'lucide-react';
+
+interface TodaysRouteProps {
+  tasks: Task[];
+  onToggleTask: (taskId: string) => void;
+  onClaimTask: (taskId: string) => void;
+  onReleaseClaim: (taskId: string) => void;
+}
+
+const floorLabel = (floor: number) => FLOORS.find(f => f.value === floor)?.label ?? `Floor ${floor}`;
+
+/**
+ * Today's tasks as a walk-through: background jobs started first, then room by
+ * room from the top floor down, each room cleaned top-down. Tasks with a time of
+ * day get their own walk in that part of the day. Starting a task shows the rest
+ * of the household it's in progress.
+ */
+const TodaysRoute: React.FC<TodaysRouteProps> = ({ tasks, onToggleTask, onClaimTask, onReleaseClaim }) => {
+  const { user } = useAuth();
+  const { members, getMemberByUid } = useHousehold();
+  const { rooms } = useRooms();
+  const [mineOnly, setMineOnly] = useState(false);
+  const today = getToday();
+
+  const todaysTasks = useMemo(() => tasks.filter(task =>
+    isOnTodaysList(task) && (!mineOnly || getOccurrenceAssignee(task, today) === user?.uid)
+  ), [tasks, mineOnly, today, user]);
+
+  // One walk per part of the day; tasks without a slot come last
+  const sections = useMemo(() => {
+    const slots: (TimeSlot | undefined)[] = [...TIME_SLOTS.map(s => s.value), undefined];
+    const showSlots = todaysTasks.some(t => getTaskSlot(t));
+    return slots
+      .map(slot => ({
+        slot,
+        stops: getRoute(showSlots ? todaysTasks.filter(t => getTaskSlot(t) === slot) : todaysTasks, rooms),
+      }))
+      .filter(section => section.stops.length > 0 && (showSlots || section.slot === undefined));
+  }, [todaysTasks, rooms]);
+
+  const totalMinutes = todaysTasks.reduce((sum, t) => sum + t.estimatedMinutes, 0);
+  const doneCount = todaysTasks.filter(t => t.isCompleted).length;
+  let step = 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Footprints size={20} className="text-teal-600 dark:text-teal-400" />
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">Today's Route</h3>
+          <span className="text-sm text-slate-500 dark:text-slate-400">
+            {doneCount} of {todaysTasks.length} done · {totalMinutes}min
+          </span>
+        </div>
+        {members.length > 1 && (
+          <button
+            onClick={() => setMineOnly(!mineOnly)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+              mineOnly ? 'bg-teal-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700'
+            }`}
+          >
+            My Route
+          </button>
+        )}
+      </div>
+
+      {todaysTasks.length === 0 && (
+        <p className="text-sm text-slate-400 dark:text-slate-500 italic">Nothing to do today.</p>
+      )}
+
+      {sections.map(({ slot, stops }) => (
+        <div key={slot ?? 'any'} className="space-y-3">
+          {sections.length > 1 && (
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wide">
+              {TIME_SLOTS.find(s => s.value === slot)?.label ?? 'Any Time'}
+            </h4>
+          )}
+          {stops.map((stop, index) => {
+            // Say when the route changes floor
+            const newFloor = index === 0 || stops[index - 1].floor !== stop.floor;
+            return (
+              <div key={`${stop.roomId}-${index}`} className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-2 bg-slate-50 dark:bg-slate-700/50 border-b border-slate-100 dark:border-slate-700">
+                  <span className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-slate-200">
+                    <MapPin size={14} className="text-teal-600" />
+                    {stop.roomName}
+                  </span>
+                  {newFloor && <span className="text-xs text-slate-500 dark:text-slate-400">{floorLabel(stop.floor)}</span>}
+                </div>
+                {stop.tasks.map(task => {
+                  step++;
+                  return (
+                    <div key={task.id} className="flex items-center px-4 py-2.5 border-b last:border-b-0 border-slate-50 dark:border-slate-700">
+                      <span className="w-6 text-xs font-semibold text-slate-400">{step}</span>
+                      <button
+                        onClick={() => onToggleTask(task.id)}
+                        className={`flex-shrink-0 mr-3 transition-colors ${task.isCompleted ? 'text-teal-500' : 'text-slate-300 hover:text-teal-500'}`}
+                      >
+                        {task.isCompleted ? <CheckCircle2 size={20} /> : <Circle size={20} strokeWidth={2} />}
+                      </button>
+                      <p className={`flex-1 text-sm ${task.isCompleted ? 'text-slate-400 line-through' : 'text-slate-700 dark:text-slate-200 font-medium'}`}>
+                        {task.description}
+                      </p>
+                      {!task.isCompleted && (() => {
+                        const claim = getActiveClaim(task, today);
+                        if (!claim) {
+                          return (
+                            <button
+                              onClick={() => onClaimTask(task.id)}
+                              className="ml-3 flex items-center gap-1 px-2 py-0.5 text-xs text-slate-500 dark:text-slate-400 rounded border border-slate-200 dark:border-slate-600 hover:text-teal-600 hover:border-teal-300"
+                              title="Let everyone know you're doing this"
+                            >
+                              <Play size={10} />
+                              Start
+                            </button>
+                          );
+                        }
+                        if (claim.uid === user?.uid) {
+                          return (
+                            <button
+                              onClick={() => onReleaseClaim(task.id)}
+                              className="ml-3 flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-teal-700 dark:text-teal-300 bg-teal-50 dark:bg-teal-900/30 rounded border border-teal-200 dark:border-teal-800"
+                              title="Stop without finishing"
+                            >
+                              <Loader2 size={10} className="animate-spin" />
+                              In progress
+                            </button>
+                          );
+                        }
+                        return (
+                          <span className="ml-3 flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                            <Loader2 size={10} className="animate-spin" />
+                            {getMemberByUid(claim.uid)?.displayName || 'Someone'} is on it
+                          </span>
+                        );
+                      })()}
+                      <span className="ml-3 text-[10px] uppercase text-slate-400 dark:text-slate-500">
+                        {TASK_PHASES.find(p => p.value === getTaskPhase(task))?.label}
+                      </span>
+                      <span className="ml-3 flex items-center text-xs text-slate-400 dark:text-slate-500">
+                        <Clock size={12} className="mr-1" />
+                        {task.estimatedMinutes}m
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TodaysRoute;
@@ -1,7 +1,12 @@
-import { Task, Frequency, RoomType, RoomTemplate } from './types';
+import { Task, Frequency, RoomType, RoomTemplate, ScheduleSettings } from './types';
 import { getNextOccurrence, isTaskDueOnDate, getToday } from './utils/recurrence';
 import { optimizeWeeklySchedule } from './utils/scheduler';
 
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  pauses: [],
+  awayPeriods: [],
+};
+
 export const ROOM_TASK_CATALOG: Record<RoomType, RoomTemplate> = {
   [RoomType.Kitchen]: {
     roomType: RoomType.Kitchen,
@@ -10,13 +15,13 @@ export const ROOM_TASK_CATALOG: Record<RoomType, RoomTemplate> = {
     description: 'Counters, appliances, sink, floors',
     tasks: [
       { description: 'Wipe down all countertops and backsplash', frequency: Frequency.Daily, estimatedMinutes: 10, priority: 'High' },
-      { description: 'Clean exterior of appliances (fridge, oven, microwave, dishwasher)', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium' },
-      { description: 'Clean inside microwave', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium' },
+      { description: 'Clean exterior of appliances (fridge, oven, microwave, dishwasher)', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium', tags: ['appliances'] },
+      { description: 'Clean inside microwave', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium', tags: ['appliances'] },
       { description: 'Scrub sink and polish fixtures', frequency: Frequency.Daily, estimatedMinutes: 5, priority: 'High' },
       { description: 'Wipe cabinet fronts (especially around handles)', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Low' },
-      { description: 'Clean stovetop and range hood', frequency: Frequency.Daily, estimatedMinutes: 5, priority: 'Medium' },
+      { description: 'Clean stovetop and range hood', frequency: Frequency.Daily, estimatedMinutes: 5, priority: 'Medium', tags: ['appliances'] },
       { description: 'Empty trash and replace liner', frequency: Frequency.Daily, estimatedMinutes: 2, priority: 'High' },
-      { description: 'Mop floors', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium' },
+      { description: 'Mop floors', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium', after: ['Wipe down all countertops and backsplash', 'Clean stovetop and range hood'] },
     ],
   },
   [RoomType.DiningRoom]: {
@@ -74,13 +79,13 @@ export const ROOM_TASK_CATALOG: Record<RoomType, RoomTemplate> = {
     icon: 'Bath',
     description: 'Toilet, sink, shower/tub, floors',
     tasks: [
-      { description: 'Scrub and disinfect toilet (inside and out)', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High' },
+      { description: 'Scrub and disinfect toilet (inside and out)', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High', tags: ['chemicals'] },
       { description: 'Clean sink and polish fixtures', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High' },
       { description: 'Wipe down counter and mirror', frequency: Frequency.Weekly, estimatedMinutes: 3, priority: 'Medium' },
-      { description: 'Clean tub/shower (scrub walls, floor, fixtures)', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'High' },
+      { description: 'Clean tub/shower (scrub walls, floor, fixtures)', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'High', tags: ['chemicals'], phase: 'surfaces' },
       { description: 'Wipe cabinet fronts', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Low' },
       { description: 'Empty trash', frequency: Frequency.Weekly, estimatedMinutes: 1, priority: 'Medium' },
-      { description: 'Mop floor', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium' },
+      { description: 'Mop floor', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium', after: ['Clean tub/shower (scrub walls, floor, fixtures)'] },
     ],
   },
   [RoomType.Bedroom]: {
@@ -89,11 +94,11 @@ export const ROOM_TASK_CATALOG: Record<RoomType, RoomTemplate> = {
     icon: 'Bed',
     description: 'Bed, surfaces, floors',
     tasks: [
-      { description: 'Make bed neatly', frequency: Frequency.Daily, estimatedMinutes: 3, priority: 'Low' },
-      { description: 'Change bed linens', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'Medium' },
+      { description: 'Make bed neatly', frequency: Frequency.Daily, estimatedMinutes: 3, priority: 'Low', after: ['Change bed linens'] },
+      { description: 'Change bed linens', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'Medium', phase: 'start' },
       { description: 'Dust nightstands, dresser, and all surfaces', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'Medium' },
       { description: 'Vacuum carpet / mop floor', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'Medium' },
-      { description: 'Dust ceiling fan/light fixtures', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low' },
+      { description: 'Dust ceiling fan/light fixtures', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low', tags: ['heights'] },
     ],
   },
   [RoomType.Hallway]: {
@@ -115,7 +120,8 @@ export const ROOM_TASK_CATALOG: Record<RoomType, RoomTemplate> = {
       { description: 'Dust all surfaces and shelving', frequency: Frequency.Monthly, estimatedMinutes: 10, priority: 'Low' },
       { description: 'Wipe down any furniture', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low' },
       { description: 'Vacuum carpet thoroughly', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium' },
-      { description: 'Check for cobwebs in corners/ceiling', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low' },
+      { description: 'Check for cobwebs in corners/ceiling', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low', tags: ['heights'] },
+      { description: 'Empty dehumidifier and clean its filter', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium', activeMonths: [6, 7, 8, 9], tags: ['heavy'] },
     ],
   },
   [RoomType.LaundryRoom]: {
@@ -125,8 +131,8 @@ export const ROOM_TASK_CATALOG: Record<RoomType, RoomTemplate> = {
     description: 'Washer, dryer, surfaces, floors',
     tasks: [
       { description: 'Wipe down washer and dryer exterior', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium' },
-      { description: 'Clean washer door seal and detergent dispenser', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High' },
-      { description: 'Clean lint trap and dryer vent area', frequency: Frequency.Weekly, estimatedMinutes: 3, priority: 'High' },
+      { description: 'Clean washer door seal and detergent dispenser', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High', phase: 'start' },
+      { description: 'Clean lint trap and dryer vent area', frequency: Frequency.Weekly, estimatedMinutes: 3, priority: 'High', tags: ['appliances'] },
       { description: 'Wipe counters and folding surfaces', frequency: Frequency.Weekly, estimatedMinutes: 3, priority: 'Medium' },
       { description: 'Sweep and mop floor', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'Medium' },
       { description: 'Clean utility sink (if present)', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium' },
@@ -139,12 +145,14 @@ export const ROOM_TASK_CATALOG: Record<RoomType, RoomTemplate> = {
     icon: 'Home',
     description: 'Baseboards, fans, windows, switches',
     tasks: [
-      { description: 'Vacuum all baseboards', frequency: Frequency.Monthly, estimatedMinutes: 20, priority: 'Medium' },
-      { description: 'Dust ceiling fan blades (all rooms)', frequency: Frequency.Monthly, estimatedMinutes: 15, priority: 'Low' },
+      { description: 'Vacuum all baseboards', frequency: Frequency.Monthly, estimatedMinutes: 20, priority: 'Medium', after: ['Dust ceiling fan blades (all rooms)'] },
+      { description: 'Dust ceiling fan blades (all rooms)', frequency: Frequency.Monthly, estimatedMinutes: 15, priority: 'Low', tags: ['heights'] },
       { description: 'Clean interior glass on windows and sliding doors', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium' },
       { description: 'Spot-clean any visible marks on walls', frequency: Frequency.Monthly, estimatedMinutes: 10, priority: 'Low' },
       { description: 'Wipe light switches and door handles throughout', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'High' },
       { description: 'Shake out or vacuum entry mats/rugs', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium' },
+      { description: 'Clear gutters and downspouts', frequency: Frequency.Monthly, estimatedMinutes: 45, priority: 'Medium', activeMonths: [4, 10], tags: ['heights'] },
+      { description: 'Wash window screens', frequency: Frequency.Monthly, estimatedMinutes: 30, priority: 'Low', activeMonths: [5] },
     ],
   },
 };
@@ -255,11 +263,11 @@ const getDefaultScheduledDay = (frequency: Frequency, index: number): number | u
 const RAW_LIST: Omit<Task, 'nextDueDate' | 'isDue'>[] = [
   // Kitchen
   { id: 'k1', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Wipe down all countertops and backsplash', frequency: Frequency.Daily, estimatedMinutes: 10, priority: 'High' },
-  { id: 'k2', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Clean exterior of appliances (fridge, oven, microwave, dishwasher)', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium' },
-  { id: 'k3', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Clean inside microwave', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium' },
+  { id: 'k2', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Clean exterior of appliances (fridge, oven, microwave, dishwasher)', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium', tags: ['appliances'] },
+  { id: 'k3', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Clean inside microwave', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Medium', tags: ['appliances'] },
   { id: 'k4', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Scrub sink and polish fixtures', frequency: Frequency.Daily, estimatedMinutes: 5, priority: 'High' },
   { id: 'k5', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Wipe cabinet fronts (especially around handles)', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Low' },
-  { id: 'k6', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Clean stovetop and range hood', frequency: Frequency.Daily, estimatedMinutes: 5, priority: 'Medium' },
+  { id: 'k6', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Clean stovetop and range hood', frequency: Frequency.Daily, estimatedMinutes: 5, priority: 'Medium', tags: ['appliances'] },
   { id: 'k7', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Empty trash and replace liner', frequency: Frequency.Daily, estimatedMinutes: 2, priority: 'High' },
   { id: 'k8', room: 'Kitchen', roomType: RoomType.Kitchen, description: 'Mop hardwood floors', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium' },
 
@@ -289,7 +297,7 @@ const RAW_LIST: Omit<Task, 'nextDueDate' | 'isDue'>[] = [
   { id: 'e4', room: 'Entryway', roomType: RoomType.Entryway, description: 'Mop/vacuum floor', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High' },
 
   // Half Bath
-  { id: 'hb1', room: 'Half Bathroom', roomType: RoomType.Bathroom, description: 'Scrub and disinfect toilet (inside and out)', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High' },
+  { id: 'hb1', room: 'Half Bathroom', roomType: RoomType.Bathroom, description: 'Scrub and disinfect toilet (inside and out)', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High', tags: ['chemicals'] },
   { id: 'hb2', room: 'Half Bathroom', roomType: RoomType.Bathroom, description: 'Clean sink and polish fixtures', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'High' },
   { id: 'hb3', room: 'Half Bathroom', roomType: RoomType.Bathroom, description: 'Wipe down counter and mirror', frequency: Frequency.Weekly, estimatedMinutes: 3, priority: 'Medium' },
   { id: 'hb4', room: 'Half Bathroom', roomType: RoomType.Bathroom, description: 'Empty trash', frequency: Frequency.Weekly, estimatedMinutes: 1, priority: 'Medium' },
@@ -299,7 +307,7 @@ const RAW_LIST: Omit<Task, 'nextDueDate' | 'isDue'>[] = [
   { id: 'mb1', room: 'Main Bedroom', roomType: RoomType.Bedroom, description: 'Change bed linens', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'Medium' },
   { id: 'mb2', room: 'Main Bedroom', roomType: RoomType.Bedroom, description: 'Make bed neatly', frequency: Frequency.Daily, estimatedMinutes: 3, priority: 'Low' },
   { id: 'mb3', room: 'Main Bedroom', roomType: RoomType.Bedroom, description: 'Dust nightstands, dresser, and all surfaces', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'Medium' },
-  { id: 'mb4', room: 'Main Bedroom', roomType: RoomType.Bedroom, description: 'Dust ceiling fan/light fixtures', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low' },
+  { id: 'mb4', room: 'Main Bedroom', roomType: RoomType.Bedroom, description: 'Dust ceiling fan/light fixtures', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low', tags: ['heights'] },
   { id: 'mb5', room: 'Main Bedroom', roomType: RoomType.Bedroom, description: 'Vacuum carpet including under bed edges', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'Medium' },
   { id: 'mb6', room: 'Main Bedroom', roomType: RoomType.Bedroom, description: 'Vacuum any upholstered furniture', frequency: Frequency.Weekly, estimatedMinutes: 5, priority: 'Low' },
 
@@ -331,11 +339,11 @@ const RAW_LIST: Omit<Task, 'nextDueDate' | 'isDue'>[] = [
   { id: 'bm1', room: 'Basement', roomType: RoomType.Basement, description: 'Dust all surfaces and shelving', frequency: Frequency.Monthly, estimatedMinutes: 10, priority: 'Low' },
   { id: 'bm2', room: 'Basement', roomType: RoomType.Basement, description: 'Wipe down any furniture', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low' },
   { id: 'bm3', room: 'Basement', roomType: RoomType.Basement, description: 'Vacuum carpet thoroughly', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium' },
-  { id: 'bm4', room: 'Basement', roomType: RoomType.Basement, description: 'Check for cobwebs in corners/ceiling', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low' },
+  { id: 'bm4', room: 'Basement', roomType: RoomType.Basement, description: 'Check for cobwebs in corners/ceiling', frequency: Frequency.Monthly, estimatedMinutes: 5, priority: 'Low', tags: ['heights'] },
 
   // Whole House Extras
   { id: 'wh1', room: 'Whole House', roomType: RoomType.General, description: 'Vacuum all baseboards', frequency: Frequency.Monthly, estimatedMinutes: 20, priority: 'Medium' },
-  { id: 'wh2', room: 'Whole House', roomType: RoomType.General, description: 'Dust ceiling fan blades (all rooms)', frequency: Frequency.Monthly, estimatedMinutes: 15, priority: 'Low' },
+  { id: 'wh2', room: 'Whole House', roomType: RoomType.General, description: 'Dust ceiling fan blades (all rooms)', frequency: Frequency.Monthly, estimatedMinutes: 15, priority: 'Low', tags: ['heights'] },
   { id: 'wh3', room: 'Whole House', roomType: RoomType.General, description: 'Clean interior glass on windows and sliding doors', frequency: Frequency.Weekly, estimatedMinutes: 15, priority: 'Medium' },
   { id: 'wh4', room: 'Whole House', roomType: RoomType.General, description: 'Spot-clean any visible marks on walls', frequency: Frequency.Monthly, estimatedMinutes: 10, priority: 'Low' },
   { id: 'wh5', room: 'Whole House', roomType: RoomType.General, description: 'Wipe light switches and door handles throughout', frequency: Frequency.Weekly, estimatedMinutes: 10, priority: 'High' },
@@ -354,6 +362,7 @@ const buildFallbackTasks = (): Task[] => {
     completedDates: [],
     nextDueDate: today, // Temporary, will be computed below
     isDue: false, // Temporary, will be computed below
+    createdAt: new Date().toISOString(),
   }));
 
   // Run optimizer to assign scheduledDay for weekly/bi-weekly tasks
@@ -1,10 +1,9 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { type User } from 'firebase/auth';
-import { authService } from '../services/authService';
-import { profileService } from '../services/profileService';
+import { AuthUser } from '../services/repository';
+import { useRepository } from './RepositoryContext';
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   loading: boolean;
   signUp: (email: string, password: string, displayName?: string) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
@@ -23,44 +22,45 @@ export function useAuth(): AuthContextType {
 }
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const repository = useRepository();
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = authService.onAuthStateChanged((firebaseUser) => {
-      setUser(firebaseUser);
+    const unsubscribe = repository.auth.onAuthStateChanged((authUser) => {
+      setUser(authUser);
       setLoading(false);
     });
     return unsubscribe;
-  }, []);
+  }, [repository]);
 
-  const handlePostSignUp = async (firebaseUser: User) => {
-    // Create user profile in Firestore
-    await profileService.createProfile(
-      firebaseUser.uid,
-      firebaseUser.email || '',
-      firebaseUser.displayName || undefined,
-      firebaseUser.photoURL || undefined,
+  const handlePostSignUp = async (authUser: AuthUser) => {
+    // Create user profile
+    await repository.profiles.createProfile(
+      authUser.uid,
+      authUser.email || '',
+      authUser.displayName || undefined,
+      authUser.photoURL || undefined,
     );
   };
 
   const signUp = async (email: string, password: string, displayName?: string) => {
-    const firebaseUser = await authService.signUpWithEmail(email, password, displayName);
-    await handlePostSignUp(firebaseUser);
+    const authUser = await repository.auth.signUpWithEmail(email, password, displayName);
+    await handlePostSignUp(authUser);
   };
 
   const signIn = async (email: string, password: string) => {
-    await authService.signInWithEmail(email, password);
+    await repository.auth.signInWithEmail(email, password);
   };
 
   const signInWithGoogle = async () => {
-    const firebaseUser = await authService.signInWithGoogle();
-    // Create profile if it doesn't exist (profileService.createProfile is idempotent)
-    await handlePostSignUp(firebaseUser);
+    const authUser = await repository.auth.signInWithGoogle();
+    // Create profile if it doesn't exist (repository.profiles.createProfile is idempotent)
+    await handlePostSignUp(authUser);
   };
 
   const signOut = async () => {
-    await authService.signOut();
+    await repository.auth.signOut();
   };
 
   return (
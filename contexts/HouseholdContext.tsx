@@ -1,12 +1,14 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { Household, HouseholdMember } from '../types';
-import { householdService } from '../services/householdService';
-import { profileService } from '../services/profileService';
+import { Household, HouseholdMember, ScheduleSettings } from '../types';
+import { DEFAULT_SCHEDULE_SETTINGS } from '../constants';
+import { setHouseholdSchedule, setHouseholdMembers } from '../utils/recurrence';
 import { useAuth } from './AuthContext';
+import { useRepository } from './RepositoryContext';
 
 interface HouseholdContextType {
   household: Household | null;
   members: HouseholdMember[];
+  scheduleSettings: ScheduleSettings;
   loading: boolean;
   isAdmin: boolean;
   getMemberByUid: (uid: string) => HouseholdMember | undefined;
@@ -16,6 +18,8 @@ interface HouseholdContextType {
   removeMember: (uid: string) => Promise<void>;
   regenerateInviteCode: () => Promise<string>;
   addLocalMember: (displayName: string) => Promise<void>;
+  saveScheduleSettings: (changes: Partial<ScheduleSettings>) => Promise<void>;
+  updateMemberEligibility: (uid: string, eligibility: Pick<HouseholdMember, 'ageBracket' | 'allowedTags' | 'blockedTags'>) => Promise<void>;
 }
 
 const HouseholdContext = createContext<HouseholdContextType | null>(null);
@@ -30,8 +34,10 @@ export function useHousehold(): HouseholdContextType {
 
 export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
+  const repository = useRepository();
   const [household, setHousehold] = useState<Household | null>(null);
   const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [scheduleSettings, setScheduleSettings] = useState<ScheduleSettings>(DEFAULT_SCHEDULE_SETTINGS);
   const [loading, setLoading] = useState(true);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
@@ -45,11 +51,12 @@ export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
     let unsubHousehold: (() => void) | undefined;
     let unsubMembers: (() => void) | undefined;
+    let unsubSchedule: (() => void) | undefined;
 
     async function init() {
       try {
         console.log('[HouseholdContext] Initializing for user:', user!.uid);
-        const profile = await profileService.getProfile(user!.uid);
+        const profile = await repository.profiles.getProfile(user!.uid);
         console.log('[HouseholdContext] User profile:', profile);
         let householdId = profile?.householdId;
 
@@ -58,9 +65,9 @@ export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         if (pendingInviteCode && !householdId) {
           try {
             console.log('[HouseholdContext] Processing pending invite code:', pendingInviteCode);
-            const inviteHousehold = await householdService.findHouseholdByInviteCode(pendingInviteCode);
+            const inviteHousehold = await repository.households.findHouseholdByInviteCode(pendingInviteCode);
             if (inviteHousehold) {
-              await householdService.joinHousehold(user!.uid, inviteHousehold.id);
+              await repository.households.joinHousehold(user!.uid, inviteHousehold.id);
               householdId = inviteHousehold.id;
               console.log('[HouseholdContext] Successfully joined household via invite:', inviteHousehold.name);
             }
@@ -75,15 +82,22 @@ export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         if (householdId) {
           console.log('[HouseholdContext] User has household, subscribing:', householdId);
           // User already has a household - subscribe to it
-          unsubHousehold = householdService.subscribeHousehold(householdId, (h) => {
+          unsubHousehold = repository.households.subscribeHousehold(householdId, (h) => {
             console.log('[HouseholdContext] Household updated:', h);
             setHousehold(h);
             setLoading(false);
           });
-          unsubMembers = householdService.subscribeMembers(householdId, (members) => {
+          unsubMembers = repository.households.subscribeMembers(householdId, (members) => {
             console.log('[HouseholdContext] Members updated:', members);
+            // Rotations skip members who may not do a task, so update the engine first
+            setHouseholdMembers(members);
             setMembers(members);
           });
+          unsubSchedule = repository.households.subscribeScheduleSettings(householdId, (settings) => {
+            // The recurrence engine applies these to every task, so update it before re-rendering
+            setHouseholdSchedule(settings);
+            setScheduleSettings(settings);
+          });
         } else {
           console.log('[HouseholdContext] No household found - showing setup flow');
           // No household - show setup flow
@@ -101,15 +115,16 @@ export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     return () => {
       if (unsubHousehold) unsubHousehold();
       if (unsubMembers) unsubMembers();
+      if (unsubSchedule) unsubSchedule();
     };
-  }, [user, refreshTrigger]);
+  }, [user, refreshTrigger, repository]);
 
   const createHouseholdAction = useCallback(async (name: string) => {
     if (!user) return;
-    await householdService.createHousehold(user.uid, name);
+    await repository.households.createHousehold(user.uid, name);
     // Trigger re-initialization to fetch updated profile and set up subscriptions
     setRefreshTrigger(prev => prev + 1);
-  }, [user]);
+  }, [user, repository]);
 
   const joinHouseholdAction = useCallback(async (inviteCode: string) => {
     if (!user) {
@@ -117,39 +132,49 @@ export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       return;
     }
     console.log('[HouseholdContext] Join household action:', { inviteCode, userId: user.uid });
-    const found = await householdService.findHouseholdByInviteCode(inviteCode);
+    const found = await repository.households.findHouseholdByInviteCode(inviteCode);
     if (!found) {
       console.error('[HouseholdContext] Invalid invite code');
       throw new Error('Invalid invite code');
     }
     console.log('[HouseholdContext] Found household, joining:', found);
-    await householdService.joinHousehold(user.uid, found.id);
+    await repository.households.joinHousehold(user.uid, found.id);
     console.log('[HouseholdContext] Join complete, triggering refresh');
     // Trigger re-initialization to fetch updated profile and set up subscriptions
     setRefreshTrigger(prev => prev + 1);
-  }, [user]);
+  }, [user, repository]);
 
   const leaveHouseholdAction = useCallback(async () => {
     if (!user || !household) return;
-    await householdService.leaveHousehold(user.uid, household.id);
+    await repository.households.leaveHousehold(user.uid, household.id);
     setHousehold(null);
     setMembers([]);
-  }, [user, household]);
+  }, [user, household, repository]);
 
   const removeMemberAction = useCallback(async (targetUid: string) => {
     if (!user || !household) return;
-    await householdService.removeMember(user.uid, targetUid, household.id);
-  }, [user, household]);
+    await repository.households.removeMember(user.uid, targetUid, household.id);
+  }, [user, household, repository]);
 
   const regenerateInviteCodeAction = useCallback(async (): Promise<string> => {
     if (!household) throw new Error('No household');
-    return householdService.regenerateInviteCode(household.id);
-  }, [household]);
+    return repository.households.regenerateInviteCode(household.id);
+  }, [household, repository]);
 
   const addLocalMemberAction = useCallback(async (displayName: string) => {
     if (!user || !household) return;
-    await householdService.addLocalMember(household.id, displayName, user.uid);
-  }, [user, household]);
+    await repository.households.addLocalMember(household.id, displayName, user.uid);
+  }, [user, household, repository]);
+
+  const saveScheduleSettingsAction = useCallback(async (changes: Partial<ScheduleSettings>) => {
+    if (!household) return;
+    await repository.households.saveScheduleSettings(household.id, changes);
+  }, [household, repository]);
+
+  const updateMemberEligibilityAction = useCallback(async (uid: string, eligibility: Pick<HouseholdMember, 'ageBracket' | 'allowedTags' | 'blockedTags'>) => {
+    if (!household) return;
+    await repository.households.updateMemberEligibility(household.id, uid, eligibility);
+  }, [household, repository]);
 
   const getMemberByUid = useCallback((uid: string) => {
     return members.find(m => m.uid === uid);
@@ -161,6 +186,7 @@ export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     <HouseholdContext.Provider value={{
       household,
       members,
+      scheduleSettings,
       loading,
       isAdmin,
       getMemberByUid,
@@ -170,6 +196,8 @@ export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       removeMember: removeMemberAction,
       regenerateInviteCode: regenerateInviteCodeAction,
       addLocalMember: addLocalMemberAction,
+      saveScheduleSettings: saveScheduleSettingsAction,
+      updateMemberEligibility: updateMemberEligibilityAction,
     }}>
       {children}
     </HouseholdContext.Provider>
@@ -0,0 +1,17 @@
+import React, { createContext, useContext } from 'react';
+import { Repository } from '../services/repository';
+
+const RepositoryContext = createContext<Repository | null>(null);
+
+export function useRepository(): Repository {
+  const context = useContext(RepositoryContext);
+  if (!context) {
+    throw new Error('useRepository must be used within a RepositoryProvider');
+  }
+  return context;
+}
+
+// Provides the backend picked at startup to everything below it
+export const RepositoryProvider: React.FC<{ repository: Repository; children: React.ReactNode }> = ({ repository, children }) => (
+  <RepositoryContext.Provider value={repository}>{children}</RepositoryContext.Provider>
+);
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { Room } from '../types';
-import { roomService } from '../services/roomService';
+import { useRepository } from './RepositoryContext';
+import { setRoomRotations } from '../utils/recurrence';
 
 interface RoomsContextValue {
   rooms: Room[];
@@ -29,6 +30,7 @@ interface RoomsProviderProps {
 }
 
 export const RoomsProvider: React.FC<RoomsProviderProps> = ({ children, householdId }) => {
+  const repository = useRepository();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -40,7 +42,9 @@ export const RoomsProvider: React.FC<RoomsProviderProps> = ({ children, househol
     }
 
     // Subscribe to room updates
-    const unsubscribe = roomService.subscribeRooms(householdId, (updatedRooms) => {
+    const unsubscribe = repository.rooms.subscribeRooms(householdId, (updatedRooms) => {
+      // Keep room rotations in step before anything re-renders with them
+      setRoomRotations(updatedRooms);
       setRooms(updatedRooms);
       setLoading(false);
     });
@@ -48,7 +52,7 @@ export const RoomsProvider: React.FC<RoomsProviderProps> = ({ children, househol
     return () => {
       if (unsubscribe) unsubscribe();
     };
-  }, [householdId]);
+  }, [householdId, repository]);
 
   const getRoomById = (roomId: string) => {
     return rooms.find(r => r.id === roomId);
@@ -60,22 +64,22 @@ export const RoomsProvider: React.FC<RoomsProviderProps> = ({ children, househol
 
   const createRoom = async (name: string, roomType: any, icon: string) => {
     if (!householdId) throw new Error('No household ID');
-    return await roomService.createRoom(householdId, name, roomType, icon);
+    return await repository.rooms.createRoom(householdId, name, roomType, icon);
   };
 
   const updateRoom = async (roomId: string, updates: Partial<Room>) => {
     if (!householdId) throw new Error('No household ID');
-    await roomService.updateRoom(householdId, roomId, updates);
+    await repository.rooms.updateRoom(householdId, roomId, updates);
   };
 
   const deleteRoom = async (roomId: string) => {
     if (!householdId) throw new Error('No household ID');
-    await roomService.deleteRoom(householdId, roomId);
+    await repository.rooms.deleteRoom(householdId, roomId);
   };
 
   const reorderRooms = async (roomIds: string[]) => {
     if (!householdId) throw new Error('No household ID');
-    await roomService.reorderRooms(householdId, roomIds);
+    await repository.rooms.reorderRooms(householdId, roomIds);
   };
 
   const value: RoomsContextValue = {
@@ -0,0 +1,63 @@
+import { useState, useEffect, useRef } from 'react';
+import { Household } from '../types';
+import { useRepository } from '../contexts/RepositoryContext';
+import { runMigrations, MigrationProgress, LATEST_SCHEMA_VERSION } from '../services/migrations';
+
+// How often a client waiting on another's migration checks whether it can take over
+const WAITING_RETRY_MS = 15 * 1000;
+
+/**
+ * Migrates the household's data when its schema version is behind, and reports
+ * how it's going. `pending` stays true until the household is up to date, so
+ * callers can hold off showing (and writing) data in the old shape.
+ */
+export function useMigrations(household: Household | null) {
+  const repository = useRepository();
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const running = useRef(false);
+  const mounted = useRef(true);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const householdId = household?.id;
+  const pending = !!household && (household.schemaVersion ?? 0) < LATEST_SCHEMA_VERSION;
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+      clearTimeout(retryTimer.current);
+    };
+  }, []);
+
+  // One run at a time; the household's schema version changes as steps finish,
+  // which would otherwise start another
+  useEffect(() => {
+    if (!householdId || !pending || running.current) return;
+    running.current = true;
+
+    runMigrations(repository, householdId, (next) => {
+      if (mounted.current) setProgress(next);
+    })
+      .then(result => {
+        if (result.status === 'waiting' && mounted.current) {
+          retryTimer.current = setTimeout(() => setAttempt(n => n + 1), WAITING_RETRY_MS);
+        }
+      })
+      .catch(err => {
+        console.error('Error running migrations:', err);
+        if (mounted.current) {
+          setProgress({ status: 'failed', description: 'Updating household data', error: err instanceof Error ? err.message : String(err) });
+        }
+      })
+      .finally(() => {
+        running.current = false;
+      });
+  }, [householdId, pending, attempt, repository]);
+
+  return {
+    pending,
+    progress,
+    retry: () => setAttempt(n => n + 1),
+  };
+}
@@ -1,14 +1,12 @@
 import { useState, useEffect } from 'react';
-import { Task, RoomType, Frequency, RoomTaskTemplate } from '../types';
-import { firestoreService } from '../services/firestoreService';
-import { roomService } from '../services/roomService';
+import { Task, TaskClaim, RoomType, Frequency, RoomTaskTemplate, CompletionEvent } from '../types';
+import { CompletionFilter, DeriveTaskUpdates, NewRoom, TaskChange, newRoomId } from '../services/repository';
+import { useRepository } from '../contexts/RepositoryContext';
 import { FALLBACK_TASKS } from '../constants';
-import { migrateTaskToRecurrence, needsMigration } from '../utils/migration';
-import { optimizeWeeklySchedule } from '../utils/scheduler';
+import { scheduleNewTasks, getDayBudgets } from '../utils/scheduler';
+import { useHousehold } from '../contexts/HouseholdContext';
 import { getNextOccurrence, isTaskDueOnDate, getToday } from '../utils/recurrence';
 
-const MIGRATION_KEY = 'tidyhome_schema_v2';
-
 const noop = async () => {};
 
 // Helper function to get default icon for room type
@@ -30,6 +28,8 @@ function getDefaultIconForRoomType(roomType: RoomType): string {
 }
 
 export function useTasks(householdId: string | null) {
+  const repository = useRepository();
+  const { scheduleSettings } = useHousehold();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [needsOnboarding, setNeedsOnboarding] = useState(false);
@@ -49,7 +49,7 @@ export function useTasks(householdId: string | null) {
     async function initializeTasks() {
       try {
         // Check if household has existing data
-        const hasData = await firestoreService.hasExistingData(householdId!);
+        const hasData = await repository.tasks.hasExistingData(householdId!);
 
         if (!hasData) {
           // First-time household: show onboarding wizard
@@ -59,23 +59,15 @@ export function useTasks(householdId: string | null) {
         }
 
         // Subscribe to real-time updates
-        unsubscribe = firestoreService.subscribeTasks(householdId!, async (updatedTasks) => {
-          // Check if migration is needed (one-time)
-          if (!localStorage.getItem(MIGRATION_KEY) && updatedTasks.some(needsMigration)) {
-            console.log('Migrating tasks to recurrence model...');
-            await runMigration(householdId!, updatedTasks);
-            localStorage.setItem(MIGRATION_KEY, 'true');
-            // The migration writes will trigger another snapshot, so we return early
-            return;
-          }
-
+        // (Tasks in an older shape are migrated by useMigrations)
+        unsubscribe = repository.tasks.subscribeTasks(householdId!, async (updatedTasks) => {
           setTasks(updatedTasks);
           setLoading(false);
         });
       } catch (err) {
         console.error('Error initializing tasks:', err);
         setError(err as Error);
-        // Fallback to local data if Firestore fails
+        // Fallback to local data if loading tasks fails
         setTasks(FALLBACK_TASKS);
         setLoading(false);
       }
@@ -86,16 +78,17 @@ export function useTasks(householdId: string | null) {
     return () => {
       if (unsubscribe) unsubscribe();
     };
-  }, [householdId]);
+  }, [householdId, repository]);
 
-  const completeOnboarding = async (selectedTasks: Task[]) => {
+  // Rooms and their tasks are written together, so a failed save can simply be retried
+  const completeOnboarding = async (rooms: NewRoom[], selectedTasks: Task[]) => {
     if (!householdId) return;
     try {
-      await firestoreService.saveTasks(householdId, selectedTasks);
+      await repository.rooms.createRoomsWithTasks(householdId, rooms, selectedTasks);
       setNeedsOnboarding(false);
       setLoading(true);
       // Start subscribing now that data exists
-      firestoreService.subscribeTasks(householdId, async (updatedTasks) => {
+      repository.tasks.subscribeTasks(householdId, async (updatedTasks) => {
         setTasks(updatedTasks);
         setLoading(false);
       });
@@ -108,27 +101,117 @@ export function useTasks(householdId: string | null) {
   const updateTask = async (taskId: string, updates: Partial<Task>) => {
     if (!householdId) return;
     try {
-      await firestoreService.updateTask(householdId, taskId, updates);
+      await repository.tasks.updateTask(householdId, taskId, updates);
+    } catch (err) {
+      console.error('Error updating task:', err);
+      throw err;
+    }
+  };
+
+  const updateTaskWith = async (taskId: string, change: (task: Task) => Partial<Task> | null, clear?: (keyof Task)[]) => {
+    if (!householdId) return;
+    try {
+      await repository.tasks.updateTaskWith(householdId, taskId, change, clear);
     } catch (err) {
       console.error('Error updating task:', err);
       throw err;
     }
   };
 
+  const updateTasks = async (changes: TaskChange[]) => {
+    if (!householdId) return;
+    try {
+      await repository.tasks.updateTasks(householdId, changes);
+    } catch (err) {
+      console.error('Error updating tasks:', err);
+      throw err;
+    }
+  };
+
   const saveTask = async (task: Task) => {
     if (!householdId) return;
     try {
-      await firestoreService.saveTask(householdId, task);
+      await repository.tasks.saveTask(householdId, task);
     } catch (err) {
       console.error('Error saving task:', err);
       throw err;
     }
   };
 
+  const applyTaskChanges = async (saves: Task[], changes: TaskChange[] = [], deleteIds: string[] = []) => {
+    if (!householdId) return;
+    try {
+      await repository.tasks.applyTaskChanges(householdId, saves, changes, deleteIds);
+    } catch (err) {
+      console.error('Error applying task changes:', err);
+      throw err;
+    }
+  };
+
+  const recordCompletion = async (event: Omit<CompletionEvent, 'id'>, derive: DeriveTaskUpdates) => {
+    if (!householdId) return;
+    try {
+      await repository.completions.recordCompletion(householdId, event, derive);
+    } catch (err) {
+      console.error('Error recording completion:', err);
+      throw err;
+    }
+  };
+
+  const removeCompletion = async (taskId: string, date: string, derive: DeriveTaskUpdates) => {
+    if (!householdId) return;
+    try {
+      await repository.completions.removeCompletion(householdId, taskId, date, derive);
+    } catch (err) {
+      console.error('Error removing completion:', err);
+      throw err;
+    }
+  };
+
+  const rebuildCompletedDates = async (taskId: string, from: string, dates: string[], derive: DeriveTaskUpdates) => {
+    if (!householdId) return;
+    try {
+      await repository.completions.rebuildCompletedDates(householdId, taskId, from, dates, derive);
+    } catch (err) {
+      console.error('Error rebuilding completed dates:', err);
+      throw err;
+    }
+  };
+
+  const claimTask = async (taskId: string, claim: TaskClaim): Promise<boolean> => {
+    if (!householdId) return false;
+    try {
+      return await repository.tasks.claimTask(householdId, taskId, claim);
+    } catch (err) {
+      console.error('Error claiming task:', err);
+      throw err;
+    }
+  };
+
+  const releaseClaim = async (taskId: string, uid: string) => {
+    if (!householdId) return;
+    try {
+      await repository.tasks.releaseClaim(householdId, taskId, uid);
+    } catch (err) {
+      console.error('Error releasing claim:', err);
+      throw err;
+    }
+  };
+
+  const getCompletions = async (filter: CompletionFilter): Promise<CompletionEvent[]> => {
+    if (!householdId) return [];
+    try {
+      return await repository.completions.getCompletions(householdId, filter);
+    } catch (err) {
+      console.error('Error loading completions:', err);
+      throw err;
+    }
+  };
+
   const deleteTask = async (taskId: string) => {
     if (!householdId) return;
     try {
-      await firestoreService.deleteTask(householdId, taskId);
+      await repository.tasks.deleteTask(householdId, taskId);
     } catch (err) {
       console.error('Error deleting task:', err);
       throw err;
@@ -139,17 +222,13 @@ export function useTasks(householdId: string | null) {
     if (!householdId) return;
     const today = getToday();
 
-    // Create the Room document first
-    const roomIcon = icon || getDefaultIconForRoomType(roomType);
-    const room = await roomService.createRoom(householdId, roomName, roomType, roomIcon);
+    // The room is written together with its tasks
+    const room: NewRoom = { id: newRoomId(), name: roomName, roomType, icon: icon || getDefaultIconForRoomType(roomType) };
 
     const newTasks: Task[] = seedTasks.map((tmpl, i) => {
       const id = `${roomType.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}-${i}`;
-      const scheduledDay = (tmpl.frequency === Frequency.Monthly || tmpl.frequency === Frequency.Quarterly)
-        ? ((i * 7) % 28) + 1
-        : undefined;
-      const anchorDate = (tmpl.frequency === Frequency.BiWeekly || tmpl.frequency === Frequency.Quarterly)
-        ? today : undefined;
+      // Month days and quarter phases are picked by the optimizer below
+      const anchorDate = tmpl.frequency === Frequency.BiWeekly ? today : undefined;
 
       return {
         id,
@@ -160,53 +239,43 @@ export function useTasks(householdId: string | null) {
         frequency: tmpl.frequency,
         estimatedMinutes: tmpl.estimatedMinutes,
         priority: tmpl.priority,
-        scheduledDay,
+        activeMonths: tmpl.activeMonths,
+        tags: tmpl.tags,
+        phase: tmpl.phase,
+        after: tmpl.after,
         anchorDate,
         completedDates: [],
         nextDueDate: today,
         isDue: false,
         isCompleted: false,
+        createdAt: new Date().toISOString(),
       } as Task;
     });
 
-    // Optimize weekly task scheduling
-    const assignments = optimizeWeeklySchedule(newTasks);
-    for (const { taskId, scheduledDay } of assignments) {
-      const task = newTasks.find(t => t.id === taskId);
-      if (task) task.scheduledDay = scheduledDay;
-    }
-    for (const task of newTasks) {
+    // Placed around the household's existing tasks, within its day budgets
+    const scheduled = scheduleNewTasks(newTasks, tasks, today, getDayBudgets(scheduleSettings));
+    for (const task of scheduled) {
       task.nextDueDate = getNextOccurrence(task, today);
       task.isDue = isTaskDueOnDate(task, today);
     }
 
-    await firestoreService.saveTasks(householdId, newTasks);
+    await repository.rooms.createRoomsWithTasks(householdId, [room], scheduled);
   };
 
   const renameRoom = async (roomId: string, newName: string) => {
     if (!householdId) return;
 
-    // Update the Room document
-    await roomService.updateRoom(householdId, roomId, { name: newName });
-
-    // Update all tasks that reference this room (for backward compatibility)
-    const roomTasks = tasks.filter(t => t.roomId === roomId);
-    for (const task of roomTasks) {
-      await firestoreService.updateTask(householdId, task.id, { room: newName });
-    }
+    // Update the Room document and all tasks that reference this room (for backward compatibility)
+    const roomTaskIds = tasks.filter(t => t.roomId === roomId).map(t => t.id);
+    await repository.rooms.renameRoom(householdId, roomId, newName, roomTaskIds);
   };
 
   const deleteRoom = async (roomId: string) => {
     if (!householdId) return;
 
-    // Delete all tasks in this room
-    const roomTasks = tasks.filter(t => t.roomId === roomId);
-    for (const task of roomTasks) {
-      await firestoreService.deleteTask(householdId, task.id);
-    }
-
-    // Delete the Room document
-    await roomService.deleteRoom(householdId, roomId);
+    // Delete the Room document and all tasks in this room
+    const roomTaskIds = tasks.filter(t => t.roomId === roomId).map(t => t.id);
+    await repository.rooms.deleteRoomWithTasks(householdId, roomId, roomTaskIds);
   };
 
   return {
@@ -215,33 +284,20 @@ export function useTasks(householdId: string | null) {
     error,
     needsOnboarding,
     updateTask,
+    updateTaskWith,
+    updateTasks,
     saveTask,
+    applyTaskChanges,
     deleteTask,
+    recordCompletion,
+    removeCompletion,
+    rebuildCompletedDates,
+    claimTask,
+    releaseClaim,
+    getCompletions,
     completeOnboarding,
     addRoom,
     renameRoom,
     deleteRoom,
   };
 }
-
-/**
- * One-time migration: add recurrence fields to existing tasks and run optimizer.
- */
-async function runMigration(householdId: string, tasks: Task[]) {
-  // 1. Migrate each task to add scheduledDay, anchorDate, completedDates
-  const migratedTasks = tasks.map(task => ({
-    ...task,
-    ...migrateTaskToRecurrence(task),
-  }));
-
-  // 2. Run the optimizer to assign balanced scheduledDay values for weekly tasks
-  const assignments = optimizeWeeklySchedule(migratedTasks);
-  for (const { taskId, scheduledDay } of assignments) {
-    const task = migratedTasks.find(t => t.id === taskId);
-    if (task) task.scheduledDay = scheduledDay;
-  }
-
-  // 3. Save all migrated tasks back to Firestore
-  await firestoreService.saveTasks(householdId, migratedTasks);
-  console.log('Migration complete. Tasks updated with recurrence fields.');
-}
@@ -3,6 +3,8 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import { AuthProvider } from './contexts/AuthContext';
 import { HouseholdProvider } from './contexts/HouseholdContext';
+import { RepositoryProvider } from './contexts/RepositoryContext';
+import { loadRepository } from './services/backend';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,12 +12,16 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <AuthProvider>
-      <HouseholdProvider>
-        <App />
-      </HouseholdProvider>
-    </AuthProvider>
-  </React.StrictMode>
-);
\ No newline at end of file
+loadRepository().then(repository => {
+  root.render(
+    <React.StrictMode>
+      <RepositoryProvider repository={repository}>
+        <AuthProvider>
+          <HouseholdProvider>
+            <App />
+          </HouseholdProvider>
+        </AuthProvider>
+      </RepositoryProvider>
+    </React.StrictMode>
+  );
+});
\ No newline at end of file
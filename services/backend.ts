@@ -0,0 +1,23 @@
+import { Repository } from './repository';
+import { createLocalRepository } from './localRepository';
+import { createIndexedDbStore } from './indexedDbStore';
+
+export type Backend = 'firestore' | 'local';
+
+/**
+ * The backend to start on: `?demo` in the URL or VITE_BACKEND=local runs the app
+ * on this browser's own storage with no Firebase project; otherwise Firestore.
+ */
+export function getBackend(): Backend {
+  if (new URLSearchParams(window.location.search).has('demo')) return 'local';
+  return import.meta.env.VITE_BACKEND === 'local' ? 'local' : 'firestore';
+}
+
+// Firebase is only loaded (and initialized) when it's the backend in use
+export async function loadRepository(backend: Backend = getBackend()): Promise<Repository> {
+  if (backend === 'local') {
+    return createLocalRepository(createIndexedDbStore());
+  }
+  const { firestoreRepository } = await import('./firestoreRepository');
+  return firestoreRepository;
+}
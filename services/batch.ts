@@ -0,0 +1,27 @@
+import { writeBatch, WriteBatch } from 'firebase/firestore';
+import { db } from '../firebase.config';
+
+// Firestore rejects a batch with more writes than this
+export const BATCH_LIMIT = 500;
+
+export type BatchWrite = (batch: WriteBatch) => void;
+
+/**
+ * Commits writes in batches of BATCH_LIMIT, in order. Up to the limit the writes
+ * land together or not at all; past it each chunk is all-or-nothing on its own
+ * and a failure stops the chunks after it.
+ */
+export async function commitInBatches(writes: BatchWrite[]): Promise<void> {
+  for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const write of writes.slice(start, start + BATCH_LIMIT)) {
+      write(batch);
+    }
+    await batch.commit();
+  }
+}
+
+// Firestore doesn't allow undefined values, so we need to remove them
+export function withoutUndefined<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,172 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  deleteField,
+  DocumentReference,
+} from 'firebase/firestore';
+import { db } from '../firebase.config';
+import { CompletionEvent, Task } from '../types';
+import { BatchWrite, commitInBatches, withoutUndefined } from './batch';
+import { getLastCompletedDate } from '../utils/recurrence';
+import { endsClaim } from '../utils/claims';
+import {
+  CompletionFilter,
+  DeriveTaskUpdates,
+  getCompletionId,
+  getDefaultCompletedAt,
+  getMissingCompletions,
+  matchesCompletionFilter,
+} from './repository';
+
+const getCompletionsCollection = (householdId: string) =>
+  collection(db, `households/${householdId}/completions`);
+
+const getHouseholdTasksCollection = (householdId: string) =>
+  collection(db, `households/${householdId}/tasks`);
+
+// Firestore allows at most this many values in an `in` filter
+const IN_FILTER_LIMIT = 30;
+
+// The completion events of some tasks, to delete in the same batch as the tasks
+export async function getCompletionRefs(householdId: string, taskIds: string[]): Promise<DocumentReference[]> {
+  const refs: DocumentReference[] = [];
+  for (let start = 0; start < taskIds.length; start += IN_FILTER_LIMIT) {
+    const q = query(getCompletionsCollection(householdId), where('taskId', 'in', taskIds.slice(start, start + IN_FILTER_LIMIT)));
+    const snapshot = await getDocs(q);
+    refs.push(...snapshot.docs.map(doc => doc.ref));
+  }
+  return refs;
+}
+
+// Completion history (household-scoped). Events are the record of what got
+// done; each write also updates the task's cached completedDates alongside.
+// Both happen in a transaction against the stored task, so members checking
+// off different dates or tasks at the same moment don't overwrite each other.
+export const completionService = {
+  // Record a completed occurrence and update the task's cache. Completing an
+  // occurrence someone else already completed leaves their event in place.
+  async recordCompletion(
+    householdId: string,
+    event: Omit<CompletionEvent, 'id'>,
+    derive: DeriveTaskUpdates
+  ): Promise<void> {
+    const completionDoc = doc(getCompletionsCollection(householdId), getCompletionId(event.taskId, event.date));
+    const taskDoc = doc(getHouseholdTasksCollection(householdId), event.taskId);
+
+    await runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(completionDoc);
+      const snapshot = await transaction.get(taskDoc);
+      if (!snapshot.exists()) throw new Error(`Task ${event.taskId} not found`);
+      const task = snapshot.data() as Task;
+
+      const completedDates = task.completedDates ?? [];
+      const updated: Task = {
+        ...task,
+        completedDates: completedDates.includes(event.date) ? completedDates : [...completedDates, event.date],
+        lastCompleted: event.completedAt,
+      };
+      if (!existing.exists()) {
+        transaction.set(completionDoc, withoutUndefined({ ...event, id: completionDoc.id }));
+      }
+      transaction.update(taskDoc, {
+        ...withoutUndefined({ completedDates: updated.completedDates, lastCompleted: updated.lastCompleted, ...derive(updated) }),
+        // Finishing the occurrence someone started ends their claim, as does the
+        // claimant finishing any occurrence (a stacked overdue one completes its oldest date)
+        ...(endsClaim(task, event) ? { claim: deleteField() } : {}),
+      });
+    });
+  },
+
+  // Undo a completed occurrence and update the task's cache, lastCompleted included
+  async removeCompletion(
+    householdId: string,
+    taskId: string,
+    date: string,
+    derive: DeriveTaskUpdates
+  ): Promise<void> {
+    const completionDoc = doc(getCompletionsCollection(householdId), getCompletionId(taskId, date));
+    const taskDoc = doc(getHouseholdTasksCollection(householdId), taskId);
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(taskDoc);
+      if (!snapshot.exists()) throw new Error(`Task ${taskId} not found`);
+      const task = snapshot.data() as Task;
+
+      const completedDates = task.completedDates ?? [];
+      const updated: Task = { ...task, completedDates: completedDates.filter(d => d !== date) };
+      // lastCompleted goes back to the latest completion left, so a floating task
+      // isn't still due from the one undone
+      if (completedDates.includes(date)) {
+        const latest = getLastCompletedDate({ ...updated, lastCompleted: undefined });
+        const latestEvent = latest
+          ? await transaction.get(doc(getCompletionsCollection(householdId), getCompletionId(taskId, latest)))
+          : undefined;
+        updated.lastCompleted = latest
+          ? (latestEvent?.data() as CompletionEvent | undefined)?.completedAt ?? getDefaultCompletedAt(latest)
+          : undefined;
+      }
+
+      transaction.delete(completionDoc);
+      transaction.update(taskDoc, {
+        ...withoutUndefined({ completedDates: updated.completedDates, lastCompleted: updated.lastCompleted, ...derive(updated) }),
+        ...(updated.lastCompleted === undefined && task.lastCompleted !== undefined ? { lastCompleted: deleteField() } : {}),
+      });
+    });
+  },
+
+  // Rebuild a task's cached completedDates from its events, dropping dates
+  // before `from`. Runs in a transaction like the toggles: each date's event is
+  // read again, so one recorded or removed since `dates` was read still counts.
+  async rebuildCompletedDates(
+    householdId: string,
+    taskId: string,
+    from: string,
+    dates: string[],
+    derive: DeriveTaskUpdates
+  ): Promise<void> {
+    const taskDoc = doc(getHouseholdTasksCollection(householdId), taskId);
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(taskDoc);
+      if (!snapshot.exists()) return; // Deleted meanwhile
+      const task = snapshot.data() as Task;
+
+      const candidates = [...new Set([...(task.completedDates ?? []), ...dates])].filter(d => d >= from).sort();
+      const events = await Promise.all(candidates.map(date =>
+        transaction.get(doc(getCompletionsCollection(householdId), getCompletionId(taskId, date)))
+      ));
+      const updated: Task = { ...task, completedDates: candidates.filter((_, i) => events[i].exists()) };
+      transaction.update(taskDoc, withoutUndefined({ completedDates: updated.completedDates, ...derive(updated) }));
+    });
+  },
+
+  // Completions in a date range, oldest first. Only the date is queried so no
+  // composite index is needed; member, room and task are filtered here.
+  async getCompletions(householdId: string, filter: CompletionFilter): Promise<CompletionEvent[]> {
+    const q = query(
+      getCompletionsCollection(householdId),
+      where('date', '>=', filter.from),
+      where('date', '<=', filter.to),
+      orderBy('date', 'asc')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs
+      .map(doc => doc.data() as CompletionEvent)
+      .filter(event => matchesCompletionFilter(event, filter));
+  },
+
+  // Write events for completions that only exist in a task's cached
+  // completedDates (from before events were kept)
+  async backfillCompletions(householdId: string, tasks: Task[], existing: CompletionEvent[]): Promise<CompletionEvent[]> {
+    const missing = getMissingCompletions(tasks, existing);
+    await commitInBatches(missing.map((event): BatchWrite =>
+      batch => batch.set(doc(getCompletionsCollection(householdId), event.id), withoutUndefined(event))
+    ));
+    return missing;
+  },
+};
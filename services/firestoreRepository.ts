@@ -0,0 +1,19 @@
+import { Repository } from './repository';
+import { authService } from './authService';
+import { profileService } from './profileService';
+import { householdService } from './householdService';
+import { roomService } from './roomService';
+import { firestoreService } from './firestoreService';
+import { completionService } from './completionService';
+import { migrationService } from './migrationService';
+
+// The Firebase backend: Auth for sign-in, Firestore for everything else
+export const firestoreRepository: Repository = {
+  auth: authService,
+  profiles: profileService,
+  households: householdService,
+  rooms: roomService,
+  tasks: firestoreService,
+  completions: completionService,
+  migrations: migrationService,
+};
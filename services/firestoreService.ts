@@ -5,11 +5,16 @@ import {
   getDoc,
   setDoc,
   updateDoc,
-  deleteDoc,
   onSnapshot,
+  runTransaction,
+  deleteField,
 } from 'firebase/firestore';
 import { db } from '../firebase.config';
-import { Task } from '../types';
+import { Task, TaskClaim } from '../types';
+import { BatchWrite, commitInBatches, withoutUndefined } from './batch';
+import { getActiveClaim } from '../utils/claims';
+import { getCompletionRefs } from './completionService';
+import { TaskChange } from './repository';
 
 // Household-scoped collection paths
 const getHouseholdTasksCollection = (householdId: string) =>
@@ -39,43 +44,89 @@ export const firestoreService = {
   // Add or update a task
   async saveTask(householdId: string, task: Task): Promise<void> {
     const taskDoc = doc(getHouseholdTasksCollection(householdId), task.id);
-
-    // Firestore doesn't allow undefined values, so we need to remove them
-    const cleanTask: any = {};
-    for (const [key, value] of Object.entries(task)) {
-      if (value !== undefined) {
-        cleanTask[key] = value;
-      }
-    }
-
-    await setDoc(taskDoc, cleanTask);
+    await setDoc(taskDoc, withoutUndefined(task));
   },
 
   // Update specific fields of a task
   async updateTask(householdId: string, taskId: string, updates: Partial<Task>): Promise<void> {
     const taskDoc = doc(getHouseholdTasksCollection(householdId), taskId);
+    await updateDoc(taskDoc, withoutUndefined(updates));
+  },
 
-    // Firestore doesn't allow undefined values
-    const cleanUpdates: any = {};
-    for (const [key, value] of Object.entries(updates)) {
-      if (value !== undefined) {
-        cleanUpdates[key] = value;
-      }
-    }
+  // Delete a task along with its completion events
+  async deleteTask(householdId: string, taskId: string): Promise<void> {
+    await this.applyTaskChanges(householdId, [], [], [taskId]);
+  },
 
-    await updateDoc(taskDoc, cleanUpdates);
+  // Bulk save tasks in one batch (onboarding, new rooms, migration)
+  async saveTasks(householdId: string, tasks: Task[]): Promise<void> {
+    await this.applyTaskChanges(householdId, tasks);
   },
 
-  // Delete a task
-  async deleteTask(householdId: string, taskId: string): Promise<void> {
+  // Update fields of several tasks in one batch
+  async updateTasks(householdId: string, changes: TaskChange[]): Promise<void> {
+    await this.applyTaskChanges(householdId, [], changes);
+  },
+
+  // Save whole tasks, update fields of others and delete some (with their
+  // completion events), in one batch: either every write lands or none do
+  async applyTaskChanges(householdId: string, saves: Task[], changes: TaskChange[] = [], deleteIds: string[] = []): Promise<void> {
+    const tasksCol = getHouseholdTasksCollection(householdId);
+    const completionRefs = await getCompletionRefs(householdId, deleteIds);
+    await commitInBatches([
+      ...completionRefs.map((ref): BatchWrite => batch => batch.delete(ref)),
+      ...saves.map((task): BatchWrite => batch => batch.set(doc(tasksCol, task.id), withoutUndefined(task))),
+      ...changes.map(({ taskId, updates, clear = [] }): BatchWrite => batch => batch.update(doc(tasksCol, taskId), {
+        ...withoutUndefined(updates),
+        ...Object.fromEntries(clear.map(field => [field, deleteField()])),
+      })),
+      ...deleteIds.map((taskId): BatchWrite => batch => batch.delete(doc(tasksCol, taskId))),
+    ]);
+  },
+
+  // Read a task and update it from what is stored now, retried if someone else
+  // writes it first. `change` returns null to leave the task alone; the `clear`
+  // fields are removed along with its updates.
+  async updateTaskWith(
+    householdId: string,
+    taskId: string,
+    change: (task: Task) => Partial<Task> | null,
+    clear: (keyof Task)[] = []
+  ): Promise<Partial<Task> | null> {
     const taskDoc = doc(getHouseholdTasksCollection(householdId), taskId);
-    await deleteDoc(taskDoc);
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(taskDoc);
+      if (!snapshot.exists()) throw new Error(`Task ${taskId} not found`);
+      const updates = change(snapshot.data() as Task);
+      if (updates) {
+        transaction.update(taskDoc, {
+          ...withoutUndefined(updates),
+          ...Object.fromEntries(clear.map(field => [field, deleteField()])),
+        });
+      }
+      return updates;
+    });
   },
 
-  // Bulk save tasks (useful for onboarding)
-  async saveTasks(householdId: string, tasks: Task[]): Promise<void> {
-    const promises = tasks.map(task => this.saveTask(householdId, task));
-    await Promise.all(promises);
+  // Mark a task as in progress. Returns false, changing nothing, when another
+  // member already holds a claim on the same occurrence.
+  async claimTask(householdId: string, taskId: string, claim: TaskClaim): Promise<boolean> {
+    const updates = await this.updateTaskWith(householdId, taskId, task => {
+      const held = getActiveClaim(task, claim.date);
+      return held && held.uid !== claim.uid ? null : { claim };
+    });
+    return updates !== null;
+  },
+
+  // Let go of a claim, unless it has since passed to someone else
+  async releaseClaim(householdId: string, taskId: string, uid: string): Promise<void> {
+    const taskDoc = doc(getHouseholdTasksCollection(householdId), taskId);
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(taskDoc);
+      if (snapshot.exists() && (snapshot.data() as Task).claim?.uid === uid) {
+        transaction.update(taskDoc, { claim: deleteField() });
+      }
+    });
   },
 
   // Settings operations
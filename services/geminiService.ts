@@ -96,6 +96,7 @@ export const generateSmartSchedule = async (): Promise<{ tasks: Task[], analysis
         lastCompleted: undefined,
         nextDueDate: today, // Temporary, computed below
         isDue: false, // Temporary, computed below
+        createdAt: new Date().toISOString(),
       };
       task.nextDueDate = getNextOccurrence(task, today);
       task.isDue = isTaskDueOnDate(task, today);
@@ -13,8 +13,11 @@ import {
   arrayRemove,
 } from 'firebase/firestore';
 import { db, auth } from '../firebase.config';
-import { Household, HouseholdMember } from '../types';
+import { Household, HouseholdMember, ScheduleSettings } from '../types';
+import { DEFAULT_SCHEDULE_SETTINGS } from '../constants';
 import { profileService } from './profileService';
+import { withoutUndefined } from './batch';
+import { LATEST_SCHEMA_VERSION } from './migrations';
 
 function generateInviteCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No I/O/0/1 to avoid confusion
@@ -39,6 +42,7 @@ export const householdService = {
       adminUid: userId,
       inviteCode,
       createdAt: new Date().toISOString(),
+      schemaVersion: LATEST_SCHEMA_VERSION, // Nothing to migrate in a new household
     };
 
     // Create household document
@@ -60,10 +64,7 @@ export const householdService = {
       role: 'admin',
       joinedAt: new Date().toISOString(),
     };
-    const cleanMember: any = {};
-    for (const [key, value] of Object.entries(member)) {
-      if (value !== undefined) cleanMember[key] = value;
-    }
+    const cleanMember = withoutUndefined(member);
     await setDoc(doc(db, `households/${householdId}/members`, userId), cleanMember);
 
     // Update user profile with householdId
@@ -125,10 +126,7 @@ export const householdService = {
       role: 'member',
       joinedAt: new Date().toISOString(),
     };
-    const cleanMember: any = {};
-    for (const [key, value] of Object.entries(member)) {
-      if (value !== undefined) cleanMember[key] = value;
-    }
+    const cleanMember = withoutUndefined(member);
 
     console.log('[householdService] Step 2: Creating member document:', cleanMember);
     await setDoc(doc(db, `households/${householdId}/members`, userId), cleanMember);
@@ -241,6 +239,25 @@ export const householdService = {
     });
   },
 
+  subscribeScheduleSettings(householdId: string, callback: (settings: ScheduleSettings) => void): () => void {
+    return onSnapshot(doc(db, `households/${householdId}/settings/schedule`), (snap) => {
+      callback({ ...DEFAULT_SCHEDULE_SETTINGS, ...(snap.exists() ? snap.data() : {}) } as ScheduleSettings);
+    });
+  },
+
+  // Eligibility fields only; the rest of a member doc is managed by joining and leaving
+  async updateMemberEligibility(
+    householdId: string,
+    uid: string,
+    eligibility: Pick<HouseholdMember, 'ageBracket' | 'allowedTags' | 'blockedTags'>
+  ): Promise<void> {
+    await updateDoc(doc(db, `households/${householdId}/members`, uid), eligibility);
+  },
+
+  async saveScheduleSettings(householdId: string, changes: Partial<ScheduleSettings>): Promise<void> {
+    await setDoc(doc(db, `households/${householdId}/settings/schedule`), changes, { merge: true });
+  },
+
   async regenerateInviteCode(householdId: string): Promise<string> {
     const newCode = generateInviteCode();
     await updateDoc(doc(db, 'households', householdId), { inviteCode: newCode });
@@ -0,0 +1,44 @@
+import { LocalData, LocalStore } from './localRepository';
+
+const STORE_NAME = 'state';
+const DATA_KEY = 'data';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/**
+ * Keeps a local backend's data in the browser's IndexedDB, as one record that
+ * is replaced on every save.
+ */
+export function createIndexedDbStore(databaseName = 'tidyhome'): LocalStore {
+  let database: Promise<IDBDatabase> | undefined;
+  const open = () => {
+    database ??= (() => {
+      const req = indexedDB.open(databaseName, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+      return request(req);
+    })();
+    return database;
+  };
+
+  return {
+    async load() {
+      const db = await open();
+      const data = await request(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(DATA_KEY));
+      return (data as LocalData | undefined) ?? null;
+    },
+
+    async save(data) {
+      const db = await open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(data, DATA_KEY);
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    },
+  };
+}
@@ -0,0 +1,645 @@
+import {
+  Task,
+  Room,
+  Household,
+  HouseholdMember,
+  ScheduleSettings,
+  UserProfile,
+  CompletionEvent,
+  MigrationLock,
+  MigrationRecord,
+} from '../types';
+import { DEFAULT_SCHEDULE_SETTINGS } from '../constants';
+import { getActiveClaim, endsClaim } from '../utils/claims';
+import { getLastCompletedDate } from '../utils/recurrence';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import {
+  Repository,
+  AuthUser,
+  Unsubscribe,
+  getCompletionId,
+  getDefaultCompletedAt,
+  getMissingCompletions,
+  matchesCompletionFilter,
+  newRoomId,
+} from './repository';
+
+// Everything a local backend holds, keyed by id (household-scoped data by household id first)
+export interface LocalData {
+  users: Record<string, AuthUser>;
+  currentUid?: string;
+  profiles: Record<string, UserProfile>;
+  households: Record<string, Household>;
+  members: Record<string, Record<string, HouseholdMember>>;
+  rooms: Record<string, Record<string, Room>>;
+  tasks: Record<string, Record<string, Task>>;
+  completions: Record<string, Record<string, CompletionEvent>>;
+  settings: Record<string, { preferences?: { houseDescription?: string }; schedule?: Partial<ScheduleSettings> }>;
+  migrations: Record<string, { lock?: MigrationLock; records: Record<number, MigrationRecord> }>;
+}
+
+// Where a local backend keeps its data between sessions
+export interface LocalStore {
+  load(): Promise<LocalData | null>;
+  save(data: LocalData): Promise<void>;
+}
+
+const emptyData = (): LocalData => ({
+  users: {},
+  profiles: {},
+  households: {},
+  members: {},
+  rooms: {},
+  tasks: {},
+  completions: {},
+  settings: {},
+  migrations: {},
+});
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+function generateInviteCode(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No I/O/0/1 to avoid confusion
+  let code = '';
+  for (let i = 0; i < 6; i++) {
+    code += chars[Math.floor(Math.random() * chars.length)];
+  }
+  return code;
+}
+
+// Undefined leaves a field alone on update, as it does in Firestore
+function merge<T extends object>(target: T, updates: Partial<T>): T {
+  const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+  return { ...target, ...(defined as Partial<T>) };
+}
+
+/**
+ * A backend that runs without Firebase: data lives in memory and, given a
+ * store, is saved there after each change (IndexedDB in the browser, see
+ * createIndexedDbStore). Without a store it starts empty and is forgotten,
+ * which is what tests want.
+ *
+ * Sign-in is local too: any email signs in, passwords aren't checked, and a
+ * demo user is signed in on first start.
+ */
+export function createLocalRepository(store?: LocalStore): Repository {
+  let data = emptyData();
+  const ready = (async () => {
+    const saved = await store?.load();
+    if (saved) {
+      data = { ...emptyData(), ...saved };
+    } else {
+      const demo: AuthUser = { uid: 'demo-user', email: 'demo@tidyhome.local', displayName: 'Demo', photoURL: null };
+      data.users[demo.uid] = demo;
+      data.currentUid = demo.uid;
+      data.profiles[demo.uid] = { uid: demo.uid, email: demo.email!, displayName: 'Demo', createdAt: new Date().toISOString() };
+    }
+  })();
+
+  // Subscribers hear about changes after the write that made them, like snapshot
+  // listeners; several writes in a row are reported (and saved) once
+  const listeners = new Set<() => void>();
+  let flushPending = false;
+  const changed = () => {
+    if (flushPending) return;
+    flushPending = true;
+    setTimeout(() => {
+      flushPending = false;
+      for (const listener of [...listeners]) listener();
+      store?.save(data).catch(err => console.error('[localRepository] Failed to save:', err));
+    }, 0);
+  };
+  const watch = (emit: () => void): Unsubscribe => {
+    let active = true;
+    const listener = () => { if (active) emit(); };
+    ready.then(() => {
+      if (!active) return;
+      listeners.add(listener);
+      emit();
+    });
+    return () => {
+      active = false;
+      listeners.delete(listener);
+    };
+  };
+
+  // Copies in and out, so nobody outside holds on to stored objects
+  const copy = <T>(value: T): T => structuredClone(value);
+  const scoped = <T>(collection: Record<string, Record<string, T>>, householdId: string) =>
+    (collection[householdId] ??= {});
+
+  const currentUser = (): AuthUser | null => (data.currentUid ? copy(data.users[data.currentUid]) ?? null : null);
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+  const setCurrentUser = (uid: string | undefined) => {
+    data.currentUid = uid;
+    changed();
+    for (const listener of authListeners) listener(currentUser());
+  };
+
+  const getTask = (householdId: string, taskId: string): Task => {
+    const task = scoped(data.tasks, householdId)[taskId];
+    if (!task) throw new Error(`Task ${taskId} not found`);
+    return task;
+  };
+  const deleteCompletions = (householdId: string, taskIds: string[]) => {
+    const completions = scoped(data.completions, householdId);
+    for (const [id, event] of Object.entries(completions)) {
+      if (taskIds.includes(event.taskId)) delete completions[id];
+    }
+  };
+  const unassign = (householdId: string, uid: string) => {
+    for (const task of Object.values(scoped(data.tasks, householdId))) {
+      if (task.assignedTo === uid) task.assignedTo = '';
+    }
+  };
+  const addMember = (householdId: string, userId: string, role: HouseholdMember['role']) => {
+    const profile = data.profiles[userId];
+    const user = data.users[userId];
+    const member: HouseholdMember = {
+      uid: userId,
+      displayName: profile?.displayName || user?.displayName || (profile?.email || user?.email || '').split('@')[0] || 'User',
+      email: profile?.email || user?.email || '',
+      role,
+      joinedAt: new Date().toISOString(),
+    };
+    scoped(data.members, householdId)[userId] = member;
+  };
+  const updateProfile = (userId: string, updates: Partial<UserProfile>) => {
+    data.profiles[userId] = merge(data.profiles[userId] ?? ({ uid: userId, email: '', createdAt: new Date().toISOString() } as UserProfile), updates);
+  };
+
+  return {
+    auth: {
+      async signUpWithEmail(email, _password, displayName) {
+        await ready;
+        const uid = `user-${email.toLowerCase()}`;
+        data.users[uid] = { uid, email, displayName: displayName || null, photoURL: null };
+        setCurrentUser(uid);
+        return copy(data.users[uid]);
+      },
+      async signInWithEmail(email) {
+        await ready;
+        const user = Object.values(data.users).find(u => u.email?.toLowerCase() === email.toLowerCase());
+        if (!user) throw new Error('Invalid email or password.');
+        setCurrentUser(user.uid);
+        return copy(user);
+      },
+      async signInWithGoogle() {
+        throw new Error('Google sign-in needs Firebase. Sign in with an email instead.');
+      },
+      async signOut() {
+        await ready;
+        setCurrentUser(undefined);
+      },
+      onAuthStateChanged(callback) {
+        let active = true;
+        const listener = (user: AuthUser | null) => { if (active) callback(user); };
+        ready.then(() => {
+          if (!active) return;
+          authListeners.add(listener);
+          callback(currentUser());
+        });
+        return () => {
+          active = false;
+          authListeners.delete(listener);
+        };
+      },
+    },
+
+    profiles: {
+      async createProfile(uid, email, displayName, photoURL) {
+        await ready;
+        if (data.profiles[uid]) return; // Don't overwrite existing profile
+        data.profiles[uid] = merge({ uid, email, createdAt: new Date().toISOString() } as UserProfile, { displayName, photoURL });
+        changed();
+      },
+      async getProfile(userId) {
+        await ready;
+        return data.profiles[userId] ? copy(data.profiles[userId]) : null;
+      },
+      async updateProfile(userId, updates) {
+        await ready;
+        updateProfile(userId, updates);
+        changed();
+      },
+    },
+
+    households: {
+      async createHousehold(userId, name) {
+        await ready;
+        const household: Household = {
+          id: newId('household'),
+          name,
+          memberUids: [userId],
+          adminUid: userId,
+          inviteCode: generateInviteCode(),
+          createdAt: new Date().toISOString(),
+          schemaVersion: LATEST_SCHEMA_VERSION, // Nothing to migrate in a new household
+        };
+        data.households[household.id] = household;
+        addMember(household.id, userId, 'admin');
+        updateProfile(userId, { householdId: household.id });
+        changed();
+        return copy(household);
+      },
+      async findHouseholdByInviteCode(code) {
+        await ready;
+        const household = Object.values(data.households).find(h => h.inviteCode === code.toUpperCase());
+        return household ? copy(household) : null;
+      },
+      async joinHousehold(userId, householdId) {
+        await ready;
+        const household = data.households[householdId];
+        if (!household) throw new Error('Household not found');
+        if (!household.memberUids.includes(userId)) household.memberUids.push(userId);
+        addMember(householdId, userId, 'member');
+        updateProfile(userId, { householdId });
+        changed();
+      },
+      async leaveHousehold(userId, householdId) {
+        await ready;
+        const household = data.households[householdId];
+        if (!household) return;
+        const remainingMembers = household.memberUids.filter(uid => uid !== userId);
+
+        if (remainingMembers.length === 0) {
+          // Last member leaving - delete the household and everything in it
+          delete data.households[householdId];
+          delete data.members[householdId];
+          delete data.rooms[householdId];
+          delete data.tasks[householdId];
+          delete data.completions[householdId];
+          delete data.settings[householdId];
+          delete data.migrations[householdId];
+        } else {
+          household.memberUids = remainingMembers;
+          // Transfer admin if leaving user was admin
+          if (household.adminUid === userId) {
+            household.adminUid = remainingMembers[0];
+            const newAdmin = scoped(data.members, householdId)[remainingMembers[0]];
+            if (newAdmin) newAdmin.role = 'admin';
+          }
+          unassign(householdId, userId);
+          delete scoped(data.members, householdId)[userId];
+        }
+
+        updateProfile(userId, { householdId: '' });
+        changed();
+      },
+      async removeMember(adminUid, targetUid, householdId) {
+        await ready;
+        const household = data.households[householdId];
+        if (!household) return;
+        if (household.adminUid !== adminUid) throw new Error('Only admin can remove members');
+
+        household.memberUids = household.memberUids.filter(uid => uid !== targetUid);
+        unassign(householdId, targetUid);
+        delete scoped(data.members, householdId)[targetUid];
+        if (data.profiles[targetUid]) updateProfile(targetUid, { householdId: '' });
+        changed();
+      },
+      async getHousehold(householdId) {
+        await ready;
+        return data.households[householdId] ? copy(data.households[householdId]) : null;
+      },
+      subscribeHousehold(householdId, callback) {
+        return watch(() => callback(data.households[householdId] ? copy(data.households[householdId]) : null));
+      },
+      subscribeMembers(householdId, callback) {
+        return watch(() => callback(copy(Object.values(scoped(data.members, householdId)))));
+      },
+      subscribeScheduleSettings(householdId, callback) {
+        return watch(() => callback({ ...DEFAULT_SCHEDULE_SETTINGS, ...copy(data.settings[householdId]?.schedule ?? {}) } as ScheduleSettings));
+      },
+      async updateMemberEligibility(householdId, uid, eligibility) {
+        await ready;
+        const members = scoped(data.members, householdId);
+        if (!members[uid]) throw new Error('Member not found');
+        members[uid] = { ...members[uid], ...copy(eligibility) };
+        changed();
+      },
+      async saveScheduleSettings(householdId, changes) {
+        await ready;
+        const settings = (data.settings[householdId] ??= {});
+        settings.schedule = { ...settings.schedule, ...copy(changes) };
+        changed();
+      },
+      async regenerateInviteCode(householdId) {
+        await ready;
+        const household = data.households[householdId];
+        if (!household) throw new Error('Household not found');
+        household.inviteCode = generateInviteCode();
+        changed();
+        return household.inviteCode;
+      },
+      async addLocalMember(householdId, displayName, adminUid) {
+        await ready;
+        const household = data.households[householdId];
+        if (!household) throw new Error('Household not found');
+        if (household.adminUid !== adminUid) throw new Error('Only admin can add members');
+
+        const localUid = newId('local');
+        household.memberUids.push(localUid);
+        scoped(data.members, householdId)[localUid] = {
+          uid: localUid,
+          displayName,
+          email: '', // Local members don't have email
+          role: 'member',
+          joinedAt: new Date().toISOString(),
+        };
+        changed();
+      },
+    },
+
+    rooms: {
+      async getRooms(householdId) {
+        await ready;
+        return copy(Object.values(scoped(data.rooms, householdId)).sort((a, b) => a.order - b.order));
+      },
+      subscribeRooms(householdId, callback) {
+        return watch(() => callback(copy(Object.values(scoped(data.rooms, householdId)).sort((a, b) => a.order - b.order))));
+      },
+      async getRoom(householdId, roomId) {
+        await ready;
+        const room = scoped(data.rooms, householdId)[roomId];
+        return room ? copy(room) : null;
+      },
+      async createRoom(householdId, name, roomType, icon) {
+        await ready;
+        const rooms = scoped(data.rooms, householdId);
+        const orders = Object.values(rooms).map(r => r.order);
+        const room: Room = {
+          id: newRoomId(),
+          householdId,
+          name,
+          roomType,
+          icon,
+          order: orders.length > 0 ? Math.max(...orders) + 1 : 0,
+          createdAt: new Date().toISOString(),
+        };
+        rooms[room.id] = room;
+        changed();
+        return copy(room);
+      },
+      async updateRoom(householdId, roomId, updates) {
+        await ready;
+        const rooms = scoped(data.rooms, householdId);
+        if (!rooms[roomId]) throw new Error(`Room ${roomId} not found`);
+        rooms[roomId] = merge<Room>(rooms[roomId], copy(updates));
+        changed();
+      },
+      async deleteRoom(householdId, roomId) {
+        await ready;
+        delete scoped(data.rooms, householdId)[roomId];
+        changed();
+      },
+      async renameRoom(householdId, roomId, name, taskIds) {
+        await ready;
+        const rooms = scoped(data.rooms, householdId);
+        if (!rooms[roomId]) throw new Error(`Room ${roomId} not found`);
+        taskIds.forEach(taskId => getTask(householdId, taskId));
+        rooms[roomId].name = name;
+        for (const taskId of taskIds) getTask(householdId, taskId).room = name;
+        changed();
+      },
+      async deleteRoomWithTasks(householdId, roomId, taskIds) {
+        await ready;
+        const tasks = scoped(data.tasks, householdId);
+        deleteCompletions(householdId, taskIds);
+        for (const taskId of taskIds) delete tasks[taskId];
+        delete scoped(data.rooms, householdId)[roomId];
+        changed();
+      },
+      async createRoomsWithTasks(householdId, rooms, tasks) {
+        await ready;
+        const stored = scoped(data.rooms, householdId);
+        const orders = Object.values(stored).map(r => r.order);
+        const maxOrder = orders.length > 0 ? Math.max(...orders) : -1;
+        const createdAt = new Date().toISOString();
+        const created = rooms.map((room, index): Room => ({
+          id: room.id,
+          householdId,
+          name: room.name,
+          roomType: room.roomType,
+          icon: room.icon,
+          order: maxOrder + 1 + index,
+          createdAt,
+        }));
+        for (const room of created) stored[room.id] = room;
+        const storedTasks = scoped(data.tasks, householdId);
+        for (const task of tasks) storedTasks[task.id] = merge({} as Task, copy(task));
+        changed();
+        return copy(created);
+      },
+      async reorderRooms(householdId, roomIds) {
+        await ready;
+        const rooms = scoped(data.rooms, householdId);
+        roomIds.forEach((roomId, index) => {
+          if (rooms[roomId]) rooms[roomId].order = index;
+        });
+        changed();
+      },
+      async findRoomByName(householdId, name) {
+        await ready;
+        const room = Object.values(scoped(data.rooms, householdId)).find(r => r.name === name);
+        return room ? copy(room) : null;
+      },
+    },
+
+    tasks: {
+      async getTasks(householdId) {
+        await ready;
+        return copy(Object.values(scoped(data.tasks, householdId)));
+      },
+      subscribeTasks(householdId, callback) {
+        return watch(() => callback(copy(Object.values(scoped(data.tasks, householdId)))));
+      },
+      async saveTask(householdId, task) {
+        await ready;
+        scoped(data.tasks, householdId)[task.id] = merge({} as Task, copy(task));
+        changed();
+      },
+      async updateTask(householdId, taskId, updates) {
+        await ready;
+        scoped(data.tasks, householdId)[taskId] = merge(getTask(householdId, taskId), copy(updates));
+        changed();
+      },
+      async deleteTask(householdId, taskId) {
+        await this.applyTaskChanges(householdId, [], [], [taskId]);
+      },
+      async saveTasks(householdId, tasks) {
+        await this.applyTaskChanges(householdId, tasks);
+      },
+      async updateTasks(householdId, changes) {
+        await this.applyTaskChanges(householdId, [], changes);
+      },
+      async applyTaskChanges(householdId, saves, changes = [], deleteIds = []) {
+        await ready;
+        // Check every updated task first so a missing one changes nothing
+        changes.forEach(({ taskId }) => getTask(householdId, taskId));
+        const tasks = scoped(data.tasks, householdId);
+        for (const task of saves) tasks[task.id] = merge({} as Task, copy(task));
+        for (const { taskId, updates, clear = [] } of changes) {
+          const task = merge(getTask(householdId, taskId), copy(updates));
+          for (const field of clear) delete task[field];
+          tasks[taskId] = task;
+        }
+        deleteCompletions(householdId, deleteIds);
+        for (const taskId of deleteIds) delete tasks[taskId];
+        changed();
+      },
+      async updateTaskWith(householdId, taskId, change, clear = []) {
+        await ready;
+        const updates = change(copy(getTask(householdId, taskId)));
+        if (updates) {
+          const task = merge(getTask(householdId, taskId), copy(updates));
+          for (const field of clear) delete task[field];
+          scoped(data.tasks, householdId)[taskId] = task;
+          changed();
+        }
+        return updates;
+      },
+      async claimTask(householdId, taskId, claim) {
+        const updates = await this.updateTaskWith(householdId, taskId, task => {
+          const held = getActiveClaim(task, claim.date);
+          return held && held.uid !== claim.uid ? null : { claim };
+        });
+        return updates !== null;
+      },
+      async releaseClaim(householdId, taskId, uid) {
+        await ready;
+        const task = scoped(data.tasks, householdId)[taskId];
+        if (task?.claim?.uid === uid) {
+          delete task.claim;
+          changed();
+        }
+      },
+      async getSettings(householdId) {
+        await ready;
+        const preferences = data.settings[householdId]?.preferences;
+        return preferences ? copy(preferences) : null;
+      },
+      async saveSettings(householdId, settings) {
+        await ready;
+        (data.settings[householdId] ??= {}).preferences = copy(settings);
+        changed();
+      },
+      async hasExistingData(householdId) {
+        await ready;
+        return Object.keys(scoped(data.tasks, householdId)).length > 0;
+      },
+    },
+
+    completions: {
+      async recordCompletion(householdId, event, derive) {
+        await ready;
+        const task = getTask(householdId, event.taskId);
+        const id = getCompletionId(event.taskId, event.date);
+        const completions = scoped(data.completions, householdId);
+        // Completing an occurrence someone else already completed leaves their event in place
+        if (!completions[id]) completions[id] = merge({} as CompletionEvent, { ...copy(event), id });
+
+        const completedDates = task.completedDates ?? [];
+        const updated: Task = {
+          ...copy(task),
+          completedDates: completedDates.includes(event.date) ? completedDates : [...completedDates, event.date],
+          lastCompleted: event.completedAt,
+        };
+        const stored = merge(task, { completedDates: updated.completedDates, lastCompleted: updated.lastCompleted, ...derive(updated) });
+        // Finishing the occurrence someone started ends their claim, as does the
+        // claimant finishing any occurrence (a stacked overdue one completes its oldest date)
+        if (endsClaim(task, event)) delete stored.claim;
+        scoped(data.tasks, householdId)[task.id] = stored;
+        changed();
+      },
+      async removeCompletion(householdId, taskId, date, derive) {
+        await ready;
+        const task = getTask(householdId, taskId);
+        const completions = scoped(data.completions, householdId);
+        delete completions[getCompletionId(taskId, date)];
+        const completedDates = task.completedDates ?? [];
+        const updated: Task = { ...copy(task), completedDates: completedDates.filter(d => d !== date) };
+        // lastCompleted goes back to the latest completion left, so a floating task
+        // isn't still due from the one undone
+        if (completedDates.includes(date)) {
+          const latest = getLastCompletedDate({ ...updated, lastCompleted: undefined });
+          updated.lastCompleted = latest
+            ? completions[getCompletionId(taskId, latest)]?.completedAt ?? getDefaultCompletedAt(latest)
+            : undefined;
+        }
+        const stored = merge(task, { completedDates: updated.completedDates, ...derive(updated) });
+        if (updated.lastCompleted) stored.lastCompleted = updated.lastCompleted;
+        else delete stored.lastCompleted;
+        scoped(data.tasks, householdId)[taskId] = stored;
+        changed();
+      },
+      async rebuildCompletedDates(householdId, taskId, from, dates, derive) {
+        await ready;
+        const task = scoped(data.tasks, householdId)[taskId];
+        if (!task) return; // Deleted meanwhile
+        const completions = scoped(data.completions, householdId);
+        const updated: Task = {
+          ...copy(task),
+          completedDates: [...new Set([...(task.completedDates ?? []), ...dates])]
+            .filter(d => d >= from && completions[getCompletionId(taskId, d)])
+            .sort(),
+        };
+        scoped(data.tasks, householdId)[taskId] = merge(task, { completedDates: updated.completedDates, ...derive(updated) });
+        changed();
+      },
+      async getCompletions(householdId, filter) {
+        await ready;
+        return copy(Object.values(scoped(data.completions, householdId))
+          .filter(event => matchesCompletionFilter(event, filter))
+          .sort((a, b) => a.date.localeCompare(b.date)));
+      },
+      async backfillCompletions(householdId, tasks, existing) {
+        await ready;
+        const missing = getMissingCompletions(tasks, existing);
+        const completions = scoped(data.completions, householdId);
+        for (const event of missing) completions[event.id] = copy(event);
+        if (missing.length > 0) changed();
+        return missing;
+      },
+    },
+
+    migrations: {
+      async acquireLock(householdId, holder, staleAfterMs) {
+        await ready;
+        const migrations = (data.migrations[householdId] ??= { records: {} });
+        const lock = migrations.lock;
+        const now = new Date();
+        if (lock && lock.holder !== holder && now.getTime() - new Date(lock.heartbeatAt).getTime() < staleAfterMs) {
+          return false;
+        }
+        migrations.lock = {
+          holder,
+          acquiredAt: lock?.holder === holder ? lock.acquiredAt : now.toISOString(),
+          heartbeatAt: now.toISOString(),
+        };
+        changed();
+        return true;
+      },
+      async releaseLock(householdId, holder) {
+        await ready;
+        const migrations = data.migrations[householdId];
+        if (migrations?.lock?.holder === holder) {
+          delete migrations.lock;
+          changed();
+        }
+      },
+      async setSchemaVersion(householdId, version) {
+        await ready;
+        const household = data.households[householdId];
+        if (!household) throw new Error('Household not found');
+        household.schemaVersion = version;
+        changed();
+      },
+      async recordStep(householdId, record) {
+        await ready;
+        (data.migrations[householdId] ??= { records: {} }).records[record.version] = merge({} as MigrationRecord, copy(record));
+        changed();
+      },
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { doc, setDoc, updateDoc, runTransaction } from 'firebase/firestore';
+import { db } from '../firebase.config';
+import { MigrationLock, MigrationRecord } from '../types';
+import { withoutUndefined } from './batch';
+
+const getMigrationLockDoc = (householdId: string) =>
+  doc(db, `households/${householdId}/migrations/lock`);
+
+// Schema migration bookkeeping (household-scoped); the steps themselves are in migrations.ts
+export const migrationService = {
+  async acquireLock(householdId: string, holder: string, staleAfterMs: number): Promise<boolean> {
+    const lockDoc = getMigrationLockDoc(householdId);
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(lockDoc);
+      const lock = snapshot.exists() ? (snapshot.data() as MigrationLock) : null;
+      const now = new Date();
+      if (lock && lock.holder !== holder && now.getTime() - new Date(lock.heartbeatAt).getTime() < staleAfterMs) {
+        return false;
+      }
+      const next: MigrationLock = {
+        holder,
+        acquiredAt: lock?.holder === holder ? lock.acquiredAt : now.toISOString(),
+        heartbeatAt: now.toISOString(),
+      };
+      transaction.set(lockDoc, next);
+      return true;
+    });
+  },
+
+  async releaseLock(householdId: string, holder: string): Promise<void> {
+    const lockDoc = getMigrationLockDoc(householdId);
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(lockDoc);
+      if (snapshot.exists() && (snapshot.data() as MigrationLock).holder === holder) {
+        transaction.delete(lockDoc);
+      }
+    });
+  },
+
+  async setSchemaVersion(householdId: string, version: number): Promise<void> {
+    await updateDoc(doc(db, 'households', householdId), { schemaVersion: version });
+  },
+
+  async recordStep(householdId: string, record: MigrationRecord): Promise<void> {
+    await setDoc(doc(db, `households/${householdId}/migrations/v${record.version}`), withoutUndefined(record));
+  },
+};
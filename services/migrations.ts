@@ -0,0 +1,161 @@
+import { RoomType, Frequency } from '../types';
+import { ROOM_TASK_CATALOG } from '../constants';
+import { migrateTaskToRecurrence } from '../utils/migration';
+import { optimizeWeeklySchedule } from '../utils/scheduler';
+import { Repository, TaskChange } from './repository';
+
+export interface MigrationStep {
+  version: number;
+  description: string; // Shown while the step runs
+  // Brings a household's data up to this version. Runs again after a failure or
+  // a client going away mid-step, so it must leave already migrated data alone,
+  // and it writes in batches.
+  run(repository: Repository, householdId: string): Promise<void>;
+}
+
+// Every schema change, oldest first. Add new steps at the end with the next version.
+export const MIGRATIONS: MigrationStep[] = [
+  {
+    version: 1,
+    description: 'Adding recurrence details to tasks',
+    async run(repository, householdId) {
+      // Tasks from before the recurrence model have no completedDates
+      const tasks = await repository.tasks.getTasks(householdId);
+      const migratedTasks = tasks
+        .filter(task => task.completedDates === undefined)
+        .map(task => ({ ...task, ...migrateTaskToRecurrence(task) }));
+      if (migratedTasks.length === 0) return;
+
+      // Spread the weekly ones over the week
+      const assignments = optimizeWeeklySchedule(migratedTasks);
+      for (const { taskId, scheduledDay } of assignments) {
+        const task = migratedTasks.find(t => t.id === taskId);
+        if (task) task.scheduledDay = scheduledDay;
+      }
+      await repository.tasks.saveTasks(householdId, migratedTasks);
+    },
+  },
+  {
+    version: 2,
+    description: 'Linking tasks to their rooms',
+    async run(repository, householdId) {
+      // Tasks from before rooms were documents only name their room
+      const [tasks, rooms] = await Promise.all([
+        repository.tasks.getTasks(householdId),
+        repository.rooms.getRooms(householdId),
+      ]);
+      const roomIds = new Set(rooms.map(r => r.id));
+      const roomsByName = new Map(rooms.map(r => [r.name, r]));
+
+      const changes: TaskChange[] = [];
+      for (const task of tasks.filter(t => !t.roomId || !roomIds.has(t.roomId))) {
+        const name = task.room || 'General';
+        let room = roomsByName.get(name);
+        if (!room) {
+          const roomType = task.roomType || RoomType.General;
+          room = await repository.rooms.createRoom(householdId, name, roomType, ROOM_TASK_CATALOG[roomType]?.icon || 'Home');
+          roomsByName.set(name, room);
+        }
+        changes.push({ taskId: task.id, updates: { roomId: room.id, room: room.name } });
+      }
+      await repository.tasks.updateTasks(householdId, changes);
+    },
+  },
+  {
+    version: 3,
+    description: 'Recording past completions',
+    async run(repository, householdId) {
+      // Completions from before events were kept only live in completedDates
+      const [tasks, existing] = await Promise.all([
+        repository.tasks.getTasks(householdId),
+        repository.completions.getCompletions(householdId, { from: '0000-01-01', to: '9999-12-31' }),
+      ]);
+      await repository.completions.backfillCompletions(householdId, tasks, existing);
+    },
+  },
+  {
+    version: 4,
+    description: 'Fixing when every-other-week and quarterly tasks repeat',
+    async run(repository, householdId) {
+      // Without an anchorDate these are phased from nextDueDate, which moves every
+      // day; pin them to the date they're due now
+      const tasks = await repository.tasks.getTasks(householdId);
+      const changes: TaskChange[] = tasks
+        .filter(task => !task.recurrence && !task.anchorDate)
+        .filter(task => task.frequency === Frequency.BiWeekly || task.frequency === Frequency.Quarterly)
+        .map(task => ({ taskId: task.id, updates: { anchorDate: task.nextDueDate } }));
+      await repository.tasks.updateTasks(householdId, changes);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// A lock not refreshed for this long belongs to a client that went away
+export const MIGRATION_LOCK_STALE_MS = 2 * 60 * 1000;
+
+export type MigrationProgress =
+  | { status: 'running'; step: number; total: number; description: string }
+  | { status: 'waiting' } // Another client is migrating the household
+  | { status: 'failed'; description: string; error: string }
+  | { status: 'done' };
+
+// One per page load, so a client can tell its own lock from someone else's
+const CLIENT_ID = `client-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Brings a household's data up to LATEST_SCHEMA_VERSION. Only the client holding
+ * the household's migration lock runs steps; the others report 'waiting'. The
+ * schema version is saved after each step, so a failed or interrupted run picks
+ * up at the step it stopped on. Returns the final progress.
+ */
+export async function runMigrations(
+  repository: Repository,
+  householdId: string,
+  onProgress: (progress: MigrationProgress) => void
+): Promise<MigrationProgress> {
+  const report = (progress: MigrationProgress) => {
+    onProgress(progress);
+    return progress;
+  };
+
+  if (!(await repository.migrations.acquireLock(householdId, CLIENT_ID, MIGRATION_LOCK_STALE_MS))) {
+    return report({ status: 'waiting' });
+  }
+
+  try {
+    // Read the version under the lock: another client may have just finished
+    const household = await repository.households.getHousehold(householdId);
+    const pending = MIGRATIONS.filter(step => step.version > (household?.schemaVersion ?? 0));
+
+    for (const [index, step] of pending.entries()) {
+      report({ status: 'running', step: index + 1, total: pending.length, description: step.description });
+      // Refresh the lock between steps; give up if someone took it over meanwhile
+      if (!(await repository.migrations.acquireLock(householdId, CLIENT_ID, MIGRATION_LOCK_STALE_MS))) {
+        return report({ status: 'waiting' });
+      }
+
+      try {
+        await step.run(repository, householdId);
+      } catch (err) {
+        console.error(`[migrations] Step ${step.version} failed:`, err);
+        const error = err instanceof Error ? err.message : String(err);
+        await repository.migrations
+          .recordStep(householdId, { version: step.version, description: step.description, status: 'failed', finishedAt: new Date().toISOString(), error })
+          .catch(recordErr => console.error('[migrations] Failed to record failure:', recordErr));
+        return report({ status: 'failed', description: step.description, error });
+      }
+
+      await repository.migrations.setSchemaVersion(householdId, step.version);
+      await repository.migrations.recordStep(householdId, {
+        version: step.version,
+        description: step.description,
+        status: 'done',
+        finishedAt: new Date().toISOString(),
+      });
+    }
+    return report({ status: 'done' });
+  } finally {
+    await repository.migrations.releaseLock(householdId, CLIENT_ID);
+  }
+}
@@ -1,6 +1,7 @@
 import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { db } from '../firebase.config';
 import { UserProfile } from '../types';
+import { withoutUndefined } from './batch';
 
 const getProfileDoc = (userId: string) =>
   doc(db, `users/${userId}/profile/data`);
@@ -19,13 +20,7 @@ export const profileService = {
       createdAt: new Date().toISOString(),
     };
 
-    // Remove undefined values for Firestore
-    const clean: any = {};
-    for (const [key, value] of Object.entries(profile)) {
-      if (value !== undefined) clean[key] = value;
-    }
-
-    await setDoc(profileDoc, clean);
+    await setDoc(profileDoc, withoutUndefined(profile));
   },
 
   async getProfile(userId: string): Promise<UserProfile | null> {
@@ -36,10 +31,6 @@ export const profileService = {
 
   async updateProfile(userId: string, updates: Partial<UserProfile>): Promise<void> {
     const profileDoc = getProfileDoc(userId);
-    const clean: any = {};
-    for (const [key, value] of Object.entries(updates)) {
-      if (value !== undefined) clean[key] = value;
-    }
-    await setDoc(profileDoc, clean, { merge: true });
+    await setDoc(profileDoc, withoutUndefined(updates), { merge: true });
   },
 };
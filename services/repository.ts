@@ -0,0 +1,183 @@
+import {
+  Task,
+  TaskClaim,
+  Room,
+  RoomType,
+  Household,
+  HouseholdMember,
+  ScheduleSettings,
+  UserProfile,
+  CompletionEvent,
+  MigrationRecord,
+} from '../types';
+
+/**
+ * The storage the app runs on. Hooks and contexts only talk to this; Firestore
+ * (firestoreRepository) is one backend, the browser's own storage
+ * (createLocalRepository) another. Which one runs is picked at startup, see
+ * services/backend.ts.
+ */
+export interface Repository {
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  households: HouseholdRepository;
+  rooms: RoomRepository;
+  tasks: TaskRepository;
+  completions: CompletionRepository;
+  migrations: MigrationRepository;
+}
+
+export type Unsubscribe = () => void;
+
+// The parts of a signed-in user the app uses (a Firebase User has them all)
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export interface AuthRepository {
+  signUpWithEmail(email: string, password: string, displayName?: string): Promise<AuthUser>;
+  signInWithEmail(email: string, password: string): Promise<AuthUser>;
+  signInWithGoogle(): Promise<AuthUser>;
+  signOut(): Promise<void>;
+  onAuthStateChanged(callback: (user: AuthUser | null) => void): Unsubscribe;
+}
+
+export interface ProfileRepository {
+  createProfile(uid: string, email: string, displayName?: string, photoURL?: string): Promise<void>;
+  getProfile(userId: string): Promise<UserProfile | null>;
+  updateProfile(userId: string, updates: Partial<UserProfile>): Promise<void>;
+}
+
+// Households with their members and schedule settings
+export interface HouseholdRepository {
+  createHousehold(userId: string, name: string): Promise<Household>;
+  findHouseholdByInviteCode(code: string): Promise<Household | null>;
+  joinHousehold(userId: string, householdId: string): Promise<void>;
+  leaveHousehold(userId: string, householdId: string): Promise<void>;
+  removeMember(adminUid: string, targetUid: string, householdId: string): Promise<void>;
+  getHousehold(householdId: string): Promise<Household | null>;
+  subscribeHousehold(householdId: string, callback: (household: Household | null) => void): Unsubscribe;
+  subscribeMembers(householdId: string, callback: (members: HouseholdMember[]) => void): Unsubscribe;
+  subscribeScheduleSettings(householdId: string, callback: (settings: ScheduleSettings) => void): Unsubscribe;
+  updateMemberEligibility(
+    householdId: string,
+    uid: string,
+    eligibility: Pick<HouseholdMember, 'ageBracket' | 'allowedTags' | 'blockedTags'>
+  ): Promise<void>;
+  saveScheduleSettings(householdId: string, changes: Partial<ScheduleSettings>): Promise<void>;
+  regenerateInviteCode(householdId: string): Promise<string>;
+  addLocalMember(householdId: string, displayName: string, adminUid: string): Promise<void>;
+}
+
+export interface RoomRepository {
+  getRooms(householdId: string): Promise<Room[]>;
+  subscribeRooms(householdId: string, callback: (rooms: Room[]) => void): Unsubscribe;
+  getRoom(householdId: string, roomId: string): Promise<Room | null>;
+  createRoom(householdId: string, name: string, roomType: RoomType, icon: string): Promise<Room>;
+  updateRoom(householdId: string, roomId: string, updates: Partial<Omit<Room, 'id' | 'householdId' | 'createdAt'>>): Promise<void>;
+  deleteRoom(householdId: string, roomId: string): Promise<void>;
+  renameRoom(householdId: string, roomId: string, name: string, taskIds: string[]): Promise<void>;
+  deleteRoomWithTasks(householdId: string, roomId: string, taskIds: string[]): Promise<void>;
+  createRoomsWithTasks(householdId: string, rooms: NewRoom[], tasks: Task[]): Promise<Room[]>;
+  reorderRooms(householdId: string, roomIds: string[]): Promise<void>;
+  findRoomByName(householdId: string, name: string): Promise<Room | null>;
+}
+
+// A room to create alongside its tasks, its id picked up front (newRoomId) so the
+// tasks can point at it before it's written
+export type NewRoom = Pick<Room, 'id' | 'name' | 'roomType' | 'icon'>;
+
+export const newRoomId = () => `room-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export interface TaskChange {
+  taskId: string;
+  updates: Partial<Task>; // Undefined values leave a field alone
+  clear?: (keyof Task)[]; // Fields to remove
+}
+
+// Tasks and the household's house description
+export interface TaskRepository {
+  getTasks(householdId: string): Promise<Task[]>;
+  subscribeTasks(householdId: string, callback: (tasks: Task[]) => void): Unsubscribe;
+  saveTask(householdId: string, task: Task): Promise<void>;
+  updateTask(householdId: string, taskId: string, updates: Partial<Task>): Promise<void>;
+  deleteTask(householdId: string, taskId: string): Promise<void>;
+  saveTasks(householdId: string, tasks: Task[]): Promise<void>;
+  updateTasks(householdId: string, changes: TaskChange[]): Promise<void>;
+  applyTaskChanges(householdId: string, saves: Task[], changes?: TaskChange[], deleteIds?: string[]): Promise<void>;
+  updateTaskWith(
+    householdId: string,
+    taskId: string,
+    change: (task: Task) => Partial<Task> | null,
+    clear?: (keyof Task)[]
+  ): Promise<Partial<Task> | null>;
+  claimTask(householdId: string, taskId: string, claim: TaskClaim): Promise<boolean>;
+  releaseClaim(householdId: string, taskId: string, uid: string): Promise<void>;
+  getSettings(householdId: string): Promise<{ houseDescription?: string } | null>;
+  saveSettings(householdId: string, settings: { houseDescription?: string }): Promise<void>;
+  hasExistingData(householdId: string): Promise<boolean>;
+}
+
+// Works out the rest of a task's changes (isCompleted, due date) from the stored
+// task with its completedDates already updated
+export type DeriveTaskUpdates = (task: Task) => Partial<Task>;
+
+export interface CompletionFilter {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  memberUid?: string;
+  roomId?: string;
+  taskId?: string;
+}
+
+export interface CompletionRepository {
+  recordCompletion(householdId: string, event: Omit<CompletionEvent, 'id'>, derive: DeriveTaskUpdates): Promise<void>;
+  removeCompletion(householdId: string, taskId: string, date: string, derive: DeriveTaskUpdates): Promise<void>;
+  // Rebuilds a task's completedDates from its events on or after `from`, given
+  // the dates of the events already read; whether each still exists is checked
+  // against what is stored now, so a toggle made meanwhile isn't lost
+  rebuildCompletedDates(householdId: string, taskId: string, from: string, dates: string[], derive: DeriveTaskUpdates): Promise<void>;
+  getCompletions(householdId: string, filter: CompletionFilter): Promise<CompletionEvent[]>;
+  backfillCompletions(householdId: string, tasks: Task[], existing: CompletionEvent[]): Promise<CompletionEvent[]>;
+}
+
+// Bookkeeping for schema migrations (see services/migrations.ts)
+export interface MigrationRepository {
+  // Takes the household's migration lock, or refreshes it for its holder. Returns
+  // false while another client holds a lock that has been active within staleAfterMs.
+  acquireLock(householdId: string, holder: string, staleAfterMs: number): Promise<boolean>;
+  releaseLock(householdId: string, holder: string): Promise<void>;
+  setSchemaVersion(householdId: string, version: number): Promise<void>;
+  recordStep(householdId: string, record: MigrationRecord): Promise<void>;
+}
+
+// An occurrence is completed at most once, so its event has a fixed id
+export const getCompletionId = (taskId: string, date: string) => `${taskId}_${date}`;
+
+// When a completion known only by its date was done
+export const getDefaultCompletedAt = (date: string) => `${date}T12:00:00.000Z`;
+
+// Completions only kept in tasks' cached completedDates (from before events were
+// kept), as events. Who did them and when in the day is unknown.
+export function getMissingCompletions(tasks: Task[], existing: CompletionEvent[]): CompletionEvent[] {
+  const recorded = new Set(existing.map(event => event.id));
+  const missing: CompletionEvent[] = [];
+  for (const task of tasks) {
+    for (const date of task.completedDates || []) {
+      const id = getCompletionId(task.id, date);
+      if (recorded.has(id)) continue;
+      recorded.add(id);
+      missing.push({ id, taskId: task.id, roomId: task.roomId, date, completedAt: getDefaultCompletedAt(date) });
+    }
+  }
+  return missing;
+}
+
+export const matchesCompletionFilter = (event: CompletionEvent, filter: CompletionFilter): boolean =>
+  event.date >= filter.from && event.date <= filter.to &&
+  (!filter.memberUid || event.completedBy === filter.memberUid) &&
+  (!filter.roomId || event.roomId === filter.roomId) &&
+  (!filter.taskId || event.taskId === filter.taskId);
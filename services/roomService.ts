@@ -11,11 +11,17 @@ import {
   orderBy,
 } from 'firebase/firestore';
 import { db } from '../firebase.config';
-import { Room, RoomType } from '../types';
+import { Room, RoomType, Task } from '../types';
+import { BatchWrite, commitInBatches, withoutUndefined } from './batch';
+import { getCompletionRefs } from './completionService';
+import { NewRoom, newRoomId } from './repository';
 
 const getRoomsCollection = (householdId: string) =>
   collection(db, `households/${householdId}/rooms`);
 
+const getTasksCollection = (householdId: string) =>
+  collection(db, `households/${householdId}/tasks`);
+
 export const roomService = {
   async getRooms(householdId: string): Promise<Room[]> {
     const roomsCol = getRoomsCollection(householdId);
@@ -45,7 +51,7 @@ export const roomService = {
     roomType: RoomType,
     icon: string
   ): Promise<Room> {
-    const roomId = `room-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const roomId = newRoomId();
 
     // Get current max order
     const existingRooms = await this.getRooms(householdId);
@@ -73,13 +79,7 @@ export const roomService = {
     updates: Partial<Omit<Room, 'id' | 'householdId' | 'createdAt'>>
   ): Promise<void> {
     const roomDoc = doc(getRoomsCollection(householdId), roomId);
-    const cleanUpdates: any = {};
-    for (const [key, value] of Object.entries(updates)) {
-      if (value !== undefined) {
-        cleanUpdates[key] = value;
-      }
-    }
-    await updateDoc(roomDoc, cleanUpdates);
+    await updateDoc(roomDoc, withoutUndefined(updates));
   },
 
   async deleteRoom(householdId: string, roomId: string): Promise<void> {
@@ -87,11 +87,59 @@ export const roomService = {
     await deleteDoc(roomDoc);
   },
 
+  // Rename a room and the room name its tasks still carry, in one batch
+  async renameRoom(householdId: string, roomId: string, name: string, taskIds: string[]): Promise<void> {
+    const tasksCol = getTasksCollection(householdId);
+    await commitInBatches([
+      batch => batch.update(doc(getRoomsCollection(householdId), roomId), { name }),
+      ...taskIds.map((taskId): BatchWrite => batch => batch.update(doc(tasksCol, taskId), { room: name })),
+    ]);
+  },
+
+  // Delete a room together with its tasks and their completion events, in one
+  // batch. The room goes last, so a room too big for one batch is never gone
+  // while tasks still point at it.
+  async deleteRoomWithTasks(householdId: string, roomId: string, taskIds: string[]): Promise<void> {
+    const tasksCol = getTasksCollection(householdId);
+    const completionRefs = await getCompletionRefs(householdId, taskIds);
+    await commitInBatches([
+      ...completionRefs.map((ref): BatchWrite => batch => batch.delete(ref)),
+      ...taskIds.map((taskId): BatchWrite => batch => batch.delete(doc(tasksCol, taskId))),
+      batch => batch.delete(doc(getRoomsCollection(householdId), roomId)),
+    ]);
+  },
+
+  // Create rooms together with their tasks, in one batch, so a failure leaves no
+  // room without its tasks behind. The rooms go after the existing ones.
+  async createRoomsWithTasks(householdId: string, rooms: NewRoom[], tasks: Task[]): Promise<Room[]> {
+    const existingRooms = await this.getRooms(householdId);
+    const maxOrder = existingRooms.length > 0
+      ? Math.max(...existingRooms.map(r => r.order))
+      : -1;
+
+    const createdAt = new Date().toISOString();
+    const created: Room[] = rooms.map((room, index) => ({
+      id: room.id,
+      householdId,
+      name: room.name,
+      roomType: room.roomType,
+      icon: room.icon,
+      order: maxOrder + 1 + index,
+      createdAt,
+    }));
+
+    const tasksCol = getTasksCollection(householdId);
+    await commitInBatches([
+      ...created.map((room): BatchWrite => batch => batch.set(doc(getRoomsCollection(householdId), room.id), room)),
+      ...tasks.map((task): BatchWrite => batch => batch.set(doc(tasksCol, task.id), withoutUndefined(task))),
+    ]);
+    return created;
+  },
+
   async reorderRooms(householdId: string, roomIds: string[]): Promise<void> {
-    const updates = roomIds.map((roomId, index) =>
-      updateDoc(doc(getRoomsCollection(householdId), roomId), { order: index })
-    );
-    await Promise.all(updates);
+    await commitInBatches(roomIds.map((roomId, index): BatchWrite =>
+      batch => batch.update(doc(getRoomsCollection(householdId), roomId), { order: index })
+    ));
   },
 
   // Utility: get room ID by name (for migration)
@@ -3,7 +3,29 @@ export enum Frequency {
   Weekly = 'Weekly',
   BiWeekly = 'Bi-Weekly',
   Monthly = 'Monthly',
-  Quarterly = 'Quarterly'
+  Quarterly = 'Quarterly',
+  Custom = 'Custom' // Schedule is defined by Task.recurrence
+}
+
+// RFC 5545 RRULE frequencies supported by the recurrence engine
+export type RecurrenceFreq = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  day: number; // 0=Sun..6=Sat
+  ordinal?: number; // MONTHLY/YEARLY only: 1 = first, 2 = second, -1 = last, ...
+}
+
+// Mirrors an RFC 5545 RRULE plus its DTSTART. Dates are YYYY-MM-DD strings.
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  interval?: number; // Defaults to 1
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[]; // 1..31, or negative counting back from month end (-1 = last day)
+  byMonth?: number[]; // 1..12
+  bySetPos?: number[]; // Picks the nth candidate within each period (-1 = last)
+  count?: number; // Total number of occurrences, counted from dtstart
+  until?: string; // Last possible occurrence date (inclusive)
+  dtstart?: string; // First possible occurrence; anchors INTERVAL and COUNT
 }
 
 export enum RoomType {
@@ -20,6 +42,28 @@ export enum RoomType {
   General = 'General'
 }
 
+// 'fixed': occurrences follow the calendar rule. 'floating': the next occurrence is
+// a set number of days after the task was last completed. 'window': the task is due
+// any day of each period of its rule (this week, this month) until done once in it.
+export type RecurrenceMode = 'fixed' | 'floating' | 'window';
+
+// What happens to occurrences that pass without completion: 'stack' keeps each one
+// owed separately, 'collapse' folds them into a single outstanding item.
+export type MissedPolicy = 'stack' | 'collapse';
+
+// Part of the day a task belongs in; tasks without one can be done any time
+export type TimeSlot = 'morning' | 'afternoon' | 'evening';
+
+// What a task involves that not every member may do
+export type TaskTag = 'chemicals' | 'heights' | 'heavy' | 'sharp' | 'appliances';
+
+// Where a task falls in a room's clean-through: top-down, with jobs that run in the
+// background started first and the trash taken out last
+export type TaskPhase = 'start' | 'high' | 'surfaces' | 'floors' | 'finish';
+
+// Age bracket of a member; each bracket blocks some tags by default
+export type AgeBracket = 'child' | 'teen' | 'adult';
+
 export interface Task {
   id: string;
   roomId: string; // Reference to Room.id
@@ -34,9 +78,52 @@ export interface Task {
   isCompleted?: boolean; // Today's completion status (derived from completedDates)
   priority: 'High' | 'Medium' | 'Low';
   scheduledDay?: number; // Weekly/BiWeekly: day-of-week (0=Sun..6=Sat), Monthly/Quarterly: day-of-month (1-31), Daily: undefined
+  scheduledDays?: number[]; // Several days per period (same units as scheduledDay); scheduledDay holds the first
   anchorDate?: string; // YYYY-MM-DD starting reference for BiWeekly/Quarterly recurrence
-  completedDates?: string[]; // Array of YYYY-MM-DD dates this task was completed on
+  completedDates?: string[]; // YYYY-MM-DD dates completed in the last 30 days; a cache of the household's completion events
   assignedTo?: string; // uid of the household member assigned to this task
+  locked?: boolean; // Balancing leaves its days (and assignee) alone
+  rotation?: Rotation; // Assignee taken in turns; overrides assignedTo and the room's rotation
+  recurrence?: RecurrenceRule; // Custom schedule; when absent the rule is derived from frequency/scheduledDay/anchorDate
+  recurrenceMode?: RecurrenceMode; // Defaults to 'fixed'
+  floatingIntervalDays?: number; // Floating mode: days between completion and next due date (defaults from frequency)
+  suggestedDay?: number; // Window mode: day the optimizer suggests doing it (same units as scheduledDay); never pins it
+  missedPolicy?: MissedPolicy; // Defaults to 'collapse'
+  skippedDates?: string[]; // YYYY-MM-DD occurrences that won't happen (by original date)
+  movedDates?: Record<string, string>; // Original occurrence date -> date it was moved to
+  isOverdue?: boolean; // Computed: has missed occurrences still owed
+  overdueDays?: number; // Computed: days since the oldest missed occurrence still owed
+  missedDates?: string[]; // Computed: YYYY-MM-DD missed occurrences still owed, oldest first
+  createdAt?: string; // ISO timestamp; occurrences before creation are never counted as missed
+  activeFrom?: string; // YYYY-MM-DD first day the task is active
+  activeUntil?: string; // YYYY-MM-DD last day the task is active
+  activeMonths?: number[]; // Months the task is in season (1=Jan..12=Dec); all year when empty
+  timeSlot?: TimeSlot; // Part of the day; any time when absent
+  startTime?: string; // HH:MM specific time; takes precedence over timeSlot
+  tags?: TaskTag[]; // What the task involves; members blocked from a tag aren't assigned it
+  phase?: TaskPhase; // Place in the day's route; guessed from the description when absent
+  after?: string[]; // Descriptions of tasks in the same room to do before this one
+  claim?: TaskClaim; // Someone is doing it right now
+}
+
+// A member has started a task. Others see it as in progress until it's done,
+// let go, or goes stale (see CLAIM_HOURS).
+export interface TaskClaim {
+  uid: string;
+  date: string; // YYYY-MM-DD occurrence being worked on
+  claimedAt: string; // ISO timestamp
+}
+
+// One completed occurrence, kept in households/{id}/completions. These are the record of
+// what got done; Task.completedDates is rebuilt from them.
+export interface CompletionEvent {
+  id: string; // `${taskId}_${date}`: an occurrence is completed at most once
+  taskId: string;
+  roomId: string;
+  date: string; // YYYY-MM-DD occurrence that was completed
+  completedBy?: string; // uid of the member who checked it off; absent for completions from before events were kept
+  completedAt: string; // ISO timestamp of when it was checked off
+  actualMinutes?: number; // How long it really took, when someone said
 }
 
 export interface RoomTaskTemplate {
@@ -44,6 +131,10 @@ export interface RoomTaskTemplate {
   frequency: Frequency;
   estimatedMinutes: number;
   priority: 'High' | 'Medium' | 'Low';
+  activeMonths?: number[]; // Seasonal default copied onto tasks created from this template
+  tags?: TaskTag[]; // Copied onto tasks created from this template
+  phase?: TaskPhase; // Copied onto tasks created from this template
+  after?: string[]; // Descriptions of templates in the same room to do first
 }
 
 export interface RoomTemplate {
@@ -83,6 +174,23 @@ export interface Household {
   adminUid: string;
   inviteCode: string;
   createdAt: string;
+  schemaVersion?: number; // Last migration step applied to the household's data; absent means none
+}
+
+// households/{id}/migrations/lock: held by the one client migrating the household
+export interface MigrationLock {
+  holder: string; // Id of the client (browser tab) holding it
+  acquiredAt: string; // ISO timestamp
+  heartbeatAt: string; // ISO timestamp, refreshed between steps; a lock gone quiet can be taken over
+}
+
+// households/{id}/migrations/v{version}: how a migration step went
+export interface MigrationRecord {
+  version: number;
+  description: string;
+  status: 'done' | 'failed';
+  finishedAt: string; // ISO timestamp
+  error?: string;
 }
 
 export interface HouseholdMember {
@@ -92,6 +200,47 @@ export interface HouseholdMember {
   photoURL?: string;
   role: 'admin' | 'member';
   joinedAt: string;
+  ageBracket?: AgeBracket; // Adult when absent
+  allowedTags?: TaskTag[]; // Tags allowed despite the age bracket
+  blockedTags?: TaskTag[]; // Tags blocked on top of the age bracket
+}
+
+// Days (inclusive YYYY-MM-DD) when the whole household is away; nothing is scheduled
+export interface PausePeriod {
+  id: string;
+  start: string;
+  end: string;
+  label?: string;
+}
+
+// Days when one member is away. Their tasks go to coverUid if set, otherwise they're skipped.
+export interface AwayPeriod {
+  id: string;
+  memberUid: string;
+  start: string;
+  end: string;
+  coverUid?: string;
+}
+
+// Turns taken at a task (or every task in a room) by an ordered list of members
+export type RotationUnit = 'occurrences' | 'weeks';
+
+export interface Rotation {
+  memberUids: string[]; // Whose turn it is, in order
+  every: number; // Each turn lasts this many occurrences or weeks
+  unit: RotationUnit;
+  startDate: string; // YYYY-MM-DD when the first member's turn starts
+}
+
+// Household-wide scheduling settings, stored at households/{id}/settings/schedule
+export interface ScheduleSettings {
+  pauses: PausePeriod[];
+  awayPeriods: AwayPeriod[];
+  timezone?: string; // IANA zone, e.g. "America/Chicago"; defaults to the device's zone
+  dayEndsAt?: number; // Hour (0-23) at which the household day rolls over; default 0 (midnight)
+  memberShares?: Record<string, number>; // uid -> relative share of the weekly work; default 1
+  dayBudgets?: number[]; // Minutes available per weekday (index 0 = Sun); no limit when absent
+  memberBudgets?: Record<string, number[]>; // uid -> minutes that member has per weekday
 }
 
 export interface Room {
@@ -101,5 +250,8 @@ export interface Room {
   roomType: RoomType;
   icon: string; // Lucide icon name
   order: number; // For custom sorting
+  floor?: number; // 0 = ground floor, 1 = upstairs, -1 = basement; the route works top-down
+  locked?: boolean; // Balancing leaves every task in this room alone
+  rotation?: Rotation | null; // Turns for the room's tasks that have no assignee or rotation of their own; null once removed
   createdAt: string;
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { Task, TaskClaim, CompletionEvent } from '../types';
+
+// A claim nobody finished or let go of stops counting after this long
+export const CLAIM_HOURS = 4;
+
+/**
+ * Returns the claim on a task's occurrence if it still holds: made for that
+ * date and less than CLAIM_HOURS old.
+ */
+export function getActiveClaim(task: Pick<Task, 'claim'>, date: string, now: Date = new Date()): TaskClaim | undefined {
+  const claim = task.claim;
+  if (!claim || claim.date !== date) return undefined;
+  const age = now.getTime() - new Date(claim.claimedAt).getTime();
+  return age < CLAIM_HOURS * 60 * 60 * 1000 ? claim : undefined;
+}
+
+/**
+ * Whether completing an occurrence ends the task's claim: it was the claimed
+ * occurrence, or the claimant completed one. A claim is made for today, while
+ * completing an overdue task completes its oldest missed date.
+ */
+export function endsClaim(task: Pick<Task, 'claim'>, event: Pick<CompletionEvent, 'date' | 'completedBy'>): boolean {
+  const claim = task.claim;
+  return !!claim && (claim.date === event.date || (!!event.completedBy && claim.uid === event.completedBy));
+}
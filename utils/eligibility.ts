@@ -0,0 +1,49 @@
+import { Task, TaskTag, AgeBracket, HouseholdMember } from '../types';
+
+export const TASK_TAGS: { value: TaskTag; label: string }[] = [
+  { value: 'chemicals', label: 'Chemicals' },
+  { value: 'heights', label: 'Heights' },
+  { value: 'heavy', label: 'Heavy lifting' },
+  { value: 'sharp', label: 'Sharp objects' },
+  { value: 'appliances', label: 'Hot appliances' },
+];
+
+export const AGE_BRACKETS: { value: AgeBracket; label: string; blocks: TaskTag[] }[] = [
+  { value: 'adult', label: 'Adult', blocks: [] },
+  { value: 'teen', label: 'Teen', blocks: ['heights'] },
+  { value: 'child', label: 'Child', blocks: ['chemicals', 'heights', 'heavy', 'sharp', 'appliances'] },
+];
+
+export const getTagLabel = (tag: TaskTag): string => TASK_TAGS.find(t => t.value === tag)?.label ?? tag;
+
+/**
+ * Returns the tags a member may not be assigned: their age bracket's defaults plus
+ * their own blocked tags, minus the ones explicitly allowed.
+ */
+export function getBlockedTags(member: Pick<HouseholdMember, 'ageBracket' | 'allowedTags' | 'blockedTags'>): TaskTag[] {
+  const bracket = AGE_BRACKETS.find(b => b.value === (member.ageBracket ?? 'adult'));
+  const blocked = new Set([...(bracket?.blocks ?? []), ...(member.blockedTags ?? [])]);
+  for (const tag of member.allowedTags ?? []) blocked.delete(tag);
+  return TASK_TAGS.map(t => t.value).filter(tag => blocked.has(tag));
+}
+
+/**
+ * Returns the task's tags that `blockedTags` rules out; empty when the task is fine.
+ */
+export function getIneligibleTags(task: Pick<Task, 'tags'>, blockedTags: TaskTag[]): TaskTag[] {
+  return (task.tags ?? []).filter(tag => blockedTags.includes(tag));
+}
+
+export function canDoTask(task: Pick<Task, 'tags'>, member: HouseholdMember): boolean {
+  return getIneligibleTags(task, getBlockedTags(member)).length === 0;
+}
+
+/**
+ * Explains why a member can't be given a task, e.g. "involves chemicals", or
+ * returns undefined when they can.
+ */
+export function describeIneligibility(task: Pick<Task, 'tags'>, member: HouseholdMember): string | undefined {
+  const tags = getIneligibleTags(task, getBlockedTags(member));
+  if (tags.length === 0) return undefined;
+  return `involves ${tags.map(tag => getTagLabel(tag).toLowerCase()).join(', ')}`;
+}
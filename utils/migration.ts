@@ -1,16 +1,17 @@
 import { Task, Frequency } from '../types';
-import { toDate } from './recurrence';
+import { toDate, getToday } from './recurrence';
 
 /**
  * Migrates a single task from the old model (nextDueDate-only) to the new
- * recurrence model (scheduledDay + anchorDate + completedDates).
+ * recurrence model (scheduledDay + anchorDate + completedDates). Used by the
+ * schema migration steps in services/migrations.ts.
  *
  * Returns only the fields that need updating.
  */
 export function migrateTaskToRecurrence(task: Task): Partial<Task> {
   const updates: Partial<Task> = {};
   const date = toDate(task.nextDueDate);
-  const today = new Date().toISOString().split('T')[0];
+  const today = getToday();
 
   switch (task.frequency) {
     case Frequency.Daily:
@@ -49,11 +50,3 @@ export function migrateTaskToRecurrence(task: Task): Partial<Task> {
 
   return updates;
 }
-
-/**
- * Checks if a task needs migration (lacks the new recurrence fields).
- */
-export function needsMigration(task: Task): boolean {
-  // Daily tasks don't need scheduledDay, so check completedDates instead
-  return task.completedDates === undefined;
-}
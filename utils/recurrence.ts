@@ -1,4 +1,5 @@
-import { Task, Frequency } from '../types';
+import { Task, Frequency, RecurrenceRule, RecurrenceFreq, WeekdayRule, ScheduleSettings, PausePeriod, AwayPeriod, Room, Rotation, HouseholdMember, TaskTag } from '../types';
+import { getBlockedTags, getIneligibleTags } from './eligibility';
 
 // --- Date helpers (all operate on YYYY-MM-DD strings) ---
 
@@ -38,127 +39,997 @@ function diffDays(a: string, b: string): number {
   return Math.round((db.getTime() - da.getTime()) / (1000 * 60 * 60 * 24));
 }
 
+// --- Day numbers (days since 1970-01-01, timezone independent) ---
+// The rule engine works on integers so it never has to worry about DST.
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function toDayNum(dateStr: string): number {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / MS_PER_DAY);
+}
+
+function fromDayNum(n: number): string {
+  const d = new Date(n * MS_PER_DAY);
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(d.getUTCDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function dayNumOf(year: number, month: number, day: number): number {
+  return Math.round(Date.UTC(year, month, day) / MS_PER_DAY);
+}
+
+function weekdayOf(n: number): number {
+  // 1970-01-01 was a Thursday
+  return (((n + 4) % 7) + 7) % 7;
+}
+
+function partsOf(n: number): { year: number; month: number; day: number } {
+  const d = new Date(n * MS_PER_DAY);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate() };
+}
+
+// Weeks start on Monday (RFC 5545 default WKST=MO)
+function weekStartOf(n: number): number {
+  return n - ((weekdayOf(n) + 6) % 7);
+}
+
+// --- RRULE model ---
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Hard stop for pathological rules (e.g. BYMONTHDAY=31 with BYMONTH=2 never matches)
+const MAX_PERIODS = 20000;
+
 /**
- * Returns all YYYY-MM-DD date strings where `task` occurs within [startDate, endDate] inclusive.
+ * Returns the task's scheduled weekdays or month-days, sorted:
+ * scheduledDays when it has entries, otherwise the single scheduledDay.
  */
-export function getTaskOccurrences(task: Task, startDate: string, endDate: string): string[] {
-  const results: string[] = [];
+export function getScheduledDays(task: Pick<Task, 'scheduledDay' | 'scheduledDays'>): number[] {
+  if (task.scheduledDays && task.scheduledDays.length > 0) return [...task.scheduledDays].sort((a, b) => a - b);
+  return task.scheduledDay !== undefined ? [task.scheduledDay] : [];
+}
+
+/**
+ * Returns the Task fields that store a set of scheduled days. scheduledDay keeps the
+ * first day for single-day readers; scheduledDays is emptied when only one day is set.
+ */
+export function scheduledDayFields(days: number[]): Pick<Task, 'scheduledDay' | 'scheduledDays'> {
+  const sorted = Array.from(new Set(days)).sort((a, b) => a - b);
+  return { scheduledDay: sorted[0], scheduledDays: sorted.length > 1 ? sorted : [] };
+}
+
+/**
+ * Returns the days a task is planned for in each period: its scheduled days, or for
+ * a window task the day suggested for it (none until one has been suggested).
+ */
+export function getPlannedDays(task: Task): number[] {
+  if (!isWindowed(task)) return getScheduledDays(task);
+  return task.suggestedDay !== undefined ? [task.suggestedDay] : [];
+}
+
+/**
+ * Returns the Task fields that plan it for `days`: its scheduled days, or for a
+ * window task the suggested day, which leaves the window itself alone.
+ */
+export function plannedDayFields(task: Task, days: number[]): Partial<Task> {
+  if (!isWindowed(task)) return scheduledDayFields(days);
+  return { suggestedDay: days.length > 0 ? Math.min(...days) : undefined };
+}
+
+/**
+ * Maps the fixed Frequency presets onto an equivalent recurrence rule.
+ *
+ * - Daily      -> FREQ=DAILY
+ * - Weekly     -> FREQ=WEEKLY;BYDAY=<scheduled days>
+ * - Bi-Weekly  -> FREQ=WEEKLY;INTERVAL=2, started on the on-week closest to anchorDate
+ * - Monthly    -> FREQ=MONTHLY;BYMONTHDAY=<scheduled days> (clamped to month end)
+ * - Quarterly  -> FREQ=MONTHLY;INTERVAL=3, started in anchorDate's month
+ *
+ * Bi-Weekly and Quarterly tasks are given an anchorDate when created (older ones by
+ * schema migration 4); nextDueDate moves with each reset, so it only stands in for
+ * one a task doesn't have yet.
+ */
+export function ruleFromLegacy(task: Task): RecurrenceRule {
+  const scheduled = getScheduledDays(task);
 
   switch (task.frequency) {
-    case Frequency.Daily: {
-      let current = startDate;
-      while (current <= endDate) {
-        results.push(current);
-        current = addDays(current, 1);
+    case Frequency.Weekly: {
+      const days = scheduled.length > 0 ? scheduled : [dayOfWeek(task.nextDueDate)];
+      return { freq: 'WEEKLY', byDay: days.map(day => ({ day })) };
+    }
+
+    case Frequency.BiWeekly: {
+      const days = scheduled.length > 0 ? scheduled : [dayOfWeek(task.nextDueDate)];
+      const anchor = task.anchorDate ?? task.nextDueDate;
+      // The old model treated the target weekday nearest to the anchor as week 0,
+      // so start the rule on exactly that date.
+      let offset = (days[0] - dayOfWeek(anchor) + 7) % 7;
+      if (offset > 3) offset -= 7;
+      const firstDate = addDays(anchor, offset);
+      if (days.length === 1) {
+        return { freq: 'WEEKLY', interval: 2, byDay: [{ day: days[0] }], dtstart: firstDate };
       }
-      break;
+      // Several days: the whole (Monday-based) week holding that date is the on-week
+      const weekStart = fromDayNum(weekStartOf(toDayNum(firstDate)));
+      return { freq: 'WEEKLY', interval: 2, byDay: days.map(day => ({ day })), dtstart: weekStart };
     }
 
-    case Frequency.Weekly: {
-      const targetDay = task.scheduledDay ?? dayOfWeek(task.nextDueDate);
-      let current = startDate;
-      while (current <= endDate) {
-        if (dayOfWeek(current) === targetDay) {
-          results.push(current);
-        }
-        current = addDays(current, 1);
+    case Frequency.Monthly:
+    case Frequency.Quarterly: {
+      const doms = scheduled.length > 0 ? scheduled : [dayOfMonth(task.nextDueDate)];
+      // Days 29-31 fall back to the last day in shorter months: add the last day as a
+      // candidate and keep only as many (lowest) dates as were asked for. Short months
+      // then fold a missing day onto the last day instead of dropping it.
+      const rule: RecurrenceRule = doms.some(d => d > 28)
+        ? { freq: 'MONTHLY', byMonthDay: [...doms, -1], bySetPos: doms.map((_, i) => i + 1) }
+        : { freq: 'MONTHLY', byMonthDay: doms };
+      if (task.frequency === Frequency.Quarterly) {
+        const anchor = task.anchorDate ?? task.nextDueDate;
+        rule.interval = 3;
+        rule.dtstart = `${anchor.substring(0, 7)}-01`;
       }
-      break;
+      return rule;
     }
 
-    case Frequency.BiWeekly: {
-      const targetDay = task.scheduledDay ?? dayOfWeek(task.nextDueDate);
-      const anchor = task.anchorDate ?? task.nextDueDate;
-      let current = startDate;
-      while (current <= endDate) {
-        if (dayOfWeek(current) === targetDay) {
-          // Check if this is an "on" week relative to anchor
-          const weeksDiff = Math.round(diffDays(anchor, current) / 7);
-          // The anchor week is week 0 (on), week 1 is off, week 2 is on, etc.
-          // Handle negative weeksDiff correctly with modular arithmetic
-          if (((weeksDiff % 2) + 2) % 2 === 0) {
-            results.push(current);
-          }
-        }
-        current = addDays(current, 1);
+    default:
+      return { freq: 'DAILY' };
+  }
+}
+
+/**
+ * Returns the rule that drives this task: its explicit recurrence, or the
+ * equivalent of its Frequency preset.
+ */
+export function getRecurrenceRule(task: Task): RecurrenceRule {
+  return task.recurrence ?? ruleFromLegacy(task);
+}
+
+// Expands BYDAY (with optional ordinals) over the inclusive day range [first, last]
+function expandWeekdays(first: number, last: number, byDay: WeekdayRule[]): number[] {
+  const result: number[] = [];
+  for (const { day, ordinal } of byDay) {
+    const firstMatch = first + ((day - weekdayOf(first) + 7) % 7);
+    const matches: number[] = [];
+    for (let n = firstMatch; n <= last; n += 7) matches.push(n);
+    if (ordinal === undefined || ordinal === 0) {
+      result.push(...matches);
+    } else {
+      const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (picked !== undefined) result.push(picked);
+    }
+  }
+  return result;
+}
+
+function matchesByDay(n: number, byDay: WeekdayRule[]): boolean {
+  return byDay.some(d => d.day === weekdayOf(n));
+}
+
+function resolveMonthDays(byMonthDay: number[], dim: number): number[] {
+  return byMonthDay
+    .map(md => (md > 0 ? md : dim + md + 1))
+    .filter(md => md >= 1 && md <= dim);
+}
+
+// Candidate days within one month for MONTHLY/YEARLY rules
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, defaultDom: number): number[] {
+  const dim = daysInMonth(year, month);
+  const first = dayNumOf(year, month, 1);
+  const last = first + dim - 1;
+
+  if (rule.byMonthDay?.length) {
+    let days = resolveMonthDays(rule.byMonthDay, dim).map(md => first + md - 1);
+    if (rule.byDay?.length) {
+      const allowed = new Set(expandWeekdays(first, last, rule.byDay));
+      days = days.filter(n => allowed.has(n));
+    }
+    return days;
+  }
+  if (rule.byDay?.length) {
+    return expandWeekdays(first, last, rule.byDay);
+  }
+  return defaultDom <= dim ? [first + defaultDom - 1] : [];
+}
+
+function periodCandidates(rule: RecurrenceRule, periodStart: number, ref: number): number[] {
+  const refParts = partsOf(ref);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const { month, day } = partsOf(periodStart);
+      if (rule.byMonth?.length && !rule.byMonth.includes(month + 1)) return [];
+      if (rule.byDay?.length && !matchesByDay(periodStart, rule.byDay)) return [];
+      if (rule.byMonthDay?.length) {
+        const { year } = partsOf(periodStart);
+        if (!resolveMonthDays(rule.byMonthDay, daysInMonth(year, month)).includes(day)) return [];
       }
-      break;
-    }
-
-    case Frequency.Monthly: {
-      const targetDom = task.scheduledDay ?? dayOfMonth(task.nextDueDate);
-      const start = toDate(startDate);
-      const end = toDate(endDate);
-      let year = start.getFullYear();
-      let month = start.getMonth();
-      // Start from the month of startDate
-      while (true) {
-        const maxDay = daysInMonth(year, month);
-        const day = Math.min(targetDom, maxDay);
-        const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-        if (dateStr > endDate) break;
-        if (dateStr >= startDate) {
-          results.push(dateStr);
-        }
-        month++;
-        if (month > 11) { month = 0; year++; }
-        // Safety: don't loop forever
-        if (year > end.getFullYear() + 1) break;
+      return [periodStart];
+    }
+
+    case 'WEEKLY': {
+      const days = rule.byDay?.length
+        ? rule.byDay.map(d => periodStart + ((d.day + 6) % 7))
+        : [periodStart + ((weekdayOf(ref) + 6) % 7)];
+      if (!rule.byMonth?.length) return days;
+      return days.filter(n => rule.byMonth!.includes(partsOf(n).month + 1));
+    }
+
+    case 'MONTHLY': {
+      const { year, month } = partsOf(periodStart);
+      if (rule.byMonth?.length && !rule.byMonth.includes(month + 1)) return [];
+      return monthCandidates(rule, year, month, refParts.day);
+    }
+
+    case 'YEARLY': {
+      const { year } = partsOf(periodStart);
+      if (rule.byMonth?.length) {
+        return rule.byMonth.flatMap(m => monthCandidates(rule, year, m - 1, refParts.day));
+      }
+      if (rule.byMonthDay?.length) {
+        const days: number[] = [];
+        for (let m = 0; m < 12; m++) days.push(...monthCandidates(rule, year, m, refParts.day));
+        return days;
+      }
+      if (rule.byDay?.length) {
+        return expandWeekdays(dayNumOf(year, 0, 1), dayNumOf(year, 11, 31), rule.byDay);
       }
-      break;
+      return refParts.day <= daysInMonth(year, refParts.month)
+        ? [dayNumOf(year, refParts.month, refParts.day)]
+        : [];
     }
+  }
+}
 
-    case Frequency.Quarterly: {
-      const targetDom = task.scheduledDay ?? dayOfMonth(task.nextDueDate);
-      const anchor = task.anchorDate ?? task.nextDueDate;
-      const anchorDate = toDate(anchor);
-      const anchorMonth = anchorDate.getMonth();
-      const start = toDate(startDate);
-      const end = toDate(endDate);
-      let year = start.getFullYear();
-      let month = start.getMonth();
-      while (true) {
-        // Check if this month is in the quarterly cycle (every 3 months from anchor month)
-        const monthDiff = (month - anchorMonth + 12) % 12;
-        if (monthDiff % 3 === 0) {
-          const maxDay = daysInMonth(year, month);
-          const day = Math.min(targetDom, maxDay);
-          const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-          if (dateStr > endDate) break;
-          if (dateStr >= startDate) {
-            results.push(dateStr);
-          }
-        }
-        month++;
-        if (month > 11) { month = 0; year++; }
-        if (year > end.getFullYear() + 1) break;
+// Period bookkeeping: index of a period relative to the reference period,
+// plus conversion back to the first day of that period.
+function periodIndex(freq: RecurrenceFreq, n: number, ref: number): number {
+  switch (freq) {
+    case 'DAILY':
+      return n - ref;
+    case 'WEEKLY':
+      return Math.round((weekStartOf(n) - weekStartOf(ref)) / 7);
+    case 'MONTHLY': {
+      const a = partsOf(n);
+      const b = partsOf(ref);
+      return (a.year - b.year) * 12 + (a.month - b.month);
+    }
+    case 'YEARLY':
+      return partsOf(n).year - partsOf(ref).year;
+  }
+}
+
+function periodStartAt(freq: RecurrenceFreq, index: number, ref: number): number {
+  switch (freq) {
+    case 'DAILY':
+      return ref + index;
+    case 'WEEKLY':
+      return weekStartOf(ref) + index * 7;
+    case 'MONTHLY': {
+      const { year, month } = partsOf(ref);
+      return dayNumOf(year, month + index, 1);
+    }
+    case 'YEARLY':
+      return dayNumOf(partsOf(ref).year + index, 0, 1);
+  }
+}
+
+/**
+ * Expands a recurrence rule into YYYY-MM-DD dates within [startDate, endDate] inclusive.
+ * Stops early once `limit` dates have been collected.
+ */
+export function expandRule(rule: RecurrenceRule, startDate: string, endDate: string, limit = Infinity): string[] {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const dtstart = rule.dtstart ? toDayNum(rule.dtstart) : undefined;
+  // Without a DTSTART the rule is unbounded and INTERVAL is phased from the epoch
+  const ref = dtstart ?? 0;
+
+  const start = toDayNum(startDate);
+  let upper = toDayNum(endDate);
+  if (rule.until) upper = Math.min(upper, toDayNum(rule.until));
+  const lower = Math.max(start, dtstart ?? start);
+  if (lower > upper) return [];
+
+  // COUNT must be tallied from the very first occurrence, so walk from DTSTART
+  const counting = rule.count !== undefined && dtstart !== undefined;
+  let index = counting ? 0 : periodIndex(rule.freq, lower, ref);
+  index = Math.ceil(index / interval) * interval;
+
+  const results: string[] = [];
+  let seen = 0;
+
+  for (let i = 0; i < MAX_PERIODS; i++, index += interval) {
+    const periodStart = periodStartAt(rule.freq, index, ref);
+    if (periodStart > upper) break;
+
+    let candidates = Array.from(new Set(periodCandidates(rule, periodStart, ref))).sort((a, b) => a - b);
+    if (rule.bySetPos?.length) {
+      const all = candidates;
+      candidates = rule.bySetPos
+        .map(pos => (pos > 0 ? all[pos - 1] : all[all.length + pos]))
+        .filter((n): n is number => n !== undefined);
+      candidates = Array.from(new Set(candidates)).sort((a, b) => a - b);
+    }
+
+    for (const n of candidates) {
+      if (dtstart !== undefined && n < dtstart) continue;
+      if (n > upper) break;
+      if (counting) {
+        seen++;
+        if (seen > rule.count!) return results;
+      }
+      if (n >= lower) {
+        results.push(fromDayNum(n));
+        if (results.length >= limit) return results;
       }
-      break;
     }
   }
 
   return results;
 }
 
+// --- Floating (completion-relative) recurrence ---
+
+const DEFAULT_FLOATING_DAYS: Record<RecurrenceFreq, number> = { DAILY: 1, WEEKLY: 7, MONTHLY: 30, YEARLY: 365 };
+
+export function isFloating(task: Task): boolean {
+  return task.recurrenceMode === 'floating';
+}
+
+/**
+ * Days between a completion and the next due date for a floating task.
+ * Defaults to the average spacing of the task's calendar rule.
+ */
+export function getFloatingIntervalDays(task: Task): number {
+  if (task.floatingIntervalDays && task.floatingIntervalDays > 0) return task.floatingIntervalDays;
+  if (task.frequency === Frequency.Quarterly) return 91;
+  const rule = getRecurrenceRule(task);
+  return DEFAULT_FLOATING_DAYS[rule.freq] * (rule.interval ?? 1);
+}
+
+/**
+ * Returns the most recent date (YYYY-MM-DD) this task was completed, if any.
+ * completedDates is pruned to 30 days, so lastCompleted covers older completions.
+ */
+export function getLastCompletedDate(task: Task): string | undefined {
+  const dates = task.completedDates ?? [];
+  if (dates.length > 0) return dates.reduce((a, b) => (a > b ? a : b));
+  return task.lastCompleted ? getHouseholdDate(new Date(task.lastCompleted)) : undefined;
+}
+
+/**
+ * Returns when a floating task is next due: `floatingIntervalDays` after the
+ * last completion, or its start date if it has never been completed.
+ */
+export function getFloatingDueDate(task: Task): string {
+  const last = getLastCompletedDate(task);
+  if (last) return addDays(last, getFloatingIntervalDays(task));
+  return task.anchorDate ?? task.nextDueDate;
+}
+
+// Past completions are occurrences in their own right; from the due date on,
+// occurrences are projected every interval as if each were done on time.
+function getFloatingOccurrences(task: Task, startDate: string, endDate: string, limit: number): string[] {
+  const start = toDayNum(startDate);
+  const end = toDayNum(endDate);
+  const interval = getFloatingIntervalDays(task);
+
+  const days = new Set<number>();
+  for (const date of task.completedDates ?? []) {
+    const n = toDayNum(date);
+    if (n >= start && n <= end) days.add(n);
+  }
+
+  // An overdue task rolls forward: it stays due today until it's done
+  let due = Math.max(toDayNum(getFloatingDueDate(task)), toDayNum(getToday()));
+  if (due < start) due += Math.ceil((start - due) / interval) * interval;
+  for (let added = 0; due <= end && added < limit; due += interval, added++) {
+    days.add(due);
+  }
+
+  return Array.from(days).sort((a, b) => a - b).slice(0, limit).map(fromDayNum);
+}
+
+// --- Window ("anytime this week") recurrence ---
+
+export function isWindowed(task: Task): boolean {
+  return task.recurrenceMode === 'window';
+}
+
+/**
+ * Returns the first and last date of the window holding `date`: the period of the
+ * task's rule it falls in (a Monday-based week, every other week, a month, a quarter).
+ */
+export function getTaskWindow(task: Task, date: string): { start: string; end: string } {
+  const rule = getRecurrenceRule(task);
+  const interval = Math.max(1, rule.interval ?? 1);
+  // Presets are phased from anchorDate alone: the derived DTSTART also depends on the
+  // scheduled day, which a window task doesn't have
+  const ref = !task.recurrence && task.anchorDate ? toDayNum(task.anchorDate) : rule.dtstart ? toDayNum(rule.dtstart) : 0;
+  const index = Math.floor(periodIndex(rule.freq, toDayNum(date), ref) / interval) * interval;
+  return {
+    start: fromDayNum(periodStartAt(rule.freq, index, ref)),
+    end: fromDayNum(periodStartAt(rule.freq, index + interval, ref) - 1),
+  };
+}
+
+// Completion dates, plus lastCompleted once it's older than the pruned completedDates
+// (a newer one that isn't in completedDates was unchecked)
+function windowCompletions(task: Task): string[] {
+  const dates = new Set(task.completedDates ?? []);
+  const last = task.lastCompleted ? getHouseholdDate(new Date(task.lastCompleted)) : undefined;
+  if (last && last < addDays(getToday(), -OVERDUE_LOOKBACK_DAYS)) dates.add(last);
+  return Array.from(dates).sort();
+}
+
+/**
+ * Returns the date a window task was done in the window holding `date`, if it was.
+ */
+export function getWindowCompletion(task: Task, date: string): string | undefined {
+  const { start, end } = getTaskWindow(task, date);
+  return windowCompletions(task).find(d => d >= start && d <= end);
+}
+
+const WINDOW_NAMES: Record<string, string> = {
+  'WEEKLY:1': 'week', 'WEEKLY:2': 'fortnight', 'MONTHLY:1': 'month', 'MONTHLY:3': 'quarter', 'YEARLY:1': 'year',
+};
+
+/**
+ * Names a window task's window for display: "week", "month", "quarter", or
+ * "period" for spans without a name.
+ */
+export function getWindowName(task: Pick<Task, 'frequency' | 'recurrence'>): string {
+  if (task.recurrence) return WINDOW_NAMES[`${task.recurrence.freq}:${task.recurrence.interval ?? 1}`] ?? 'period';
+  switch (task.frequency) {
+    case Frequency.Weekly: return 'week';
+    case Frequency.BiWeekly: return 'fortnight';
+    case Frequency.Monthly: return 'month';
+    case Frequency.Quarterly: return 'quarter';
+    default: return 'period';
+  }
+}
+
+// A window's occurrences are every one of its days until the task is done, and then
+// just the day it was done. Skipping any day of a window skips the whole window.
+function getWindowOccurrences(task: Task, startDate: string, endDate: string, limit: number): string[] {
+  const completions = windowCompletions(task);
+  const skipped = task.skippedDates ?? [];
+  const results: string[] = [];
+
+  for (let from = startDate; from <= endDate && results.length < limit;) {
+    const window = getTaskWindow(task, from);
+    const to = window.end < endDate ? window.end : endDate;
+    const inWindow = (d: string) => d >= window.start && d <= window.end;
+    const done = completions.filter(inWindow);
+    if (done.length > 0) {
+      results.push(...done.filter(d => d >= from && d <= to));
+    } else if (!skipped.some(inWindow)) {
+      for (let d = from; d <= to; d = addDays(d, 1)) results.push(d);
+    }
+    from = addDays(window.end, 1);
+  }
+
+  return results.slice(0, limit);
+}
+
+function occurrencesInRange(task: Task, startDate: string, endDate: string, limit = Infinity): string[] {
+  // Nothing happens outside the task's active window
+  const start = task.activeFrom && task.activeFrom > startDate ? task.activeFrom : startDate;
+  const end = task.activeUntil && task.activeUntil < endDate ? task.activeUntil : endDate;
+  if (start > end) return [];
+
+  const months = task.activeMonths?.length ? task.activeMonths : undefined;
+  const blocked = getBlockedRanges(task, start, end);
+  if (!months && blocked.length === 0) return scheduledInRange(task, start, end, limit);
+  return scheduledInRange(task, start, end)
+    .filter(d => !months || months.includes(parseInt(d.substring(5, 7))))
+    .filter(d => !blocked.some(r => d >= r.start && d <= r.end))
+    .slice(0, limit);
+}
+
+function scheduledInRange(task: Task, startDate: string, endDate: string, limit = Infinity): string[] {
+  if (isFloating(task)) return getFloatingOccurrences(task, startDate, endDate, limit);
+  if (isWindowed(task)) return getWindowOccurrences(task, startDate, endDate, limit);
+
+  const rule = getRecurrenceRule(task);
+  const skipped = new Set(task.skippedDates ?? []);
+  const moved = task.movedDates ?? {};
+  const movedFrom = Object.keys(moved);
+  if (skipped.size === 0 && movedFrom.length === 0) return expandRule(rule, startDate, endDate, limit);
+
+  // Over-fetch so that removing exceptions still leaves `limit` dates
+  const dates = new Set(
+    expandRule(rule, startDate, endDate, limit + skipped.size + movedFrom.length)
+      .filter(d => !skipped.has(d) && !(d in moved))
+  );
+  // Occurrences moved into the range, as long as the original is still a real occurrence
+  for (const original of movedFrom) {
+    const target = moved[original];
+    if (target >= startDate && target <= endDate && !skipped.has(original)
+        && expandRule(rule, original, original, 1).length > 0) {
+      dates.add(target);
+    }
+  }
+  return Array.from(dates).sort().slice(0, limit);
+}
+
+// --- Occurrence index ---
+
+// Each task's expanded occurrences are cached over the widest range asked for so far.
+// Tasks are replaced rather than mutated when they change, so the task object is the
+// key. Household settings and the date (floating tasks roll forward with today) are
+// stamped on each entry; a stale stamp means the entry is rebuilt.
+interface OccurrenceIndex {
+  start: string;
+  end: string;
+  stamp: string;
+  dates: string[];
+  dateSet: Set<string>;
+}
+
+const occurrenceIndexes = new WeakMap<Task, OccurrenceIndex>();
+let scheduleVersion = 0;
+
+// Ranges further apart than this replace the index instead of widening it
+const MAX_INDEX_GAP_DAYS = 366;
+
+function indexStamp(): string {
+  return `${scheduleVersion}|${getToday()}`;
+}
+
+// Returns the task's index if it's current and covers [startDate, endDate]
+function coveringIndex(task: Task, startDate: string, endDate: string): OccurrenceIndex | undefined {
+  const index = occurrenceIndexes.get(task);
+  if (!index || index.stamp !== indexStamp()) return undefined;
+  return index.start <= startDate && index.end >= endDate ? index : undefined;
+}
+
+function buildIndex(task: Task, startDate: string, endDate: string): OccurrenceIndex {
+  const stamp = indexStamp();
+  let start = startDate;
+  let end = endDate;
+  const existing = occurrenceIndexes.get(task);
+  if (existing && existing.stamp === stamp
+      && diffDays(existing.end, startDate) <= MAX_INDEX_GAP_DAYS && diffDays(endDate, existing.start) <= MAX_INDEX_GAP_DAYS) {
+    if (existing.start < start) start = existing.start;
+    if (existing.end > end) end = existing.end;
+  }
+  const dates = occurrencesInRange(task, start, end);
+  const index = { start, end, stamp, dates, dateSet: new Set(dates) };
+  occurrenceIndexes.set(task, index);
+  return index;
+}
+
+// First position in sorted `dates` that is >= `date`
+function lowerBound(dates: string[], date: string): number {
+  let lo = 0;
+  let hi = dates.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (dates[mid] < date) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Returns all YYYY-MM-DD date strings where `task` occurs within [startDate, endDate] inclusive.
+ * Floating tasks are projected forward from their latest completion; window tasks occur
+ * every day of a window until they're done in it. Results come from
+ * the task's occurrence index, which is widened to cover the range if needed.
+ */
+export function getTaskOccurrences(task: Task, startDate: string, endDate: string): string[] {
+  if (startDate > endDate) return [];
+  const index = coveringIndex(task, startDate, endDate) ?? buildIndex(task, startDate, endDate);
+  return index.dates.slice(lowerBound(index.dates, startDate), lowerBound(index.dates, addDays(endDate, 1)));
+}
+
+/**
+ * Expands every task over [startDate, endDate] once and groups the occurrences
+ * by date. Dates with nothing scheduled are absent from the map.
+ */
+export function getOccurrencesByDate(tasks: Task[], startDate: string, endDate: string): Map<string, Task[]> {
+  const byDate = new Map<string, Task[]>();
+  for (const task of tasks) {
+    for (const date of getTaskOccurrences(task, startDate, endDate)) {
+      const dayTasks = byDate.get(date);
+      if (dayTasks) dayTasks.push(task);
+      else byDate.set(date, [task]);
+    }
+  }
+  return byDate;
+}
+
 /**
  * Returns true if this task is scheduled to occur on `date`.
  */
 export function isTaskDueOnDate(task: Task, date: string): boolean {
-  return getTaskOccurrences(task, date, date).length > 0;
+  const index = coveringIndex(task, date, date);
+  if (index) return index.dateSet.has(date);
+  return occurrencesInRange(task, date, date, 1).length > 0;
 }
 
 /**
  * Returns the next occurrence date string on or after `onOrAfterDate`.
- * Searches up to 1 year ahead.
+ * Searches year by year up to 5 years ahead; falls back to `onOrAfterDate`
+ * when the rule has ended.
  */
 export function getNextOccurrence(task: Task, onOrAfterDate: string): string {
-  // For daily, it's always the given date
-  if (task.frequency === Frequency.Daily) return onOrAfterDate;
+  const index = coveringIndex(task, onOrAfterDate, onOrAfterDate);
+  if (index) {
+    const next = index.dates[lowerBound(index.dates, onOrAfterDate)];
+    if (next) return next;
+  }
+
+  let windowStart = index ? addDays(index.end, 1) : onOrAfterDate;
+  for (let year = 0; year < 5; year++) {
+    const windowEnd = addDays(windowStart, 365);
+    const occurrences = occurrencesInRange(task, windowStart, windowEnd, 1);
+    if (occurrences.length > 0) return occurrences[0];
+    windowStart = addDays(windowEnd, 1);
+  }
+  return onOrAfterDate;
+}
+
+// --- Active windows ---
+
+/**
+ * Returns true if `date` falls outside the task's active window: before activeFrom,
+ * after activeUntil, or in a month it's out of season.
+ */
+export function isDormant(task: Task, date: string): boolean {
+  if (task.activeFrom && date < task.activeFrom) return true;
+  if (task.activeUntil && date > task.activeUntil) return true;
+  const months = task.activeMonths;
+  return !!months && months.length > 0 && !months.includes(parseInt(date.substring(5, 7)));
+}
+
+/**
+ * Returns the first date on or after `date` inside the task's active window,
+ * or undefined if the window has ended.
+ */
+export function getNextActiveDate(task: Task, date: string): string | undefined {
+  let candidate = task.activeFrom && task.activeFrom > date ? task.activeFrom : date;
+  // At most a year of months to look through before the season comes round again
+  for (let i = 0; i <= 12; i++) {
+    if (task.activeUntil && candidate > task.activeUntil) return undefined;
+    if (!isDormant(task, candidate)) return candidate;
+    const [y, m] = candidate.split('-').map(Number);
+    candidate = m === 12 ? `${y + 1}-01-01` : `${y}-${String(m + 1).padStart(2, '0')}-01`;
+  }
+  return undefined;
+}
+
+/**
+ * Describes a set of active months compactly, e.g. "Apr, Oct" or "Nov–Feb".
+ */
+export function describeActiveMonths(months: number[]): string {
+  const sorted = Array.from(new Set(months)).sort((a, b) => a - b);
+  if (sorted.length === 0 || sorted.length === 12) return 'All year';
+
+  const runs: [number, number][] = [];
+  for (const m of sorted) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === m - 1) last[1] = m;
+    else runs.push([m, m]);
+  }
+  // A season that spans the new year (e.g. Nov-Feb) is one run
+  if (runs.length > 1 && runs[0][0] === 1 && runs[runs.length - 1][1] === 12) {
+    runs[0][0] = runs.pop()![0];
+  }
+  return runs
+    .map(([from, to]) => from === to ? MONTH_SHORT[from - 1] : `${MONTH_SHORT[from - 1]}–${MONTH_SHORT[to - 1]}`)
+    .join(', ');
+}
+
+// --- Household calendar ---
+
+// Pauses, away periods and the household clock apply to every task.
+// HouseholdContext keeps this in sync with households/{id}/settings/schedule.
+let householdSchedule: ScheduleSettings = { pauses: [], awayPeriods: [] };
+let dateFormatter: Intl.DateTimeFormat | undefined;
+
+export function setHouseholdSchedule(settings: ScheduleSettings): void {
+  householdSchedule = settings;
+  scheduleVersion++;
+  dateFormatter = undefined;
+  if (settings.timezone) {
+    try {
+      dateFormatter = new Intl.DateTimeFormat('en-US', { timeZone: settings.timezone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    } catch {
+      console.warn(`Unknown household timezone "${settings.timezone}", using the device's clock`);
+    }
+  }
+}
+
+/**
+ * Returns the household date (YYYY-MM-DD) of an instant: its calendar date in the
+ * household timezone, where the day doesn't end until `dayEndsAt` o'clock. A task
+ * checked off at 1am with dayEndsAt 3 counts for the day before.
+ */
+export function getHouseholdDate(instant: Date): string {
+  const shifted = new Date(instant.getTime() - (householdSchedule.dayEndsAt ?? 0) * 60 * 60 * 1000);
+  if (!dateFormatter) return toDateStr(shifted);
+  const parts = Object.fromEntries(dateFormatter.formatToParts(shifted).map(p => [p.type, p.value]));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Returns today's household date as YYYY-MM-DD. Every member derives "today"
+ * from the same timezone and rollover hour.
+ */
+export function getToday(): string {
+  return getHouseholdDate(new Date());
+}
 
-  // Search forward up to 366 days
-  const endDate = addDays(onOrAfterDate, 366);
-  const occurrences = getTaskOccurrences(task, onOrAfterDate, endDate);
-  return occurrences.length > 0 ? occurrences[0] : onOrAfterDate;
+/**
+ * Returns the household pause covering `date`, if any.
+ */
+export function getPauseOn(date: string): PausePeriod | undefined {
+  return householdSchedule.pauses.find(p => date >= p.start && date <= p.end);
+}
+
+/**
+ * Returns the away period covering `date` for a member, if any.
+ */
+export function getAwayPeriodOn(memberUid: string, date: string): AwayPeriod | undefined {
+  return householdSchedule.awayPeriods.find(a => a.memberUid === memberUid && date >= a.start && date <= a.end);
+}
+
+// Room rotations by room id. RoomsContext keeps this in sync with the rooms collection.
+let roomRotations = new Map<string, Rotation>();
+
+export function setRoomRotations(rooms: Room[]): void {
+  const next = new Map<string, Rotation>();
+  for (const room of rooms) {
+    if (room.rotation?.memberUids.length) next.set(room.id, room.rotation);
+  }
+  // Rotations change which away periods suppress a task, so a change invalidates the indexes
+  if (JSON.stringify([...next]) === JSON.stringify([...roomRotations])) return;
+  roomRotations = next;
+  scheduleVersion++;
+}
+
+// Tags each member may not be assigned, by uid. HouseholdContext keeps this in sync with the members.
+let memberBlockedTags = new Map<string, TaskTag[]>();
+
+export function setHouseholdMembers(members: HouseholdMember[]): void {
+  memberBlockedTags = new Map(members.map(m => [m.uid, getBlockedTags(m)]));
+}
+
+/**
+ * Returns the rotation that decides who does this task: its own, or its room's
+ * unless the task has been given to one member.
+ */
+export function getRotation(task: Task): Rotation | undefined {
+  if (task.rotation?.memberUids.length) return task.rotation;
+  if (task.assignedTo) return undefined;
+  return roomRotations.get(task.roomId);
+}
+
+/**
+ * Returns whose turn `date` is in the rotation, by position in memberUids.
+ * Turns count the task's occurrences (or weeks) since the rotation started, so
+ * every device works out the same member for the same date.
+ */
+export function getRotationTurn(task: Task, rotation: Rotation, date: string): number {
+  const every = Math.max(1, rotation.every);
+  let elapsed: number;
+  if (rotation.unit === 'weeks') {
+    elapsed = Math.round((weekStartOf(toDayNum(date)) - weekStartOf(toDayNum(rotation.startDate))) / 7);
+  } else if (isWindowed(task)) {
+    // A window is one turn, however many of its days it's due on
+    elapsed = countWindows(task, rotation.startDate, date);
+  } else if (date >= rotation.startDate) {
+    elapsed = getTaskOccurrences(task, rotation.startDate, addDays(date, -1)).length;
+  } else {
+    elapsed = -getTaskOccurrences(task, date, addDays(rotation.startDate, -1)).length;
+  }
+  const n = rotation.memberUids.length;
+  return ((Math.floor(elapsed / every) % n) + n) % n;
+}
+
+// Windows started between `from` and `to`, negative when `to` comes first
+function countWindows(task: Task, from: string, to: string): number {
+  if (to < from) return -countWindows(task, to, from);
+  let count = 0;
+  for (let start = getTaskWindow(task, from).start; getTaskWindow(task, to).start > start; count++) {
+    start = addDays(getTaskWindow(task, start).end, 1);
+  }
+  return count;
+}
+
+/**
+ * Returns who does this task's occurrence on `date`: whoever's turn it is in its
+ * rotation, or else the assignee. An away member's task goes to their cover; in
+ * a rotation without a cover it passes to the next member who's home. Rotations
+ * also pass over members who aren't allowed the task's tags.
+ */
+export function getOccurrenceAssignee(task: Task, date: string): string | undefined {
+  const rotation = getRotation(task);
+  if (rotation) {
+    const turn = getRotationTurn(task, rotation, date);
+    const n = rotation.memberUids.length;
+    const eligible = (uid: string) => getIneligibleTags(task, memberBlockedTags.get(uid) ?? []).length === 0;
+    for (let i = 0; i < n; i++) {
+      const uid = rotation.memberUids[(turn + i) % n];
+      if (!eligible(uid)) continue;
+      const away = getAwayPeriodOn(uid, date);
+      if (!away) return uid;
+      if (away.coverUid && eligible(away.coverUid)) return away.coverUid;
+    }
+    return undefined;
+  }
+  if (!task.assignedTo) return undefined;
+  return getAwayPeriodOn(task.assignedTo, date)?.coverUid ?? task.assignedTo;
+}
+
+// Date ranges overlapping [start, end] in which the task has no occurrences:
+// household pauses, and away periods of its assignee that nobody covers.
+// Rotating tasks pass to someone else instead (see getOccurrenceAssignee).
+function getBlockedRanges(task: Task, start: string, end: string): { start: string; end: string }[] {
+  const away = getRotation(task)
+    ? []
+    : householdSchedule.awayPeriods.filter(a => a.memberUid === task.assignedTo && !a.coverUid);
+  return [...householdSchedule.pauses, ...away].filter(r => r.start <= end && r.end >= start);
+}
+
+function isSuppressed(task: Task, date: string): boolean {
+  return getBlockedRanges(task, date, date).length > 0;
+}
+
+// --- Overdue tracking ---
+
+// How far back missed occurrences are looked for. Matches the 30-day pruning of
+// completedDates in the daily reset: older completions can't be checked.
+export const OVERDUE_LOOKBACK_DAYS = 30;
+
+/**
+ * Returns the first date this task could have been due: its creation date or
+ * rule start, whichever is later. Undefined for legacy tasks with neither.
+ */
+export function getTaskStartDate(task: Task): string | undefined {
+  const created = task.createdAt ? getHouseholdDate(new Date(task.createdAt)) : undefined;
+  const ruleStart = isFloating(task) ? undefined : getRecurrenceRule(task).dtstart;
+  if (created && ruleStart) return created > ruleStart ? created : ruleStart;
+  return created ?? ruleStart;
+}
+
+/**
+ * Returns the occurrences before `today` that were missed and are still owed, oldest first.
+ *
+ * - Floating tasks owe at most their one overdue due date.
+ * - Window tasks owe each window that closed without them, dated its last day.
+ * - 'collapse' (default): only occurrences after the latest completion count, so
+ *   completing the task once clears the backlog.
+ * - 'stack': every uncompleted occurrence in the lookback window is owed separately.
+ */
+export function getMissedOccurrences(task: Task, today: string): string[] {
+  const yesterday = addDays(today, -1);
+
+  if (isFloating(task)) {
+    const due = getFloatingDueDate(task);
+    return due <= yesterday && !isDormant(task, today) && !isSuppressed(task, today) ? [due] : [];
+  }
+
+  let since = addDays(today, -OVERDUE_LOOKBACK_DAYS);
+  const startDate = getTaskStartDate(task);
+  if (startDate && startDate > since) since = startDate;
+
+  if ((task.missedPolicy ?? 'collapse') === 'collapse') {
+    const last = getLastCompletedDate(task);
+    if (last && last >= since) since = addDays(last, 1);
+  }
+  if (since > yesterday) return [];
+
+  const completed = new Set(task.completedDates ?? []);
+  const missed = getTaskOccurrences(task, since, yesterday).filter(d => !completed.has(d));
+  if (!isWindowed(task)) return missed;
+
+  // A window is only missed once it has closed, and then it's owed once, from its last day
+  const byWindow = new Map<string, string>();
+  for (const date of missed) {
+    const { end } = getTaskWindow(task, date);
+    if (end <= yesterday) byWindow.set(end, date);
+  }
+  return Array.from(byWindow.values());
+}
+
+/**
+ * Computes the derived overdue fields for a task as of `today`.
+ */
+export function getOverdueInfo(task: Task, today: string): Pick<Task, 'isOverdue' | 'overdueDays' | 'missedDates'> {
+  const missedDates = getMissedOccurrences(task, today);
+  return {
+    isOverdue: missedDates.length > 0,
+    overdueDays: missedDates.length > 0 ? diffDays(missedDates[0], today) : 0,
+    missedDates,
+  };
+}
+
+/**
+ * Returns the dates to complete when a task is checked off from today's list.
+ * Stacked misses are worked off oldest first; everything else completes today.
+ */
+export function getCarryOverTarget(task: Task, today: string): string {
+  if (task.missedPolicy === 'stack' && !isFloating(task) && task.missedDates?.length) {
+    return task.missedDates[0];
+  }
+  return today;
+}
+
+/**
+ * True if the task belongs on today's list: scheduled today, carried over
+ * from a missed occurrence, or already completed today.
+ */
+export function isOnTodaysList(task: Task): boolean {
+  return task.isDue || !!task.isOverdue || !!task.isCompleted;
+}
+
+// --- Occurrence exceptions ---
+// Floating tasks have a single moving due date, so exceptions only apply to fixed schedules.
+// Window tasks have no day to move; skipping any day of a window skips all of it.
+
+/**
+ * Returns the original date of the occurrence shown on `date`: the date it was
+ * moved from, or `date` itself if nothing was moved there.
+ */
+export function getOriginalDate(task: Task, date: string): string {
+  const entry = Object.entries(task.movedDates ?? {}).find(([, target]) => target === date);
+  return entry ? entry[0] : date;
+}
+
+/**
+ * Returns true if the occurrence originally on `date` has been skipped.
+ */
+export function isOccurrenceSkipped(task: Task, date: string): boolean {
+  return (task.skippedDates ?? []).includes(date);
+}
+
+/**
+ * Returns the exception fields after skipping the occurrences shown on `dates`.
+ * A moved occurrence is skipped by its original date and its move is dropped.
+ */
+export function skipOccurrences(task: Task, dates: string[]): Pick<Task, 'skippedDates' | 'movedDates'> {
+  const skipped = new Set(task.skippedDates ?? []);
+  const movedDates = { ...(task.movedDates ?? {}) };
+  for (const date of dates) {
+    const original = getOriginalDate(task, date);
+    delete movedDates[original];
+    skipped.add(original);
+  }
+  return { skippedDates: Array.from(skipped).sort(), movedDates };
+}
+
+/**
+ * Returns the exception fields after un-skipping the occurrence originally on `date`.
+ */
+export function restoreOccurrence(task: Task, date: string): Pick<Task, 'skippedDates'> {
+  return { skippedDates: (task.skippedDates ?? []).filter(d => d !== date) };
+}
+
+/**
+ * Returns the exception fields after moving the occurrence shown on `date` to `newDate`.
+ * Moving an occurrence back to its original date removes the exception.
+ */
+export function moveOccurrence(task: Task, date: string, newDate: string): Pick<Task, 'skippedDates' | 'movedDates'> {
+  const original = getOriginalDate(task, date);
+  const movedDates = { ...(task.movedDates ?? {}) };
+  if (newDate === original) {
+    delete movedDates[original];
+  } else {
+    movedDates[original] = newDate;
+  }
+  return { ...restoreOccurrence(task, original), movedDates };
+}
+
+/**
+ * Returns the date a snoozed occurrence moves to: one day later, or tomorrow if it's already past.
+ */
+export function getSnoozeDate(date: string, today: string): string {
+  return addDays(date < today ? today : date, 1);
 }
 
 /**
@@ -168,11 +1039,183 @@ export function isOccurrenceCompleted(task: Task, date: string): boolean {
   return (task.completedDates ?? []).includes(date);
 }
 
+// --- RRULE text ---
+
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last', [-2]: 'second-to-last' };
+const DAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const UNIT_NAMES: Record<RecurrenceFreq, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+function ordinalSuffix(n: number): string {
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+function isWeekdaySet(byDay: WeekdayRule[]): boolean {
+  const days = byDay.filter(d => !d.ordinal).map(d => d.day).sort();
+  return byDay.length === 5 && days.join(',') === '1,2,3,4,5';
+}
+
 /**
- * Returns today's date as YYYY-MM-DD (local timezone).
+ * Drops empty and default-valued fields so the rule is minimal and contains
+ * no undefined values (Firestore rejects nested undefined).
  */
-export function getToday(): string {
-  return toDateStr(new Date());
+export function normalizeRule(rule: RecurrenceRule): RecurrenceRule {
+  const result: RecurrenceRule = { freq: rule.freq };
+  if (rule.interval && rule.interval > 1) result.interval = rule.interval;
+  if (rule.byDay?.length) {
+    result.byDay = rule.byDay.map(d => (d.ordinal ? { day: d.day, ordinal: d.ordinal } : { day: d.day }));
+  }
+  if (rule.byMonthDay?.length) result.byMonthDay = [...rule.byMonthDay];
+  if (rule.byMonth?.length) result.byMonth = [...rule.byMonth].sort((a, b) => a - b);
+  if (rule.bySetPos?.length) result.bySetPos = [...rule.bySetPos];
+  if (rule.count && rule.count > 0) result.count = rule.count;
+  if (rule.until) result.until = rule.until;
+  if (rule.dtstart) result.dtstart = rule.dtstart;
+  return result;
+}
+
+/**
+ * Serializes a rule as an RFC 5545 RRULE value, e.g. "FREQ=MONTHLY;BYDAY=1SA".
+ * DTSTART is not part of the RRULE value and is omitted.
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal || ''}${WEEKDAY_CODES[d.day]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+function parseRRuleDate(value: string): string {
+  const digits = value.replace(/[^0-9]/g, '').substring(0, 8);
+  if (digits.length !== 8) throw new Error(`Invalid RRULE date: ${value}`);
+  return `${digits.substring(0, 4)}-${digits.substring(4, 6)}-${digits.substring(6, 8)}`;
+}
+
+function parseIntList(value: string, key: string): number[] {
+  return value.split(',').map(v => {
+    const n = parseInt(v, 10);
+    if (isNaN(n)) throw new Error(`Invalid ${key} value: ${v}`);
+    return n;
+  });
+}
+
+/**
+ * Parses an RRULE value ("FREQ=WEEKLY;BYDAY=MO,WE"), optionally prefixed by
+ * "RRULE:" and preceded by a "DTSTART:" line. Throws on unsupported input.
+ */
+export function parseRRule(text: string): RecurrenceRule {
+  let dtstart: string | undefined;
+  let body = '';
+  for (const line of text.trim().split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (/^DTSTART/i.test(trimmed)) {
+      dtstart = parseRRuleDate(trimmed.substring(trimmed.lastIndexOf(':') + 1));
+    } else if (trimmed) {
+      body = trimmed.replace(/^RRULE:/i, '');
+    }
+  }
+
+  const rule: Partial<RecurrenceRule> = {};
+  for (const part of body.split(';').filter(Boolean)) {
+    const [rawKey, value = ''] = part.split('=');
+    const key = rawKey.toUpperCase();
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(value.toUpperCase())) {
+          throw new Error(`Unsupported FREQ: ${value}`);
+        }
+        rule.freq = value.toUpperCase() as RecurrenceFreq;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntList(value, key)[0];
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(v => {
+          const match = /^([+-]?\d+)?([A-Z]{2})$/i.exec(v.trim());
+          const day = match ? WEEKDAY_CODES.indexOf(match[2].toUpperCase()) : -1;
+          if (!match || day < 0) throw new Error(`Invalid BYDAY value: ${v}`);
+          return match[1] ? { day, ordinal: parseInt(match[1], 10) } : { day };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(value, key);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(value, key);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(value, key);
+        break;
+      case 'COUNT':
+        rule.count = parseIntList(value, key)[0];
+        break;
+      case 'UNTIL':
+        rule.until = parseRRuleDate(value);
+        break;
+      case 'WKST':
+        // Only the default (MO) is supported
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part: ${key}`);
+    }
+  }
+
+  if (!rule.freq) throw new Error('RRULE is missing FREQ');
+  return normalizeRule({ ...rule, freq: rule.freq, dtstart });
+}
+
+/**
+ * Human-readable summary, e.g. "Every 3 days", "Monthly on the first Sat",
+ * "Monthly on the last weekday".
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const interval = rule.interval ?? 1;
+  const unit = UNIT_NAMES[rule.freq];
+  const adverb = { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq];
+  let text = interval === 1 ? adverb : `Every ${interval} ${unit}s`;
+
+  if (rule.byMonth?.length && rule.freq !== 'MONTHLY') {
+    text += ` in ${rule.byMonth.map(m => MONTH_SHORT[m - 1]).join(', ')}`;
+  }
+
+  const setPos = rule.bySetPos?.length === 1 ? rule.bySetPos[0] : undefined;
+  if (rule.byDay?.length) {
+    if (setPos !== undefined && isWeekdaySet(rule.byDay) && !rule.byMonthDay?.length) {
+      text += ` on the ${ORDINAL_NAMES[setPos] ?? ordinalSuffix(setPos)} weekday`;
+    } else if (isWeekdaySet(rule.byDay)) {
+      text += ' on weekdays';
+    } else {
+      const days = rule.byDay.map(d =>
+        d.ordinal ? `${ORDINAL_NAMES[d.ordinal] ?? ordinalSuffix(d.ordinal)} ${DAY_SHORT[d.day]}` : DAY_SHORT[d.day]
+      );
+      text += rule.byDay.some(d => d.ordinal) ? ` on the ${days.join(', ')}` : ` on ${days.join('/')}`;
+    }
+  } else if (rule.byMonthDay?.length) {
+    const days = setPos === 1 && rule.byMonthDay.length === 2 && rule.byMonthDay[1] === -1
+      ? [ordinalSuffix(rule.byMonthDay[0])]
+      : rule.byMonthDay.map(md => (md === -1 ? 'last day' : md < 0 ? `${ordinalSuffix(-md)}-to-last day` : ordinalSuffix(md)));
+    text += ` on the ${days.join(', ')}`;
+  }
+
+  if (rule.byMonth?.length && rule.freq === 'MONTHLY') {
+    text += ` (${rule.byMonth.map(m => MONTH_SHORT[m - 1]).join(', ')})`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until}`;
+  return text;
 }
 
-export { addDays, toDateStr, toDate, dayOfWeek, dayOfMonth };
+export { addDays, toDateStr, toDate, dayOfWeek, dayOfMonth, daysInMonth, diffDays };
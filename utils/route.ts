@@ -0,0 +1,114 @@
+import { Task, TaskPhase, Room } from '../types';
+
+export const TASK_PHASES: { value: TaskPhase; label: string }[] = [
+  { value: 'start', label: 'Start first' },
+  { value: 'high', label: 'High up' },
+  { value: 'surfaces', label: 'Surfaces' },
+  { value: 'floors', label: 'Floors' },
+  { value: 'finish', label: 'Finish with' },
+];
+
+export const FLOORS: { value: number; label: string }[] = [
+  { value: 2, label: 'Second floor' },
+  { value: 1, label: 'Upstairs' },
+  { value: 0, label: 'Ground floor' },
+  { value: -1, label: 'Basement' },
+];
+
+// Phases guessed from what the description says, checked in this order
+const PHASE_PATTERNS: [TaskPhase, RegExp][] = [
+  ['start', /\b(start|run|load)\b.*\b(laundry|washer|dishwasher|wash)\b|\bsoak\b/i],
+  ['finish', /\b(trash|garbage|recycling|compost)\b/i],
+  ['floors', /\b(vacuum|mop|sweep|floors?|rugs?|mats?|carpet)\b/i],
+  ['high', /\b(dust|cobwebs?|ceiling|fans?|light fixtures?|blinds|curtains)\b/i],
+];
+
+/**
+ * Returns where a task falls in a room's clean-through: its own phase, or one
+ * guessed from its description (surfaces when nothing matches).
+ */
+export function getTaskPhase(task: Pick<Task, 'phase' | 'description'>): TaskPhase {
+  if (task.phase) return task.phase;
+  return PHASE_PATTERNS.find(([, pattern]) => pattern.test(task.description))?.[0] ?? 'surfaces';
+}
+
+const phaseRank = (task: Task) => TASK_PHASES.findIndex(p => p.value === getTaskPhase(task));
+
+export interface RouteStop {
+  roomId: string;
+  roomName: string;
+  floor: number;
+  tasks: Task[]; // In the order to do them
+}
+
+/**
+ * Orders one room's tasks: every task comes after the ones it lists in `after`
+ * (matched by description within the room), and otherwise top-down by phase.
+ * Tasks caught in a cycle of `after` relations fall back to phase order.
+ */
+export function sequenceRoomTasks(tasks: Task[]): Task[] {
+  const byDescription = new Map(tasks.map(t => [t.description.trim().toLowerCase(), t]));
+  const pending = new Map(tasks.map(t => [t.id, new Set(
+    (t.after ?? []).map(d => byDescription.get(d.trim().toLowerCase())?.id).filter((id): id is string => !!id && id !== t.id)
+  )]));
+  const compare = (a: Task, b: Task) => phaseRank(a) - phaseRank(b) || a.description.localeCompare(b.description);
+
+  const ordered: Task[] = [];
+  let remaining = [...tasks].sort(compare);
+  while (remaining.length > 0) {
+    const next = remaining.find(t => pending.get(t.id)!.size === 0) ?? remaining[0];
+    ordered.push(next);
+    remaining = remaining.filter(t => t !== next);
+    for (const waiting of pending.values()) waiting.delete(next.id);
+  }
+  return ordered;
+}
+
+/**
+ * Sequences a day's tasks into a walk through the house. Jobs that run in the
+ * background (laundry, soaking) are started first, then rooms are visited top
+ * floor down and in the household's room order, each cleaned top-down; trash
+ * and other finishing jobs are collected on the way out.
+ */
+export function getRoute(tasks: Task[], rooms: Room[]): RouteStop[] {
+  const roomOf = (task: Task) => rooms.find(r => r.id === task.roomId);
+  const floorOf = (task: Task) => roomOf(task)?.floor ?? 0;
+  const byRoute = compareRoomsByRoute(rooms);
+  const compareRooms = (a: Task, b: Task) => byRoute(a.roomId, b.roomId) || (a.room || '').localeCompare(b.room || '');
+
+  const toStops = (part: Task[]): RouteStop[] => {
+    const stops: RouteStop[] = [];
+    for (const task of [...part].sort(compareRooms)) {
+      let stop = stops[stops.length - 1];
+      if (!stop || stop.roomId !== task.roomId) {
+        stop = { roomId: task.roomId, roomName: roomOf(task)?.name || task.room || 'General', floor: floorOf(task), tasks: [] };
+        stops.push(stop);
+      }
+      stop.tasks.push(task);
+    }
+    for (const stop of stops) stop.tasks = sequenceRoomTasks(stop.tasks);
+    return stops;
+  };
+
+  return [
+    ...toStops(tasks.filter(t => getTaskPhase(t) === 'start')),
+    ...toStops(tasks.filter(t => getTaskPhase(t) !== 'start' && getTaskPhase(t) !== 'finish')),
+    ...toStops(tasks.filter(t => getTaskPhase(t) === 'finish')),
+  ];
+}
+
+/**
+ * Returns a comparator that puts rooms in route order (top floor down, then room
+ * order), for lists that group a day's tasks by room.
+ */
+export function compareRoomsByRoute(rooms: Room[]): (a: string, b: string) => number {
+  const rank = (roomId: string) => {
+    const room = rooms.find(r => r.id === roomId);
+    return room ? [-(room.floor ?? 0), room.order] : [0, Infinity];
+  };
+  return (a, b) => {
+    const [floorA, orderA] = rank(a);
+    const [floorB, orderB] = rank(b);
+    return floorA - floorB || (orderA === orderB ? 0 : orderA - orderB);
+  };
+}
@@ -1,8 +1,86 @@
-import { Task, Frequency } from '../types';
+import { Task, Frequency, TimeSlot, HouseholdMember, ScheduleSettings, Room, TaskTag, CompletionEvent } from '../types';
+import { isFloating, isWindowed, getTaskWindow, getPlannedDays, plannedDayFields, scheduledDayFields, getTaskOccurrences, getOccurrencesByDate, getRotation, getOccurrenceAssignee, addDays, toDate, toDateStr, dayOfWeek } from './recurrence';
+import { getBlockedTags, getIneligibleTags, getTagLabel } from './eligibility';
+
+export const TIME_SLOTS: { value: TimeSlot; label: string; start: string }[] = [
+  { value: 'morning', label: 'Morning', start: '05:00' },
+  { value: 'afternoon', label: 'Afternoon', start: '12:00' },
+  { value: 'evening', label: 'Evening', start: '17:00' },
+];
+
+// Minutes of slotted work per slot per day the optimizer aims to stay within
+export const DEFAULT_SLOT_CAPACITY: Record<TimeSlot, number> = {
+  morning: 30,
+  afternoon: 60,
+  evening: 45,
+};
+
+/**
+ * Returns the slot a task belongs in. A specific start time decides the slot;
+ * undefined means the task can be done any time.
+ */
+export function getTaskSlot(task: Pick<Task, 'timeSlot' | 'startTime'>): TimeSlot | undefined {
+  if (task.startTime) {
+    let slot: TimeSlot = 'morning';
+    for (const s of TIME_SLOTS) {
+      if (task.startTime >= s.start) slot = s.value;
+    }
+    return slot;
+  }
+  return task.timeSlot;
+}
+
+/**
+ * Orders tasks through the day: morning, afternoon, evening, then any-time tasks.
+ * Within a slot, tasks with a specific time go in time order.
+ */
+export function compareBySlot(a: Task, b: Task): number {
+  const key = (task: Task) => {
+    const slot = getTaskSlot(task);
+    if (!slot) return '24:00'; // After every real time
+    return task.startTime ?? TIME_SLOTS.find(s => s.value === slot)!.start;
+  };
+  return key(a).localeCompare(key(b));
+}
+
+/**
+ * Formats a task's slot for display: its time if it has one ("7:30 AM"), else the slot name.
+ */
+export function formatTaskSlot(task: Pick<Task, 'timeSlot' | 'startTime'>): string | undefined {
+  if (task.startTime) {
+    const [h, m] = task.startTime.split(':').map(Number);
+    return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`;
+  }
+  return TIME_SLOTS.find(s => s.value === task.timeSlot)?.label;
+}
 
 export interface ScheduleAssignment {
   taskId: string;
-  scheduledDay: number; // 0-6 day of week
+  scheduledDay: number; // 0-6 day of week (Monthly/Quarterly: 1-28 day of month)
+  scheduledDays?: number[]; // Tasks done several days a period: every assigned day, including scheduledDay
+  anchorDate?: string; // Quarterly only: first of the month that starts the task's quarter
+  assignedTo?: string; // Member balancing only: who the task goes to
+  overBudget?: boolean; // Couldn't fit within the minute budget of (one of) its days
+  reason?: AssignmentReason; // Member balancing only: why assignedTo is who it is
+}
+
+// Why member balancing gave a task to its assignee
+export type AssignmentReason =
+  | { kind: 'kept' } // Already assigned to this member
+  | { kind: 'rotation' } // Members take turns, so nobody is assigned
+  | { kind: 'share'; weekMinutes: number; balance: number } // Furthest below their share; their week and ledger balance before the task
+  | { kind: 'eligible'; tags: TaskTag[] } // The room went to someone not allowed these tags
+  | { kind: 'nobody'; tags: TaskTag[] }; // No member is allowed these tags, so nobody is assigned
+
+// 'days' spreads the household's weekly work across days; 'members' also spreads it across people
+export type BalanceMode = 'days' | 'members';
+
+export interface MemberShare {
+  uid: string;
+  share: number; // Relative share of the weekly work (1 = normal, 0 = takes no new tasks)
+  budgets?: number[]; // Minutes this member has per weekday (index 0 = Sun); unlimited when absent
+  balance?: number; // Fairness ledger balance in minutes: negative when they've done less than their share
+  blockedTags?: TaskTag[]; // Task tags they may not be assigned
 }
 
 /**
@@ -12,71 +90,747 @@ export interface ScheduleAssignment {
  * Algorithm (Longest Processing Time First):
  * 1. Group weekly/bi-weekly tasks by room
  * 2. Sort room groups by total estimated minutes (heaviest first)
- * 3. Assign each room's tasks to the day with the least current load
+ * 3. Assign each room's tasks to the day with the least current load, skipping
+ *    days where the room's morning/afternoon/evening tasks would overflow that slot
+ * 4. Tasks done N days a week keep N days: the room's day plus N-1 more,
+ *    spread as far apart as possible (again avoiding full slots)
+ *
+ * With day budgets, days fill in proportion to their budget. A room that fits on
+ * no day is split, its tasks placed one by one (largest first); anything that still
+ * doesn't fit goes where it overflows least and is flagged overBudget.
  *
- * Daily, Monthly, and Quarterly tasks are not affected.
+ * Locked tasks keep their days and count as load that everything else is
+ * scheduled around. Daily, Monthly, and Quarterly tasks are not affected, nor
+ * are floating tasks (their dates follow completions, not a weekday). Window
+ * tasks stay due all week; the day they get is only suggested (suggestedDay).
  *
  * @param tasks All tasks
  * @param availableDays Days of week to schedule on (default Mon-Sat: [1,2,3,4,5,6])
+ * @param slotCapacity Minutes of work each time slot holds per day
+ * @param dayBudgets Minutes available per weekday (index 0 = Sun); unlimited when absent
  * @returns Array of { taskId, scheduledDay } assignments
  */
 export function optimizeWeeklySchedule(
   tasks: Task[],
-  availableDays: number[] = [1, 2, 3, 4, 5, 6]
+  availableDays: number[] = [1, 2, 3, 4, 5, 6],
+  slotCapacity: Record<TimeSlot, number> = DEFAULT_SLOT_CAPACITY,
+  dayBudgets?: number[]
 ): ScheduleAssignment[] {
-  // 1. Filter to weekly/bi-weekly tasks
-  const weeklyTasks = tasks.filter(
-    t => t.frequency === Frequency.Weekly || t.frequency === Frequency.BiWeekly
-  );
+  // 1. Filter to weekly/bi-weekly tasks that may move
+  const weeklyTasks = tasks.filter(t => isWeekdayScheduled(t) && !t.locked);
+
+  // Without a day to use there is nowhere to move anything
+  if (weeklyTasks.length === 0 || availableDays.length === 0) return [];
+
+  // 2-3. Group by room, heaviest first
+  const roomEntries = groupByRoomHeaviestFirst(weeklyTasks);
+
+  // 4. Initialize day loads, overall and per time slot
+  const dayLoads = new Map<number, number>();
+  for (const day of availableDays) {
+    dayLoads.set(day, 0);
+  }
+  const { slotOverflow, addSlotLoad } = createSlotTracker(availableDays, slotCapacity);
+
+  // Locked tasks are already in place
+  for (const task of tasks) {
+    if (!task.locked || !isWeekdayScheduled(task)) continue;
+    const work = getSlotMinutes([task]);
+    for (const day of getPlannedDays(task)) {
+      if (!dayLoads.has(day)) continue;
+      dayLoads.set(day, dayLoads.get(day)! + task.estimatedMinutes);
+      addSlotLoad(day, work);
+    }
+  }
+
+  const dayOverBudget = (day: number, minutes: number) => budgetOverflow(dayLoads.get(day)!, minutes, dayBudgets?.[day]);
+
+  // Best day for a batch of work: within budget, then within its slots, then the lightest
+  const chooseDay = (minutes: number, work: SlotMinutes): number => {
+    let bestDay = availableDays[0];
+    let best = [Infinity, Infinity, Infinity];
+    for (const [day, load] of dayLoads) {
+      const cost = [dayOverBudget(day, minutes), slotOverflow(day, work), relativeLoad(load, dayBudgets?.[day])];
+      if (isLowerCost(cost, best)) {
+        best = cost;
+        bestDay = day;
+      }
+    }
+    return bestDay;
+  };
+
+  // 5. Greedy assignment: put each room on the lightest day with room in its budget and slots
+  const assignments: ScheduleAssignment[] = [];
+
+  for (const { tasks: roomTasks, totalMinutes } of roomEntries) {
+    const roomDay = chooseDay(totalMinutes, getSlotMinutes(roomTasks));
+
+    // A room that doesn't fit in any day's budget is split up, largest tasks first
+    const split = roomTasks.length > 1 && dayOverBudget(roomDay, totalMinutes) > 0;
+    const ordered = split ? [...roomTasks].sort((a, b) => b.estimatedMinutes - a.estimatedMinutes) : roomTasks;
+
+    for (const task of ordered) {
+      const taskSlotWork = getSlotMinutes([task]);
+      const day = split ? chooseDay(task.estimatedMinutes, taskSlotWork) : roomDay;
+      const dayCount = Math.min(getPlannedDays(task).length, availableDays.length);
+      const days = dayCount <= 1
+        ? [day]
+        : pickSpreadDays(availableDays, day, dayCount, dayLoads,
+            d => dayOverBudget(d, task.estimatedMinutes) + slotOverflow(d, taskSlotWork));
+      const overBudget = days.some(d => dayOverBudget(d, task.estimatedMinutes) > 0);
+
+      assignments.push({
+        taskId: task.id,
+        scheduledDay: day,
+        ...(dayCount > 1 ? { scheduledDays: days } : {}),
+        ...(overBudget ? { overBudget } : {}),
+      });
+      for (const d of days) {
+        dayLoads.set(d, dayLoads.get(d)! + task.estimatedMinutes);
+        addSlotLoad(d, taskSlotWork);
+      }
+    }
+  }
+
+  return assignments;
+}
+
+/**
+ * Returns each member's share of the weekly work from household settings (default 1),
+ * with their fairness ledger balance when a ledger is given.
+ */
+export function getMemberShares(members: HouseholdMember[], settings: ScheduleSettings, ledger?: LedgerEntry[]): MemberShare[] {
+  return members.map(m => ({
+    uid: m.uid,
+    share: settings.memberShares?.[m.uid] ?? 1,
+    budgets: settings.memberBudgets?.[m.uid],
+    balance: ledger?.find(e => e.uid === m.uid)?.balance,
+    blockedTags: getBlockedTags(m),
+  }));
+}
+
+// Trailing days of completion history the fairness ledger covers
+export const FAIRNESS_WINDOW_DAYS = 28;
+
+export interface LedgerEntry {
+  uid: string;
+  share: number;
+  assignedMinutes: number; // Minutes of occurrences that fell to them in the window
+  completedMinutes: number; // Minutes of chores they checked off in the window, whoever they fell to
+  fairMinutes: number; // Their share of all the minutes members completed
+  balance: number; // completedMinutes - fairMinutes
+}
 
-  if (weeklyTasks.length === 0) return [];
+// The dates the ledger covers: the `days` before `today`, as a completions filter
+export function getFairnessWindow(today: string, days = FAIRNESS_WINDOW_DAYS): { from: string; to: string } {
+  return { from: addDays(today, -days), to: addDays(today, -1) };
+}
+
+/**
+ * Tallies who was assigned and who got done how many minutes of chores over the
+ * `days` before `today`. An occurrence is assigned to whoever it fell to on its
+ * date (assignee, rotation turn or cover); unassigned occurrences count for nobody.
+ * Completed minutes come from the completion `events` and go to whoever checked
+ * the chore off, so covering for someone credits the one who did it.
+ *
+ * Each member's fair minutes are their share of everything members completed, so
+ * a negative balance means they've done less than their share.
+ */
+export function getFairnessLedger(tasks: Task[], events: CompletionEvent[], members: MemberShare[], today: string, days = FAIRNESS_WINDOW_DAYS): LedgerEntry[] {
+  const { from, to } = getFairnessWindow(today, days);
+  const entries = new Map(members.map(m => [m.uid, {
+    uid: m.uid, share: Math.max(0, m.share), assignedMinutes: 0, completedMinutes: 0, fairMinutes: 0, balance: 0,
+  }]));
+  const windowEvents = events.filter(e => e.date >= from && e.date <= to);
+
+  for (const task of tasks) {
+    // Floating tasks have no fixed occurrences; their completions are what happened
+    const dates = isFloating(task)
+      ? [...new Set(windowEvents.filter(e => e.taskId === task.id).map(e => e.date))]
+      : isWindowed(task) ? lastPerWindow(task, getTaskOccurrences(task, from, to))
+      : getTaskOccurrences(task, from, to);
+    for (const date of dates) {
+      const uid = getOccurrenceAssignee(task, date);
+      const entry = uid ? entries.get(uid) : undefined;
+      if (entry) entry.assignedMinutes += task.estimatedMinutes;
+    }
+  }
+
+  // Events from before completedBy was kept, or for deleted tasks, count for nobody
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  for (const event of windowEvents) {
+    const task = tasksById.get(event.taskId);
+    const entry = event.completedBy ? entries.get(event.completedBy) : undefined;
+    if (task && entry) entry.completedMinutes += task.estimatedMinutes;
+  }
+
+  const all = [...entries.values()];
+  const totalShare = all.reduce((sum, e) => sum + e.share, 0);
+  const totalCompleted = all.reduce((sum, e) => sum + e.completedMinutes, 0);
+  for (const entry of all) {
+    entry.fairMinutes = totalShare > 0 ? Math.round((totalCompleted * entry.share) / totalShare) : 0;
+    entry.balance = entry.completedMinutes - entry.fairMinutes;
+  }
+  return all;
+}
+
+// A window is done once, however many days it was due: keep each window's last
+// occurrence (the day it was done, if it was)
+function lastPerWindow(task: Task, dates: string[]): string[] {
+  const byWindow = new Map<string, string>();
+  for (const date of dates) byWindow.set(getTaskWindow(task, date).start, date);
+  return Array.from(byWindow.values());
+}
+
+/**
+ * Explains an assignment reason in a sentence, e.g. for the schedule preview.
+ */
+export function describeAssignmentReason(reason: AssignmentReason, name: string): string {
+  switch (reason.kind) {
+    case 'kept':
+      return `Already ${name}'s task`;
+    case 'rotation':
+      return 'Members take turns';
+    case 'eligible':
+      return `${name} is allowed to handle ${reason.tags.map(tag => getTagLabel(tag).toLowerCase()).join(', ')}`;
+    case 'nobody':
+      return `Nobody is allowed to handle ${reason.tags.map(tag => getTagLabel(tag).toLowerCase()).join(', ')}`;
+    case 'share': {
+      const ledger = reason.balance < 0
+        ? `, ${-reason.balance}min behind their share over the last ${FAIRNESS_WINDOW_DAYS / 7} weeks`
+        : reason.balance > 0 ? `, even though ${reason.balance}min ahead over the last ${FAIRNESS_WINDOW_DAYS / 7} weeks` : '';
+      return `${name} had the lightest week for their share (${reason.weekMinutes}min${ledger})`;
+    }
+  }
+}
+
+/**
+ * Returns the household's day budgets, or undefined when there are none. Budgets
+ * with no time on any day count as none, as they'd leave nowhere to schedule.
+ */
+export function getDayBudgets(settings: ScheduleSettings): number[] | undefined {
+  return settings.dayBudgets?.some(minutes => minutes > 0) ? settings.dayBudgets : undefined;
+}
+
+/**
+ * Returns the weekdays the optimizers may use: those with time in the household's
+ * day budgets, or Mon-Sat when there are no budgets.
+ */
+export function getBudgetedDays(settings: ScheduleSettings): number[] {
+  const budgets = getDayBudgets(settings);
+  if (!budgets) return [1, 2, 3, 4, 5, 6];
+  return [0, 1, 2, 3, 4, 5, 6].filter(day => (budgets[day] ?? 0) > 0);
+}
+
+/**
+ * Assigns weekly and bi-weekly tasks to members and days, balancing the
+ * (member × day) workload matrix.
+ *
+ * Rooms are still placed heaviest first and batched: a room's unassigned tasks all
+ * go to one member on one day. That member is whoever ends up furthest below their
+ * share of the week, counting what the fairness ledger says they're ahead or behind
+ * (spread over a week); the day is the one where the members involved have the lightest
+ * load (avoiding full time slots). Tasks already assigned to a member keep them.
+ * Daily tasks assigned to a member count toward that member's load on every day.
+ * Locked tasks keep their days and member, and count toward that member's load.
+ *
+ * Member budgets work like day budgets in optimizeWeeklySchedule: a room that would
+ * push a member past a day's budget is split across days, and tasks that still don't
+ * fit are flagged overBudget.
+ *
+ * @param tasks All tasks
+ * @param members Members to balance across, with their relative shares and ledger balances
+ * @param availableDays Days of week to schedule on (default Mon-Sat: [1,2,3,4,5,6])
+ * @param slotCapacity Minutes of work each time slot holds per member per day
+ * @returns Assignments with the day(s) and member for every weekly task
+ */
+export function optimizeMemberSchedule(
+  tasks: Task[],
+  members: MemberShare[],
+  availableDays: number[] = [1, 2, 3, 4, 5, 6],
+  slotCapacity: Record<TimeSlot, number> = DEFAULT_SLOT_CAPACITY
+): ScheduleAssignment[] {
+  const weeklyTasks = tasks.filter(t => isWeekdayScheduled(t) && !t.locked);
+  if (weeklyTasks.length === 0 || availableDays.length === 0) return [];
+
+  // The member who does this task every time; rotating tasks change hands, so have none
+  const ownerOf = (task: Task) => (getRotation(task) ? undefined : task.assignedTo);
+
+  // Per-member day loads and time slots
+  const loads = new Map(members.map(m => [m.uid, {
+    share: Math.max(0, m.share),
+    budgets: m.budgets,
+    blockedTags: m.blockedTags ?? [],
+    // Minutes per week they're ahead of (or behind) their share, from the fairness ledger
+    carry: ((m.balance ?? 0) * 7) / FAIRNESS_WINDOW_DAYS,
+    dayLoads: new Map(availableDays.map(day => [day, 0])),
+    slots: createSlotTracker(availableDays, slotCapacity),
+  }]));
+
+  // Daily chores take the same time out of every day
+  for (const task of tasks) {
+    const owner = ownerOf(task);
+    const member = owner ? loads.get(owner) : undefined;
+    if (!member || task.frequency !== Frequency.Daily || isFloating(task)) continue;
+    for (const day of availableDays) member.dayLoads.set(day, member.dayLoads.get(day)! + task.estimatedMinutes);
+  }
+
+  // So do locked tasks, on their own days
+  for (const task of tasks) {
+    const owner = ownerOf(task);
+    const member = owner ? loads.get(owner) : undefined;
+    if (!member || !task.locked || !isWeekdayScheduled(task)) continue;
+    const work = getSlotMinutes([task]);
+    for (const day of getPlannedDays(task)) {
+      if (!member.dayLoads.has(day)) continue;
+      member.dayLoads.set(day, member.dayLoads.get(day)! + task.estimatedMinutes);
+      member.slots.addSlotLoad(day, work);
+    }
+  }
+
+  const weekMinutes = (uid: string) => {
+    let total = 0;
+    for (const minutes of loads.get(uid)!.dayLoads.values()) total += minutes;
+    return total;
+  };
+
+  const assignments: ScheduleAssignment[] = [];
+
+  for (const { tasks: roomTasks } of groupByRoomHeaviestFirst(weeklyTasks)) {
+    const blockedFor = (uid: string, task: Task) => getIneligibleTags(task, loads.get(uid)!.blockedTags);
+    const canDo = (uid: string, task: Task) => blockedFor(uid, task).length === 0;
+
+    // Member (allowed by `allowed`) who'd be furthest below their share after taking `minutes`
+    const lightestMember = (minutes: number, allowed: (uid: string) => boolean) => {
+      let lightest: string | undefined;
+      let bestRatio = Infinity;
+      for (const [uid, { share, carry }] of loads) {
+        if (share <= 0 || !allowed(uid)) continue;
+        const ratio = (weekMinutes(uid) + carry + minutes) / share;
+        if (ratio < bestRatio) {
+          bestRatio = ratio;
+          lightest = uid;
+        }
+      }
+      return lightest;
+    };
+
+    // Unassigned tasks (or ones assigned to someone no longer here, or not allowed them)
+    // go to the member who'd be furthest below their share after taking them. Tasks that
+    // member isn't allowed go one by one to whoever is.
+    const unassigned = roomTasks.filter(t => !getRotation(t) && (!t.assignedTo || !loads.has(t.assignedTo) || !canDo(t.assignedTo, t)));
+    const unassignedMinutes = unassigned.reduce((sum, t) => sum + t.estimatedMinutes, 0);
+    const roomMember = lightestMember(unassignedMinutes, () => true);
+    const assignees = new Map(unassigned.map(task => [task.id,
+      roomMember && canDo(roomMember, task) ? roomMember : lightestMember(task.estimatedMinutes, uid => canDo(uid, task)),
+    ]));
+
+    const memberOf = (task: Task) => {
+      if (getRotation(task)) return undefined;
+      return assignees.has(task.id) ? assignees.get(task.id) : task.assignedTo;
+    };
+
+    // Minutes past a member's budget that this work would cause on `day`
+    const memberOverBudget = (uid: string, day: number, minutes: number) => {
+      const member = loads.get(uid)!;
+      return budgetOverflow(member.dayLoads.get(day)!, minutes, member.budgets?.[day]);
+    };
+
+    // Best day for these tasks: within the members' budgets, then their slots, then the
+    // lightest heaviest-member load, then the lightest household day
+    const chooseDay = (batch: Task[]): number => {
+      const byMember = new Map<string, Task[]>();
+      for (const task of batch) {
+        const uid = memberOf(task);
+        if (!uid) continue;
+        if (!byMember.has(uid)) byMember.set(uid, []);
+        byMember.get(uid)!.push(task);
+      }
 
-  // 2. Group by room
+      let bestDay = availableDays[0];
+      let best = [Infinity, Infinity, Infinity, Infinity];
+      for (const day of availableDays) {
+        let budget = 0;
+        let overflow = 0;
+        let heaviest = 0;
+        for (const [uid, memberTasks] of byMember) {
+          const member = loads.get(uid)!;
+          const minutes = memberTasks.reduce((sum, t) => sum + t.estimatedMinutes, 0);
+          budget += memberOverBudget(uid, day, minutes);
+          overflow += member.slots.slotOverflow(day, getSlotMinutes(memberTasks));
+          heaviest = Math.max(heaviest, relativeLoad(member.dayLoads.get(day)! + minutes, member.budgets?.[day]));
+        }
+        let household = 0;
+        for (const member of loads.values()) household += member.dayLoads.get(day)!;
+        const cost = [budget, overflow, heaviest, household];
+        if (isLowerCost(cost, best)) {
+          best = cost;
+          bestDay = day;
+        }
+      }
+      return bestDay;
+    };
+
+    const roomDay = chooseDay(roomTasks);
+    const roomOverBudget = roomTasks.some(t => {
+      const uid = memberOf(t);
+      return !!uid && memberOverBudget(uid, roomDay, roomTasks.filter(o => memberOf(o) === uid).reduce((sum, o) => sum + o.estimatedMinutes, 0)) > 0;
+    });
+    // A room that doesn't fit its members' budgets on any day is split up, largest tasks first
+    const split = roomTasks.length > 1 && roomOverBudget;
+    const ordered = split ? [...roomTasks].sort((a, b) => b.estimatedMinutes - a.estimatedMinutes) : roomTasks;
+
+    const roomMemberWeek = roomMember ? weekMinutes(roomMember) : 0;
+    const reasonFor = (task: Task): AssignmentReason | undefined => {
+      if (getRotation(task)) return { kind: 'rotation' };
+      if (!assignees.has(task.id)) return { kind: 'kept' };
+      const uid = assignees.get(task.id);
+      if (!uid) return task.tags?.length ? { kind: 'nobody', tags: task.tags } : undefined;
+      if (uid !== roomMember) return { kind: 'eligible', tags: blockedFor(roomMember!, task) };
+      return { kind: 'share', weekMinutes: roomMemberWeek, balance: members.find(m => m.uid === roomMember)?.balance ?? 0 };
+    };
+
+    for (const task of ordered) {
+      const uid = memberOf(task);
+      const member = uid ? loads.get(uid) : undefined;
+      const reason = reasonFor(task);
+      const day = split ? chooseDay([task]) : roomDay;
+      const dayCount = Math.min(getPlannedDays(task).length, availableDays.length);
+      const taskSlotWork = getSlotMinutes([task]);
+      const days = dayCount <= 1
+        ? [day]
+        : pickSpreadDays(availableDays, day, dayCount, member?.dayLoads ?? new Map(),
+            d => (uid ? memberOverBudget(uid, d, task.estimatedMinutes) : 0) + (member?.slots.slotOverflow(d, taskSlotWork) ?? 0));
+      const overBudget = !!uid && days.some(d => memberOverBudget(uid, d, task.estimatedMinutes) > 0);
+
+      assignments.push({
+        taskId: task.id,
+        scheduledDay: day,
+        scheduledDays: days.length > 1 ? days : undefined,
+        // Rotating tasks keep whatever assignee they had; the rotation decides who does them
+        assignedTo: getRotation(task) ? task.assignedTo : uid,
+        ...(overBudget ? { overBudget } : {}),
+        ...(reason ? { reason } : {}),
+      });
+      if (!member) continue;
+      for (const d of days) {
+        member.dayLoads.set(d, member.dayLoads.get(d)! + task.estimatedMinutes);
+        member.slots.addSlotLoad(d, taskSlotWork);
+      }
+    }
+  }
+
+  return assignments;
+}
+
+// Months of calendar load the monthly optimizer looks at; a multiple of 3 so every quarter phase is seen twice
+export const MONTHLY_HORIZON = 6;
+
+/**
+ * Returns the scheduled minutes on each date of [startDate, endDate] (dates
+ * with no work are absent). Window tasks count on their suggested day.
+ */
+export function getDailyLoad(tasks: Task[], startDate: string, endDate: string): Map<string, number> {
+  const load = new Map<string, number>();
+  for (const [date, dayTasks] of getOccurrencesByDate(tasks.map(asPlanned), startDate, endDate)) {
+    load.set(date, dayTasks.reduce((sum, t) => sum + t.estimatedMinutes, 0));
+  }
+  return load;
+}
+
+/**
+ * Returns the first and last date of the monthly optimizer's horizon:
+ * `months` whole months starting with the month of `startDate`.
+ */
+export function getMonthlyHorizon(startDate: string, months = MONTHLY_HORIZON): { start: string; end: string } {
+  const first = toDate(startDate);
+  return {
+    start: toDateStr(new Date(first.getFullYear(), first.getMonth(), 1)),
+    end: toDateStr(new Date(first.getFullYear(), first.getMonth() + months, 0)),
+  };
+}
+
+/**
+ * Assigns month days (and, for Quarterly tasks, the quarter phase) to Monthly and
+ * Quarterly tasks so they land on the calendar's quiet dates.
+ *
+ * Everything else (weekly, daily, custom rules) is expanded into a per-date load
+ * over the horizon first. Then, heaviest task first, each task tries every day
+ * 1-28 (29-31 would fold onto month ends) and, for Quarterly tasks, each of the
+ * three starting months, and takes the placement with the lowest cost:
+ * 1. Minutes past the day budgets of the dates it lands on
+ * 2. For tasks done several days a month, distance from the days already picked,
+ *    up to half the even spacing (beyond that, quieter dates win)
+ * 3. The busiest date it lands on (the peak is what's minimised)
+ * 4. The total load on those dates
+ * 5. Its current placement, so re-running the optimizer doesn't shuffle ties
+ *
+ * Locked tasks keep their days and count as part of the calendar's load. Floating
+ * tasks and tasks with a custom recurrence rule are not affected. Window tasks are
+ * placed as if fixed, but the day they get is only suggested.
+ *
+ * @param tasks All tasks, with any weekly assignments already applied
+ * @param startDate Date whose month starts the horizon (usually today)
+ * @param dayBudgets Minutes available per weekday (index 0 = Sun); unlimited when absent
+ * @param months Months of calendar load to balance over
+ * @returns Assignments with the month day(s), plus anchorDate for Quarterly tasks
+ */
+export function optimizeMonthlySchedule(
+  tasks: Task[],
+  startDate: string,
+  dayBudgets?: number[],
+  months = MONTHLY_HORIZON
+): ScheduleAssignment[] {
+  const monthlyTasks = tasks
+    .filter(isMonthDayScheduled)
+    .sort((a, b) => b.estimatedMinutes - a.estimatedMinutes);
+
+  if (monthlyTasks.length === 0) return [];
+
+  const { start, end } = getMonthlyHorizon(startDate, months);
+  const load = getDailyLoad(tasks.filter(t => !isMonthDayScheduled(t)), start, end);
+  const overBudgetOn = (date: string, minutes: number) =>
+    budgetOverflow(load.get(date) ?? 0, minutes, dayBudgets?.[dayOfWeek(date)]);
+
+  // Quarterly tasks can start their quarter in any of the horizon's first three months
+  const first = toDate(start);
+  const phases = [0, 1, 2].map(p => toDateStr(new Date(first.getFullYear(), first.getMonth() + p, 1)));
+
+  const assignments: ScheduleAssignment[] = [];
+
+  for (const task of monthlyTasks) {
+    const planned = asPlanned(task);
+    const minutes = task.estimatedMinutes;
+    const isQuarterly = task.frequency === Frequency.Quarterly;
+    const dayCount = Math.min(getPlannedDays(task).length || 1, 28);
+    const minSpacing = Math.floor(28 / dayCount / 2);
+    const current = getTaskOccurrences(planned, start, end).join();
+
+    // The quarter phase is shared by all of a task's days, so it's chosen with the first
+    let anchorDate = isQuarterly ? task.anchorDate : undefined;
+    const picked: number[] = [];
+    while (picked.length < dayCount) {
+      let bestDay = 1;
+      let bestAnchor = anchorDate;
+      let best = [Infinity, Infinity, Infinity, Infinity, Infinity];
+      // A window task's quarter is its window, so only its day is up for suggestion
+      for (const anchor of isQuarterly && picked.length === 0 && !isWindowed(task) ? phases : [anchorDate]) {
+        for (let day = 1; day <= 28; day++) {
+          if (picked.includes(day)) continue;
+          const candidate: Task = { ...planned, ...scheduledDayFields([...picked, day]), anchorDate: anchor };
+          const dates = getTaskOccurrences({ ...planned, ...scheduledDayFields([day]), anchorDate: anchor }, start, end);
+          const distance = picked.length > 0 ? Math.min(minSpacing, ...picked.map(p => monthDistance(day, p))) : 0;
+          const cost = [
+            dates.reduce((sum, date) => sum + overBudgetOn(date, minutes), 0),
+            -distance,
+            Math.max(0, ...dates.map(date => (load.get(date) ?? 0) + minutes)),
+            dates.reduce((sum, date) => sum + (load.get(date) ?? 0), 0),
+            picked.length === dayCount - 1 && getTaskOccurrences(candidate, start, end).join() === current ? 0 : 1,
+          ];
+          if (isLowerCost(cost, best)) {
+            best = cost;
+            bestDay = day;
+            bestAnchor = anchor;
+          }
+        }
+      }
+      picked.push(bestDay);
+      anchorDate = bestAnchor;
+    }
+
+    const placed: Task = { ...planned, ...scheduledDayFields(picked), anchorDate };
+    const dates = getTaskOccurrences(placed, start, end);
+    const overBudget = dates.some(date => overBudgetOn(date, minutes) > 0);
+    for (const date of dates) load.set(date, (load.get(date) ?? 0) + minutes);
+
+    const days = [...picked].sort((a, b) => a - b);
+    assignments.push({
+      taskId: task.id,
+      scheduledDay: days[0],
+      ...(days.length > 1 ? { scheduledDays: days } : {}),
+      ...(isQuarterly && anchorDate ? { anchorDate } : {}),
+      ...(overBudget ? { overBudget } : {}),
+    });
+  }
+
+  return assignments;
+}
+
+/**
+ * Returns the tasks with `locked` set on every task in a locked room, which is
+ * how the optimizers see room locks.
+ */
+export function applyRoomLocks(tasks: Task[], rooms: Room[]): Task[] {
+  const lockedRooms = new Set(rooms.filter(r => r.locked).map(r => r.id));
+  if (lockedRooms.size === 0) return tasks;
+  return tasks.map(task => (lockedRooms.has(task.roomId) && !task.locked ? { ...task, locked: true } : task));
+}
+
+/**
+ * Returns the tasks with the given assignments applied, as they'll be saved.
+ */
+export function applyAssignments(tasks: Task[], assignments: ScheduleAssignment[]): Task[] {
+  const byTask = new Map(assignments.map(a => [a.taskId, a]));
+  return tasks.map(task => {
+    const assignment = byTask.get(task.id);
+    if (!assignment) return task;
+    const { scheduledDay, scheduledDays, anchorDate, assignedTo } = assignment;
+    return {
+      ...task,
+      ...plannedDayFields(task, scheduledDays ?? [scheduledDay]),
+      ...(anchorDate ? { anchorDate } : {}),
+      ...(assignedTo ? { assignedTo } : {}),
+    };
+  });
+}
+
+/**
+ * Places newly created tasks around the household's existing ones, which stay
+ * where they are: weekdays with optimizeWeeklySchedule, then month days and
+ * quarter phases with optimizeMonthlySchedule within the day budgets.
+ */
+export function scheduleNewTasks(newTasks: Task[], existing: Task[], startDate: string, dayBudgets?: number[]): Task[] {
+  const placed = applyAssignments(newTasks, optimizeWeeklySchedule(newTasks));
+  const newIds = new Set(newTasks.map(t => t.id));
+  const fixed = existing.filter(t => !newIds.has(t.id)).map(t => ({ ...t, locked: true }));
+  const monthly = optimizeMonthlySchedule([...fixed, ...placed], startDate, dayBudgets)
+    .filter(a => newIds.has(a.taskId));
+  return applyAssignments(placed, monthly);
+}
+
+// Weekly and bi-weekly tasks on fixed weekdays: what the optimizers place
+function isWeekdayScheduled(task: Task): boolean {
+  return (task.frequency === Frequency.Weekly || task.frequency === Frequency.BiWeekly) && !isFloating(task);
+}
+
+// A window task as the optimizers plan around it: fixed on its suggested day
+function asPlanned(task: Task): Task {
+  return isWindowed(task) ? { ...task, recurrenceMode: 'fixed', ...scheduledDayFields(getPlannedDays(task)) } : task;
+}
+
+// Monthly and quarterly tasks on fixed month days: what optimizeMonthlySchedule places.
+// Custom rules pick their own dates, so changing scheduledDay wouldn't move them.
+function isMonthDayScheduled(task: Task): boolean {
+  return (task.frequency === Frequency.Monthly || task.frequency === Frequency.Quarterly)
+    && !isFloating(task) && !task.recurrence && !task.locked;
+}
+
+// Days between two month days, going either way round a 28-day month
+function monthDistance(a: number, b: number): number {
+  const d = Math.abs(a - b);
+  return Math.min(d, 28 - d);
+}
+
+function groupByRoomHeaviestFirst(tasks: Task[]): { room: string; tasks: Task[]; totalMinutes: number }[] {
   const roomGroups = new Map<string, Task[]>();
-  for (const task of weeklyTasks) {
+  for (const task of tasks) {
     const room = task.room;
     if (!roomGroups.has(room)) roomGroups.set(room, []);
     roomGroups.get(room)!.push(task);
   }
 
-  // 3. Compute total minutes per room and sort descending (heaviest first)
   const roomEntries = Array.from(roomGroups.entries()).map(([room, tasks]) => ({
     room,
     tasks,
     totalMinutes: tasks.reduce((sum, t) => sum + t.estimatedMinutes, 0),
   }));
   roomEntries.sort((a, b) => b.totalMinutes - a.totalMinutes);
+  return roomEntries;
+}
 
-  // 4. Initialize day loads
-  const dayLoads = new Map<number, number>();
-  for (const day of availableDays) {
-    dayLoads.set(day, 0);
+// Minutes by which adding `minutes` to a day's `load` pushes it further past its budget
+function budgetOverflow(load: number, minutes: number, budget?: number): number {
+  if (budget === undefined) return 0;
+  return Math.max(0, load + minutes - budget) - Math.max(0, load - budget);
+}
+
+// Load as a fraction of the day's budget, so days fill in proportion to the time they have
+function relativeLoad(load: number, budget?: number): number {
+  if (budget === undefined) return load;
+  return budget > 0 ? load / budget : Infinity;
+}
+
+// Lexicographic comparison of cost tuples: is `a` cheaper than `b`?
+function isLowerCost(a: number[], b: number[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i];
   }
+  return false;
+}
 
-  // 5. Greedy assignment: put each room on the lightest day
-  const assignments: ScheduleAssignment[] = [];
+type SlotMinutes = Partial<Record<TimeSlot, number>>;
 
-  for (const { tasks: roomTasks, totalMinutes } of roomEntries) {
-    // Find day with minimum load
-    let minDay = availableDays[0];
-    let minLoad = Infinity;
-    for (const [day, load] of dayLoads) {
-      if (load < minLoad) {
-        minLoad = load;
-        minDay = day;
-      }
-    }
+// Tracks slotted minutes per day against each slot's capacity
+function createSlotTracker(days: number[], slotCapacity: Record<TimeSlot, number>) {
+  const slotLoads = new Map<number, Record<TimeSlot, number>>();
+  for (const day of days) {
+    slotLoads.set(day, { morning: 0, afternoon: 0, evening: 0 });
+  }
 
-    // Assign all tasks in this room to that day
-    for (const task of roomTasks) {
-      assignments.push({ taskId: task.id, scheduledDay: minDay });
-    }
+  return {
+    // Minutes by which adding this slotted work would push the day further past slot capacity
+    slotOverflow(day: number, work: SlotMinutes): number {
+      const loads = slotLoads.get(day)!;
+      let overflow = 0;
+      for (const [slot, minutes] of Object.entries(work) as [TimeSlot, number][]) {
+        const before = Math.max(0, loads[slot] - slotCapacity[slot]);
+        overflow += Math.max(0, loads[slot] + minutes - slotCapacity[slot]) - before;
+      }
+      return overflow;
+    },
+    addSlotLoad(day: number, work: SlotMinutes): void {
+      const loads = slotLoads.get(day)!;
+      for (const [slot, minutes] of Object.entries(work) as [TimeSlot, number][]) loads[slot] += minutes;
+    },
+  };
+}
 
-    // Update day load
-    dayLoads.set(minDay, (dayLoads.get(minDay) ?? 0) + totalMinutes);
+// Total estimated minutes per time slot; any-time tasks don't use slot capacity
+function getSlotMinutes(tasks: Task[]): SlotMinutes {
+  const work: SlotMinutes = {};
+  for (const task of tasks) {
+    const slot = getTaskSlot(task);
+    if (slot) work[slot] = (work[slot] ?? 0) + task.estimatedMinutes;
   }
+  return work;
+}
 
-  return assignments;
+/**
+ * Picks `count` of the available days including `anchorDay`, spread around the week:
+ * each extra day is the one farthest from the days already picked, lightest load first on ties.
+ * Days where the task would overflow its time slot are only used when nothing else fits.
+ */
+function pickSpreadDays(
+  availableDays: number[],
+  anchorDay: number,
+  count: number,
+  dayLoads: Map<number, number>,
+  slotOverflow: (day: number) => number
+): number[] {
+  const weekDistance = (a: number, b: number) => Math.min((a - b + 7) % 7, (b - a + 7) % 7);
+  const picked = [anchorDay];
+
+  while (picked.length < count) {
+    let bestDay = -1;
+    let bestOverflow = Infinity;
+    let bestDistance = -1;
+    let bestLoad = Infinity;
+    for (const day of availableDays) {
+      if (picked.includes(day)) continue;
+      const overflow = slotOverflow(day);
+      const distance = Math.min(...picked.map(p => weekDistance(day, p)));
+      const load = dayLoads.get(day) ?? 0;
+      if (overflow < bestOverflow
+          || (overflow === bestOverflow && (distance > bestDistance || (distance === bestDistance && load < bestLoad)))) {
+        bestDay = day;
+        bestOverflow = overflow;
+        bestDistance = distance;
+        bestLoad = load;
+      }
+    }
+    picked.push(bestDay);
+  }
+  return picked.sort((a, b) => a - b);
 }
 
 /**
@@ -92,16 +846,18 @@ export function getScheduleSummary(
 
   const taskMap = new Map(tasks.map(t => [t.id, t]));
 
-  for (const { taskId, scheduledDay } of assignments) {
+  for (const { taskId, scheduledDay, scheduledDays } of assignments) {
     const task = taskMap.get(taskId);
     if (!task) continue;
 
-    if (!summary.has(scheduledDay)) {
-      summary.set(scheduledDay, { rooms: new Set(), totalMinutes: 0 });
+    for (const day of scheduledDays ?? [scheduledDay]) {
+      if (!summary.has(day)) {
+        summary.set(day, { rooms: new Set(), totalMinutes: 0 });
+      }
+      const entry = summary.get(day)!;
+      entry.rooms.add(task.room);
+      entry.totalMinutes += task.estimatedMinutes;
     }
-    const entry = summary.get(scheduledDay)!;
-    entry.rooms.add(task.room);
-    entry.totalMinutes += task.estimatedMinutes;
   }
 
   const result = new Map<number, { rooms: string[]; totalMinutes: number }>();
@@ -111,3 +867,75 @@ export function getScheduleSummary(
 
   return result;
 }
+
+/**
+ * Returns the current weekday placement of every weekly task as assignments,
+ * so a schedule that's already saved can be summarised like an optimizer result.
+ */
+export function getWeeklyAssignments(tasks: Task[]): ScheduleAssignment[] {
+  return tasks.filter(isWeekdayScheduled).map(task => {
+    const days = getPlannedDays(task);
+    return { taskId: task.id, scheduledDay: days[0], scheduledDays: days };
+  }).filter(a => a.scheduledDay !== undefined);
+}
+
+export interface ScheduleChange {
+  taskId: string;
+  before?: Task; // Absent when the change adds a new task
+  after: Task;
+  reason?: AssignmentReason; // Why member balancing picked the new assignee
+}
+
+/**
+ * Lists the tasks in `proposed` whose schedule differs from `tasks`, plus any
+ * tasks `proposed` adds. Reasons are taken from `assignments` when given.
+ */
+export function diffSchedule(tasks: Task[], proposed: Task[], assignments: ScheduleAssignment[] = []): ScheduleChange[] {
+  const current = new Map(tasks.map(t => [t.id, t]));
+  const reasons = new Map(assignments.filter(a => a.reason).map(a => [a.taskId, a.reason!]));
+  const changes: ScheduleChange[] = [];
+  for (const after of proposed) {
+    const before = current.get(after.id);
+    if (!before) {
+      changes.push({ taskId: after.id, after });
+      continue;
+    }
+    const moved = getPlannedDays(before).join() !== getPlannedDays(after).join()
+      || (before.anchorDate ?? '') !== (after.anchorDate ?? '')
+      || (before.assignedTo ?? '') !== (after.assignedTo ?? '');
+    if (!moved) continue;
+    const reason = reasons.get(after.id);
+    changes.push({ taskId: after.id, before, after, ...(reason ? { reason } : {}) });
+  }
+  return changes;
+}
+
+// A task's schedule: its days, suggested day, quarter anchor and assignee
+const SCHEDULE_FIELDS = ['scheduledDay', 'scheduledDays', 'suggestedDay', 'anchorDate', 'assignedTo'] as const;
+
+/**
+ * Returns `task` with its schedule (days, suggested day, quarter anchor and assignee)
+ * taken from `source`, including fields `source` leaves unset. Everything else is left alone.
+ */
+export function withScheduleOf(task: Task, source: Task): Task {
+  return {
+    ...task,
+    scheduledDay: source.scheduledDay,
+    scheduledDays: source.scheduledDays,
+    suggestedDay: source.suggestedDay,
+    anchorDate: source.anchorDate,
+    assignedTo: source.assignedTo,
+  };
+}
+
+/**
+ * Returns the schedule of `task` as an update to the stored task that leaves the
+ * rest of it alone: `updates` has the schedule fields it sets, `clear` the ones it
+ * leaves unset.
+ */
+export function getScheduleUpdate(task: Task): { updates: Partial<Task>; clear: (keyof Task)[] } {
+  return {
+    updates: Object.fromEntries(SCHEDULE_FIELDS.map(field => [field, task[field]])),
+    clear: SCHEDULE_FIELDS.filter(field => task[field] === undefined),
+  };
+}